@@ -3,53 +3,136 @@
 import { useState, useMemo, useEffect } from 'react';
 import BeamTypeSelector from '@/components/BeamTypeSelector';
 import BeamPropertiesForm from '@/components/BeamPropertiesForm';
+import AnalysisSettings from '@/components/AnalysisSettings';
+import SegmentEditor from '@/components/SegmentEditor';
+import AttachmentEditor from '@/components/AttachmentEditor';
+import BeamSchematic from '@/components/BeamSchematic';
+import LoadCaseEditor from '@/components/LoadCaseEditor';
+import MaterialLibrary from '@/components/MaterialLibrary';
 import ModeShapeChart from '@/components/ModeShapeChart';
+import ModeAnimation from '@/components/ModeAnimation';
 import StaticDeflectionChart from '@/components/StaticDeflectionChart';
+import StaticDiagramChart, { StaticDiagram } from '@/components/StaticDiagramChart';
 import DampingResponseChart from '@/components/DampingResponseChart';
+import BucklingChart from '@/components/BucklingChart';
+import FrequencyLoadChart from '@/components/FrequencyLoadChart';
+import FrequencyResponseChart from '@/components/FrequencyResponseChart';
+import TransientResponseChart from '@/components/TransientResponseChart';
 import ResultsDisplay from '@/components/ResultsDisplay';
-import { BeamType, BeamProperties, calculateBeamAnalysis } from '@/lib/beamAnalysis';
+import {
+  BeamType,
+  BeamProperties,
+  BeamSolver,
+  BeamTheory,
+  analyseBeam,
+  calculateFrequencyLoadCurve,
+} from '@/lib/beamAnalysis';
+import { createSegment } from '@/lib/segments';
+import { ExportHeader } from '@/lib/export';
+import { Load, createDefaultLoadCase } from '@/lib/loads';
+import { Material, loadCustomMaterials, saveCustomMaterials } from '@/lib/materials';
+import { saveReportInputs } from '@/lib/report';
+import { UnitSystem, unitSystems } from '@/lib/units';
 
-type GraphTab = 'modes' | 'static' | 'damping';
+type GraphTab = 'modes' | 'animation' | 'static' | StaticDiagram | 'buckling' | 'axial' | 'damping' | 'frf' | 'transient';
+
+const staticDiagramTabs: { value: StaticDiagram; label: string }[] = [
+  { value: 'slope', label: 'Slope' },
+  { value: 'shear', label: 'Shear Force' },
+  { value: 'moment', label: 'Bending Moment' },
+  { value: 'stress', label: 'Stress' },
+];
 
 export default function Home() {
   const [beamType, setBeamType] = useState<BeamType>('cantilever');
   const [activeTab, setActiveTab] = useState<GraphTab>('modes');
+  const [numModes, setNumModes] = useState(3);
+  const [theory, setTheory] = useState<BeamTheory>('euler-bernoulli');
+  const [solver, setSolver] = useState<BeamSolver>('analytical');
+  // Only changes what is entered and shown; the analysis always runs in SI
+  const [unitSystem, setUnitSystem] = useState<UnitSystem>('si');
+  // Until the load case is edited, it follows the default for the beam type and length
+  const [customLoads, setCustomLoads] = useState<Load[] | null>(null);
   const [properties, setProperties] = useState<BeamProperties>({
     length: 2,
-    width: 0.1,
-    depth: 0.3,
+    section: { type: 'rectangle', width: 0.1, depth: 0.3 },
     youngsModulus: 20.5e10,
     density: 7.83e3,
   });
 
-  const results = useMemo(() => {
-    if (
-      properties.length > 0 &&
-      properties.width > 0 &&
-      properties.depth > 0 &&
-      properties.youngsModulus > 0 &&
-      properties.density > 0
-    ) {
-      try {
-        return calculateBeamAnalysis(beamType, properties, 3);
-      } catch (error) {
-        console.error('Calculation error:', error);
-        return null;
-      }
-    }
-    return null;
-  }, [beamType, properties]);
+  const [customMaterials, setCustomMaterials] = useState<Material[]>([]);
+
+  // The material library lives in localStorage, which is only available after hydration
+  useEffect(() => {
+    setCustomMaterials(loadCustomMaterials());
+  }, []);
+
+  const updateCustomMaterials = (materials: Material[]) => {
+    setCustomMaterials(materials);
+    saveCustomMaterials(materials);
+  };
+
+  const loads = useMemo(
+    () => customLoads ?? createDefaultLoadCase(beamType, properties.length),
+    [customLoads, beamType, properties.length]
+  );
+
+  const results = useMemo(
+    () => analyseBeam(beamType, properties, numModes, { theory, solver, loads: customLoads ?? undefined }),
+    [beamType, properties, numModes, theory, solver, customLoads]
+  );
+
+  // The frequency-vs-load curve takes some 25 eigen-solves, so it is only calculated while its tab is open
+  const frequencyLoadCurve = useMemo(
+    () =>
+      activeTab === 'axial' && results?.buckling && results.buckling.length > 0
+        ? calculateFrequencyLoadCurve(beamType, properties, numModes, { theory }, results.buckling[0].criticalLoad)
+        : null,
+    [activeTab, results, beamType, properties, numModes, theory]
+  );
+
+  // The beam as drawn: its segments, or one segment for a uniform beam
+  const layoutSegments = useMemo(
+    () =>
+      properties.segments ?? [
+        createSegment(0, properties.length, properties.section, properties.youngsModulus, properties.density),
+      ],
+    [properties]
+  );
+
+  // Inputs written at the top of every exported file
+  const exportHeader = useMemo<ExportHeader>(
+    () => ({ beamType, properties, numModes, options: { theory, solver, loads } }),
+    [beamType, properties, numModes, theory, solver, loads]
+  );
+
+  // The report page recalculates from the inputs saved for it, so it prints without the forms
+  const openReport = () => {
+    saveReportInputs(exportHeader, unitSystem);
+    window.open('/report', 'beam-analysis-report');
+  };
+
+  // The dynamic response tabs need at least one mode that vibrates
+  const hasElasticModes = results?.naturalFrequencies.some((frequency) => frequency > 0) ?? false;
 
   // Auto-switch tab if current tab's graph is not available
   useEffect(() => {
     if (results) {
-      if (activeTab === 'static' && !results.staticDeflection) {
+      const staticTab = activeTab === 'static' || staticDiagramTabs.some((tab) => tab.value === activeTab);
+      if (staticTab && !results.staticDeflection) {
+        setActiveTab('modes');
+      } else if (activeTab === 'buckling' && !results.buckling) {
         setActiveTab('modes');
-      } else if (activeTab === 'damping' && !results.dampedResponse) {
+      } else if (activeTab === 'axial' && !(results.buckling && results.buckling.length > 0)) {
+        setActiveTab('modes');
+      } else if (
+        (activeTab === 'animation' || activeTab === 'damping' || activeTab === 'frf' || activeTab === 'transient') &&
+        !hasElasticModes
+      ) {
         setActiveTab('modes');
       }
     }
-  }, [results, activeTab]);
+  }, [results, activeTab, hasElasticModes]);
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
@@ -62,6 +145,28 @@ export default function Home() {
           <p className="text-gray-600">
             Calculate natural frequencies and visualize mode shapes for various beam configurations
           </p>
+          <div className="inline-flex mt-4 rounded-md border border-gray-300 bg-white overflow-hidden">
+            {unitSystems.map((system) => (
+              <button
+                key={system.value}
+                onClick={() => setUnitSystem(system.value)}
+                title={system.description}
+                className={`px-3 py-1 text-sm font-medium transition-colors ${
+                  unitSystem === system.value ? 'bg-primary-600 text-white' : 'text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {system.label}
+              </button>
+            ))}
+          </div>
+          {results && (
+            <button
+              onClick={openReport}
+              className="ml-3 mt-4 px-3 py-1 text-sm font-medium rounded-md border border-gray-300 bg-white text-gray-700 hover:bg-gray-50 transition-colors"
+            >
+              Printable Report
+            </button>
+          )}
         </div>
 
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
@@ -72,7 +177,73 @@ export default function Home() {
             </div>
 
             <div className="bg-white rounded-lg shadow-sm p-6">
-              <BeamPropertiesForm properties={properties} onChange={setProperties} />
+              <BeamPropertiesForm
+                properties={properties}
+                customMaterials={customMaterials}
+                unitSystem={unitSystem}
+                onChange={setProperties}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <SegmentEditor
+                properties={properties}
+                customMaterials={customMaterials}
+                unitSystem={unitSystem}
+                onChange={setProperties}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <AttachmentEditor
+                length={properties.length}
+                attachments={properties.attachments ?? []}
+                unitSystem={unitSystem}
+                onChange={(attachments) =>
+                  setProperties({ ...properties, attachments: attachments.length > 0 ? attachments : undefined })
+                }
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <MaterialLibrary
+                materials={customMaterials}
+                currentValues={properties.segments?.[0] ?? properties}
+                unitSystem={unitSystem}
+                onChange={updateCustomMaterials}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <LoadCaseEditor
+                beamType={beamType}
+                length={properties.length}
+                loads={loads}
+                attachments={properties.attachments ?? []}
+                foundationModulus={properties.foundationModulus ?? 0}
+                axialLoad={properties.axialLoad}
+                unitSystem={unitSystem}
+                onChange={setCustomLoads}
+                onAxialLoadChange={(axialLoad) => setProperties({ ...properties, axialLoad })}
+                onReset={() => setCustomLoads(null)}
+              />
+            </div>
+
+            <div className="bg-white rounded-lg shadow-sm p-6">
+              <AnalysisSettings
+                numModes={numModes}
+                onNumModesChange={setNumModes}
+                theory={theory}
+                onTheoryChange={setTheory}
+                solver={solver}
+                onSolverChange={setSolver}
+                finiteElementOnly={
+                  properties.segments !== undefined ||
+                  properties.attachments !== undefined ||
+                  (properties.foundationModulus ?? 0) > 0 ||
+                  (properties.axialLoad ?? 0) !== 0
+                }
+              />
             </div>
           </div>
 
@@ -80,10 +251,23 @@ export default function Home() {
           <div className="lg:col-span-2">
             {results && (
               <div className="flex flex-col gap-6">
+                {(properties.segments || properties.foundationModulus) && (
+                  <div className="bg-white rounded-lg shadow-sm p-6">
+                    <h3 className="text-lg font-semibold text-gray-800 mb-4">Beam Layout</h3>
+                    <BeamSchematic
+                      beamType={beamType}
+                      segments={layoutSegments}
+                      unitSystem={unitSystem}
+                      foundation={(properties.foundationModulus ?? 0) > 0}
+                    />
+                  </div>
+                )}
                 <div>
                   <ResultsDisplay 
-                    key={`${beamType}-${properties.length}-${properties.width}-${properties.depth}-${properties.youngsModulus}-${properties.density}`} 
+                    key={`${beamType}-${properties.length}-${JSON.stringify(properties.section)}-${properties.youngsModulus}-${properties.density}-${properties.poissonsRatio}-${properties.shearModulus}-${JSON.stringify(properties.segments)}-${JSON.stringify(properties.attachments)}-${properties.foundationModulus}-${properties.axialLoad}-${numModes}-${theory}-${solver}`} 
                     results={results} 
+                    unitSystem={unitSystem}
+                    exportHeader={exportHeader}
                   />
                 </div>
                 
@@ -101,6 +285,18 @@ export default function Home() {
                     >
                       Mode Shapes
                     </button>
+                    {hasElasticModes && (
+                      <button
+                        onClick={() => setActiveTab('animation')}
+                        className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+                          activeTab === 'animation'
+                            ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                        }`}
+                      >
+                        Animation
+                      </button>
+                    )}
                     {results.staticDeflection && (
                       <button
                         onClick={() => setActiveTab('static')}
@@ -113,7 +309,45 @@ export default function Home() {
                         Static Deflection
                       </button>
                     )}
-                    {results.dampedResponse && (
+                    {results.staticDeflection &&
+                      staticDiagramTabs.map((tab) => (
+                        <button
+                          key={tab.value}
+                          onClick={() => setActiveTab(tab.value)}
+                          className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+                            activeTab === tab.value
+                              ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                              : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                          }`}
+                        >
+                          {tab.label}
+                        </button>
+                      ))}
+                    {results.buckling && (
+                      <button
+                        onClick={() => setActiveTab('buckling')}
+                        className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+                          activeTab === 'buckling'
+                            ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                        }`}
+                      >
+                        Buckling
+                      </button>
+                    )}
+                    {results.buckling && results.buckling.length > 0 && (
+                      <button
+                        onClick={() => setActiveTab('axial')}
+                        className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+                          activeTab === 'axial'
+                            ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                        }`}
+                      >
+                        Frequency vs Load
+                      </button>
+                    )}
+                    {hasElasticModes && (
                       <button
                         onClick={() => setActiveTab('damping')}
                         className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
@@ -122,7 +356,31 @@ export default function Home() {
                             : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
                         }`}
                       >
-                        Damped Response
+                        Free Vibration
+                      </button>
+                    )}
+                    {hasElasticModes && (
+                      <button
+                        onClick={() => setActiveTab('frf')}
+                        className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+                          activeTab === 'frf'
+                            ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                        }`}
+                      >
+                        FRF
+                      </button>
+                    )}
+                    {hasElasticModes && (
+                      <button
+                        onClick={() => setActiveTab('transient')}
+                        className={`flex-1 px-4 py-3 text-sm font-medium transition-colors ${
+                          activeTab === 'transient'
+                            ? 'text-blue-600 border-b-2 border-blue-600 bg-blue-50'
+                            : 'text-gray-600 hover:text-gray-900 hover:bg-gray-50'
+                        }`}
+                      >
+                        Transient
                       </button>
                     )}
                   </div>
@@ -132,24 +390,99 @@ export default function Home() {
                     {activeTab === 'modes' && (
                       <div>
                         <ModeShapeChart 
-                          key={`${beamType}-${properties.length}`} 
+                          key={`${beamType}-${properties.length}-${numModes}-${theory}-${solver}-${JSON.stringify(properties.attachments)}-${properties.foundationModulus}-${properties.axialLoad}`} 
                           modeShapes={results.modeShapes} 
+                          attachments={properties.attachments}
+                          unitSystem={unitSystem}
+                          exportHeader={exportHeader}
+                        />
+                      </div>
+                    )}
+                    {activeTab === 'animation' && hasElasticModes && (
+                      <div>
+                        <ModeAnimation
+                          key={`animation-${beamType}-${properties.length}-${numModes}-${theory}-${solver}`}
+                          beamType={beamType}
+                          segments={layoutSegments}
+                          modeShapes={results.modeShapes}
+                          naturalFrequencies={results.naturalFrequencies}
+                          unitSystem={unitSystem}
                         />
                       </div>
                     )}
                     {activeTab === 'static' && results.staticDeflection && (
                       <div>
                         <StaticDeflectionChart 
-                          key={`static-${beamType}-${properties.length}`}
+                          key={`static-${beamType}-${properties.length}-${solver}-${JSON.stringify(loads)}`}
                           staticDeflection={results.staticDeflection} 
+                          unitSystem={unitSystem}
+                          exportHeader={exportHeader}
+                        />
+                      </div>
+                    )}
+                    {staticDiagramTabs.map(
+                      (tab) =>
+                        activeTab === tab.value &&
+                        results.staticDeflection && (
+                          <div key={tab.value}>
+                            <StaticDiagramChart
+                              staticDeflection={results.staticDeflection}
+                              diagram={tab.value}
+                              unitSystem={unitSystem}
+                            />
+                          </div>
+                        )
+                    )}
+                    {activeTab === 'buckling' && results.buckling && (
+                      <div>
+                        <BucklingChart buckling={results.buckling} unitSystem={unitSystem} />
+                      </div>
+                    )}
+                    {activeTab === 'axial' && frequencyLoadCurve && results.buckling && (
+                      <div>
+                        <FrequencyLoadChart
+                          curve={frequencyLoadCurve}
+                          criticalLoad={results.buckling[0].criticalLoad}
+                          axialLoad={results.axialLoad}
+                          unitSystem={unitSystem}
+                        />
+                      </div>
+                    )}
+                    {activeTab === 'damping' && (
+                      <div>
+                        <DampingResponseChart
+                          key={`damped-${beamType}-${properties.length}-${numModes}`}
+                          modeShapes={results.modeShapes}
+                          naturalFrequencies={results.naturalFrequencies}
+                          damping={properties.damping}
+                          staticModalCoordinates={results.staticModalCoordinates}
+                          length={properties.length}
+                          unitSystem={unitSystem}
+                          exportHeader={exportHeader}
+                        />
+                      </div>
+                    )}
+                    {activeTab === 'frf' && (
+                      <div>
+                        <FrequencyResponseChart
+                          key={`frf-${properties.length}`}
+                          modeShapes={results.modeShapes}
+                          naturalFrequencies={results.naturalFrequencies}
+                          damping={properties.damping}
+                          length={properties.length}
+                          unitSystem={unitSystem}
                         />
                       </div>
                     )}
-                    {activeTab === 'damping' && results.dampedResponse && (
+                    {activeTab === 'transient' && (
                       <div>
-                        <DampingResponseChart 
-                          key={`damped-${beamType}-${properties.length}-${properties.dampingRatio || 0}`}
-                          dampedResponse={results.dampedResponse} 
+                        <TransientResponseChart
+                          key={`transient-${properties.length}`}
+                          modeShapes={results.modeShapes}
+                          naturalFrequencies={results.naturalFrequencies}
+                          damping={properties.damping}
+                          length={properties.length}
+                          unitSystem={unitSystem}
                         />
                       </div>
                     )}
@@ -171,8 +504,10 @@ export default function Home() {
         {/* Footer */}
         <div className="mt-8 text-center text-sm text-gray-500">
           <p>
-            Based on Euler-Bernoulli beam theory. Results are calculated using characteristic equations
-            for each beam type.
+            Based on {theory === 'timoshenko' ? 'Timoshenko' : 'Euler-Bernoulli'} beam theory. Results are
+            calculated {results?.solver === 'finite-element'
+              ? 'with a Hermite-cubic finite-element model of the beam.'
+              : 'using characteristic equations for each beam type.'}
           </p>
         </div>
       </div>
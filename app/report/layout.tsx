@@ -0,0 +1,14 @@
+import type { Metadata } from 'next';
+
+export const metadata: Metadata = {
+  title: 'Beam Analysis Report',
+  description: 'Printable calculation report of a beam analysis',
+};
+
+export default function ReportLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return children;
+}
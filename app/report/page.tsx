@@ -0,0 +1,459 @@
+'use client';
+
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { beamTypes } from '@/components/BeamTypeSelector';
+import { solvers, theories } from '@/components/AnalysisSettings';
+import BeamSchematic from '@/components/BeamSchematic';
+import ResultsDisplay from '@/components/ResultsDisplay';
+import ModeShapeChart from '@/components/ModeShapeChart';
+import StaticDeflectionChart from '@/components/StaticDeflectionChart';
+import StaticDiagramChart, { StaticDiagram } from '@/components/StaticDiagramChart';
+import BucklingChart from '@/components/BucklingChart';
+import FrequencyLoadChart from '@/components/FrequencyLoadChart';
+import DampingResponseChart from '@/components/DampingResponseChart';
+import FrequencyResponseChart from '@/components/FrequencyResponseChart';
+import TransientResponseChart from '@/components/TransientResponseChart';
+import { BeamResults, analyseBeam, calculateFrequencyLoadCurve } from '@/lib/beamAnalysis';
+import { endConditions } from '@/lib/boundaryConditions';
+import { CrossSection, getSectionValue, sectionFields, sectionTypes } from '@/lib/crossSections';
+import { describeAttachment } from '@/lib/attachments';
+import { describeDampingModel } from '@/lib/damping';
+import { describeLoad } from '@/lib/loads';
+import { findMaterial, presetMaterials } from '@/lib/materials';
+import {
+  ReportInputs,
+  characteristicEquation,
+  governingEquations,
+  loadReportInputs,
+  reportAssumptions,
+  reportWarnings,
+  substituteCharacteristicEquation,
+  substituteFrequency,
+} from '@/lib/report';
+import { createSegment } from '@/lib/segments';
+import { Quantity, UnitSystem, formatQuantity, unitSystems } from '@/lib/units';
+
+const staticDiagrams: StaticDiagram[] = ['slope', 'shear', 'moment', 'stress'];
+
+function describeSection(section: CrossSection, unitSystem: UnitSystem): string {
+  const label = sectionTypes.find((type) => type.value === section.type)?.label ?? section.type;
+  const dimensions = sectionFields[section.type].map(
+    (field) => `${field.label} ${formatQuantity(getSectionValue(section, field.key), field.quantity, unitSystem)}`
+  );
+  return `${label}: ${dimensions.join(', ')}`;
+}
+
+function ReportSection({ number, title, children }: { number: number; title: string; children: ReactNode }) {
+  return (
+    <section className="mb-8">
+      <h2 className="text-xl font-semibold text-gray-900 border-b border-gray-300 pb-1 mb-3">
+        {number}. {title}
+      </h2>
+      {children}
+    </section>
+  );
+}
+
+function DefinitionTable({ rows }: { rows: [string, ReactNode][] }) {
+  return (
+    <table className="w-full text-sm mb-4">
+      <tbody>
+        {rows.map(([label, value]) => (
+          <tr key={label} className="border-b border-gray-100 align-top">
+            <th className="py-1 pr-4 w-1/3 text-left font-medium text-gray-600">{label}</th>
+            <td className="py-1 text-gray-800">{value}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+// Charts are kept whole on a printed page
+function ReportChart({ children }: { children: ReactNode }) {
+  return <div className="mb-6 border border-gray-200 rounded break-inside-avoid">{children}</div>;
+}
+
+export default function Report() {
+  // undefined until storage has been read, which is only possible after hydration
+  const [inputs, setInputs] = useState<ReportInputs | null | undefined>(undefined);
+
+  useEffect(() => {
+    setInputs(loadReportInputs());
+  }, []);
+
+  // Validated as on the main page, so the report never shows results that the page would reject
+  const results = useMemo<BeamResults | null>(
+    () => (inputs ? analyseBeam(inputs.beamType, inputs.properties, inputs.numModes, inputs.options) : null),
+    [inputs]
+  );
+
+  const frequencyLoadCurve = useMemo(
+    () =>
+      inputs && results?.buckling && results.buckling.length > 0
+        ? calculateFrequencyLoadCurve(
+            inputs.beamType,
+            inputs.properties,
+            inputs.numModes,
+            inputs.options,
+            results.buckling[0].criticalLoad
+          )
+        : null,
+    [inputs, results]
+  );
+
+  if (inputs === undefined) return null;
+
+  if (!inputs || !results) {
+    return (
+      <div className="container mx-auto px-4 py-16 max-w-3xl text-center">
+        <p className="text-gray-600">
+          No analysis to report. Open the report with the Printable Report button on the{' '}
+          <a href="/" className="text-blue-600 underline">
+            main page
+          </a>{' '}
+          once the beam has valid results.
+        </p>
+      </div>
+    );
+  }
+
+  const { beamType, properties, unitSystem } = inputs;
+  const { staticDeflection } = results;
+  const format = (value: number, quantity: Quantity, digits?: number) =>
+    formatQuantity(value, quantity, unitSystem, digits);
+  const beamTypeInfo = beamTypes.find((type) => type.value === beamType);
+  const [startEnd, endEnd] = endConditions[beamType];
+  const material = findMaterial(presetMaterials, properties);
+  const layoutSegments = properties.segments ?? [
+    createSegment(0, properties.length, properties.section, properties.youngsModulus, properties.density),
+  ];
+  const elasticModes = results.modeShapes.filter((shape) => !shape.rigidBody);
+  const closedForm = results.theory === 'euler-bernoulli' && results.solver === 'analytical';
+  const boundaryConditions = results.modeShapes[0]?.boundaryResiduals ?? [];
+  const warnings = reportWarnings(inputs, results, unitSystem);
+  const exportHeader = { beamType, properties, numModes: inputs.numModes, options: inputs.options };
+
+  return (
+    <div className="report bg-white min-h-screen">
+      <div className="container mx-auto px-6 py-8 max-w-4xl print:max-w-none print:px-0 print:py-0">
+        {/* Title */}
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h1 className="text-3xl font-bold text-gray-900">Beam Analysis Report</h1>
+            <p className="text-gray-600 mt-1">
+              {beamTypeInfo?.label ?? beamType} beam, {format(properties.length, 'length')} long
+            </p>
+            <p className="text-xs text-gray-500 mt-1">Generated {new Date(inputs.createdAt).toLocaleString()}</p>
+          </div>
+          <button
+            onClick={() => window.print()}
+            className="px-4 py-2 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors print:hidden"
+          >
+            Print / Save as PDF
+          </button>
+        </div>
+
+        <ReportSection number={1} title="Inputs">
+          <DefinitionTable
+            rows={[
+              ['Beam type', `${beamTypeInfo?.label ?? beamType} (${beamTypeInfo?.description ?? ''})`],
+              ['Supports', `${startEnd} at x = 0, ${endEnd} at x = L`],
+              ['Length L', format(properties.length, 'length')],
+              ['Beam theory', theories.find((theory) => theory.value === results.theory)?.label ?? results.theory],
+              ['Solver', solvers.find((solver) => solver.value === results.solver)?.label ?? results.solver],
+              ['Modes computed', String(results.modeShapes.length)],
+              ['Units', unitSystems.find((system) => system.value === unitSystem)?.label ?? unitSystem],
+              ['Damping', describeDampingModel(properties.damping)],
+              [
+                'Attachments',
+                properties.attachments && properties.attachments.length > 0
+                  ? properties.attachments.map((attachment) => describeAttachment(attachment, unitSystem)).join('; ')
+                  : 'None',
+              ],
+              [
+                'Elastic foundation',
+                (properties.foundationModulus ?? 0) > 0
+                  ? `k = ${format(properties.foundationModulus ?? 0, 'foundationModulus')}`
+                  : 'None',
+              ],
+              [
+                'Axial load',
+                (properties.axialLoad ?? 0) !== 0
+                  ? `P = ${format(properties.axialLoad ?? 0, 'force')} (tension positive)`
+                  : 'None',
+              ],
+              [
+                'Static load case',
+                (inputs.options.loads ?? []).length > 0
+                  ? (inputs.options.loads ?? []).map((load) => describeLoad(load, unitSystem)).join('; ')
+                  : 'None',
+              ],
+            ]}
+          />
+        </ReportSection>
+
+        <ReportSection number={2} title="Material and Section">
+          {properties.segments ? (
+            <table className="w-full text-sm mb-4">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-1 pr-4 font-medium">Segment</th>
+                  <th className="py-1 pr-4 font-medium">Section</th>
+                  <th className="py-1 pr-4 font-medium">E</th>
+                  <th className="py-1 font-medium">ρ</th>
+                </tr>
+              </thead>
+              <tbody>
+                {properties.segments.map((segment, index) => (
+                  <tr key={index} className="border-b border-gray-100 text-gray-800 align-top">
+                    <td className="py-1 pr-4">
+                      {format(segment.start, 'length')} to {format(segment.end, 'length')}
+                    </td>
+                    <td className="py-1 pr-4">
+                      {describeSection(segment.section, unitSystem)}
+                      {segment.endSection && `, tapering to ${describeSection(segment.endSection, unitSystem)}`}
+                    </td>
+                    <td className="py-1 pr-4">{format(segment.youngsModulus, 'modulus')}</td>
+                    <td className="py-1">{format(segment.density, 'density')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          ) : (
+            <DefinitionTable
+              rows={[
+                ['Material', material?.name ?? 'User-defined'],
+                ["Young's modulus E", format(properties.youngsModulus, 'modulus')],
+                ['Density ρ', format(properties.density, 'density')],
+                ["Poisson's ratio ν", (properties.poissonsRatio ?? 0.3).toFixed(3)],
+                [
+                  'Shear modulus G',
+                  properties.shearModulus !== undefined ? format(properties.shearModulus, 'modulus') : 'E/(2(1 + ν))',
+                ],
+                [
+                  'Yield strength σy',
+                  properties.yieldStrength !== undefined ? format(properties.yieldStrength, 'stress') : 'Not given',
+                ],
+                [
+                  'Ultimate strength σu',
+                  properties.ultimateStrength !== undefined ? format(properties.ultimateStrength, 'stress') : 'Not given',
+                ],
+                ['Cross-section', describeSection(properties.section, unitSystem)],
+              ]}
+            />
+          )}
+          <DefinitionTable
+            rows={[
+              [
+                `Area A${properties.segments ? ' (at x = 0)' : ''}`,
+                format(results.sectionProperties.area, 'area'),
+              ],
+              [
+                `Second moment of area I${properties.segments ? ' (at x = 0)' : ''}`,
+                format(results.sectionProperties.momentOfInertia, 'momentOfInertia'),
+              ],
+              [
+                `Section modulus Z${properties.segments ? ' (at x = 0)' : ''}`,
+                format(results.sectionProperties.sectionModulus, 'sectionModulus'),
+              ],
+              [
+                `Flexural rigidity EI${properties.segments ? ' (length-averaged)' : ''}`,
+                format(results.flexuralRigidity, 'flexuralRigidity'),
+              ],
+              [
+                `Mass per unit length ρA${properties.segments ? ' (length-averaged)' : ''}`,
+                format(results.massPerUnitLength, 'massPerLength'),
+              ],
+              ['Total mass', format(results.totalMass, 'mass')],
+            ]}
+          />
+          {(properties.segments || (properties.foundationModulus ?? 0) > 0) && (
+            <div className="break-inside-avoid">
+              <BeamSchematic
+                beamType={beamType}
+                segments={layoutSegments}
+                unitSystem={unitSystem}
+                foundation={(properties.foundationModulus ?? 0) > 0}
+              />
+            </div>
+          )}
+        </ReportSection>
+
+        <ReportSection number={3} title="Governing Equations">
+          <p className="text-sm text-gray-700 mb-2">Equation of motion, for the deflection w(x, t):</p>
+          <div className="font-mono text-sm bg-gray-50 border border-gray-200 rounded px-3 py-2 mb-4">
+            {governingEquations(inputs).map((equation) => (
+              <div key={equation}>{equation}</div>
+            ))}
+          </div>
+          <p className="text-sm text-gray-700 mb-2">Boundary conditions, with primes for derivatives along x:</p>
+          <div className="font-mono text-sm bg-gray-50 border border-gray-200 rounded px-3 py-2 mb-4">
+            {[0, properties.length].map((position) => (
+              <div key={position}>
+                x = {position === 0 ? '0' : 'L'}:{' '}
+                {boundaryConditions
+                  .filter((condition) => condition.position === position)
+                  .map((condition) => condition.condition)
+                  .join(', ')}
+              </div>
+            ))}
+          </div>
+          {closedForm ? (
+            <>
+              <p className="text-sm text-gray-700 mb-2">
+                Separating w = W(x)·sin(ωt) with {"W'''' = b⁴W"} and applying the boundary conditions
+                gives the characteristic equation
+              </p>
+              <div className="font-mono text-sm bg-gray-50 border border-gray-200 rounded px-3 py-2 mb-4">
+                {characteristicEquation(beamType)}
+              </div>
+            </>
+          ) : (
+            <p className="text-sm text-gray-700 mb-4">
+              {results.solver === 'finite-element'
+                ? 'The natural frequencies are the eigenvalues of the finite-element stiffness and mass matrices.'
+                : 'The natural frequencies are the roots of the Timoshenko frequency determinant.'}{' '}
+              bL below is the equivalent Euler-Bernoulli parameter, defined by the same frequency equation with the
+              reference EI and ρA.
+            </p>
+          )}
+          <p className="text-sm text-gray-700 mb-2">
+            Each root gives a natural frequency ω = (bL)²·√(EI/(ρA·L⁴)), evaluated in SI units:
+          </p>
+          <table className="w-full text-sm mb-2">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-1 pr-4 font-medium">Mode</th>
+                <th className="py-1 pr-4 font-medium">bL</th>
+                <th className="py-1 font-medium">Substitution</th>
+              </tr>
+            </thead>
+            <tbody>
+              {elasticModes.map((shape) => (
+                <tr key={shape.mode} className="border-b border-gray-100 text-gray-800 align-top">
+                  <td className="py-1 pr-4">{shape.mode}</td>
+                  <td className="py-1 pr-4">{shape.bL.toFixed(5)}</td>
+                  <td className="py-1 font-mono text-xs">
+                    {closedForm && <div>{substituteCharacteristicEquation(beamType, shape.bL)}</div>}
+                    <div>{substituteFrequency(shape.bL, results, properties.length)}</div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {elasticModes.length < results.modeShapes.length && (
+            <p className="text-xs text-gray-500">
+              The remaining {results.modeShapes.length - elasticModes.length} mode(s) are rigid-body modes with bL = 0
+              and zero frequency.
+            </p>
+          )}
+        </ReportSection>
+
+        <ReportSection number={4} title="Results">
+          <ResultsDisplay results={results} unitSystem={unitSystem} exportHeader={exportHeader} showAllModes />
+        </ReportSection>
+
+        <ReportSection number={5} title="Charts">
+          <ReportChart>
+            <ModeShapeChart
+              modeShapes={results.modeShapes}
+              attachments={properties.attachments}
+              unitSystem={unitSystem}
+              exportHeader={exportHeader}
+              showAllModes
+            />
+          </ReportChart>
+          {staticDeflection && (
+            <>
+              <ReportChart>
+                <StaticDeflectionChart
+                  staticDeflection={staticDeflection}
+                  unitSystem={unitSystem}
+                  exportHeader={exportHeader}
+                />
+              </ReportChart>
+              {staticDiagrams.map((diagram) => (
+                <ReportChart key={diagram}>
+                  <StaticDiagramChart
+                    staticDeflection={staticDeflection}
+                    diagram={diagram}
+                    unitSystem={unitSystem}
+                  />
+                </ReportChart>
+              ))}
+            </>
+          )}
+          {results.buckling && (
+            <ReportChart>
+              <BucklingChart buckling={results.buckling} unitSystem={unitSystem} />
+            </ReportChart>
+          )}
+          {frequencyLoadCurve && results.buckling && (
+            <ReportChart>
+              <FrequencyLoadChart
+                curve={frequencyLoadCurve}
+                criticalLoad={results.buckling[0].criticalLoad}
+                axialLoad={results.axialLoad}
+                unitSystem={unitSystem}
+              />
+            </ReportChart>
+          )}
+          {elasticModes.length > 0 && (
+            <>
+              <ReportChart>
+                <DampingResponseChart
+                  modeShapes={results.modeShapes}
+                  naturalFrequencies={results.naturalFrequencies}
+                  damping={properties.damping}
+                  staticModalCoordinates={results.staticModalCoordinates}
+                  length={properties.length}
+                  unitSystem={unitSystem}
+                  exportHeader={exportHeader}
+                />
+              </ReportChart>
+              <ReportChart>
+                <FrequencyResponseChart
+                  modeShapes={results.modeShapes}
+                  naturalFrequencies={results.naturalFrequencies}
+                  damping={properties.damping}
+                  length={properties.length}
+                  unitSystem={unitSystem}
+                />
+              </ReportChart>
+              <ReportChart>
+                <TransientResponseChart
+                  modeShapes={results.modeShapes}
+                  naturalFrequencies={results.naturalFrequencies}
+                  damping={properties.damping}
+                  length={properties.length}
+                  unitSystem={unitSystem}
+                />
+              </ReportChart>
+            </>
+          )}
+        </ReportSection>
+
+        <ReportSection number={6} title="Assumptions">
+          <ul className="list-disc pl-6 text-sm text-gray-700 space-y-1">
+            {reportAssumptions(inputs, results).map((assumption) => (
+              <li key={assumption}>{assumption}</li>
+            ))}
+          </ul>
+        </ReportSection>
+
+        <ReportSection number={7} title="Warnings">
+          {warnings.length > 0 ? (
+            <ul className="list-disc pl-6 text-sm text-orange-700 space-y-1">
+              {warnings.map((warning) => (
+                <li key={warning}>{warning}</li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-700">None: the inputs are within the range of the assumptions above.</p>
+          )}
+        </ReportSection>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { BeamSolver, BeamTheory, MAX_MODES } from '@/lib/beamAnalysis';
+
+interface AnalysisSettingsProps {
+  numModes: number;
+  onNumModesChange: (numModes: number) => void;
+  theory: BeamTheory;
+  onTheoryChange: (theory: BeamTheory) => void;
+  solver: BeamSolver;
+  onSolverChange: (solver: BeamSolver) => void;
+  finiteElementOnly: boolean; // Non-uniform beams and beams with attachments always use finite elements
+}
+
+export const theories: { value: BeamTheory; label: string; description: string }[] = [
+  {
+    value: 'euler-bernoulli',
+    label: 'Euler-Bernoulli',
+    description: 'Slender beams, bending only',
+  },
+  {
+    value: 'timoshenko',
+    label: 'Timoshenko',
+    description: 'Adds shear deformation and rotary inertia',
+  },
+];
+
+export const solvers: { value: BeamSolver; label: string; description: string }[] = [
+  {
+    value: 'analytical',
+    label: 'Analytical',
+    description: 'Exact closed-form solution',
+  },
+  {
+    value: 'finite-element',
+    label: 'Finite Element',
+    description: 'Hermite beam elements, ready for non-uniform beams',
+  },
+];
+
+export default function AnalysisSettings({
+  numModes,
+  onNumModesChange,
+  theory,
+  onTheoryChange,
+  solver,
+  onSolverChange,
+  finiteElementOnly,
+}: AnalysisSettingsProps) {
+  // Raw text of the modes field, so it can be cleared and retyped; clamped when committed
+  const [numModesText, setNumModesText] = useState(String(numModes));
+
+  useEffect(() => {
+    setNumModesText(String(numModes));
+  }, [numModes]);
+
+  const commitNumModes = () => {
+    const value = parseInt(numModesText, 10);
+    const clamped = Number.isNaN(value) ? numModes : Math.min(Math.max(value, 1), MAX_MODES);
+    setNumModesText(String(clamped));
+    if (clamped !== numModes) onNumModesChange(clamped);
+  };
+
+  const activeSolver = finiteElementOnly ? 'finite-element' : solver;
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800">Analysis Settings</h3>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Beam Theory
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          {theories.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onTheoryChange(option.value)}
+              className={`p-3 rounded-lg border-2 transition-all text-left ${
+                theory === option.value
+                  ? 'border-primary-600 bg-primary-50 text-primary-900'
+                  : 'border-gray-200 bg-white text-gray-700 hover:border-primary-300 hover:bg-primary-50'
+              }`}
+            >
+              <div className="font-semibold text-sm">{option.label}</div>
+              <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+            </button>
+          ))}
+        </div>
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Solver
+        </label>
+        <div className="grid grid-cols-2 gap-3">
+          {solvers.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => onSolverChange(option.value)}
+              disabled={finiteElementOnly && option.value !== 'finite-element'}
+              className={`p-3 rounded-lg border-2 transition-all text-left disabled:opacity-40 disabled:cursor-not-allowed ${
+                activeSolver === option.value
+                  ? 'border-primary-600 bg-primary-50 text-primary-900'
+                  : 'border-gray-200 bg-white text-gray-700 hover:border-primary-300 hover:bg-primary-50'
+              }`}
+            >
+              <div className="font-semibold text-sm">{option.label}</div>
+              <div className="text-xs text-gray-500 mt-1">{option.description}</div>
+            </button>
+          ))}
+        </div>
+        {finiteElementOnly && (
+          <p className="text-xs text-gray-500 mt-1">
+            Non-uniform beams and beams with attached masses, springs, an elastic foundation or an axial load
+            have no closed-form solution here and always use finite elements
+          </p>
+        )}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Number of Elastic Modes
+        </label>
+        <input
+          type="number"
+          value={numModesText}
+          onChange={(e) => {
+            setNumModesText(e.target.value);
+            const value = parseInt(e.target.value, 10);
+            if (value >= 1 && value <= MAX_MODES) onNumModesChange(value);
+          }}
+          onBlur={commitNumModes}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitNumModes();
+          }}
+          className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+          min="1"
+          max={MAX_MODES}
+          step="1"
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Elastic modes to compute (1-{MAX_MODES}); the rigid-body modes of an unrestrained beam come on top, up
+          to {MAX_MODES} modes in all
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,118 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  Attachment,
+  AttachmentType,
+  attachmentTypes,
+  attachmentFields,
+  createDefaultAttachment,
+  getAttachmentValue,
+  isValidAttachment,
+  setAttachmentValue,
+} from '@/lib/attachments';
+import { UnitSystem, formatQuantity, unitSymbol } from '@/lib/units';
+import UnitInput from '@/components/UnitInput';
+
+interface AttachmentEditorProps {
+  length: number;
+  attachments: Attachment[];
+  unitSystem: UnitSystem;
+  onChange: (attachments: Attachment[]) => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export default function AttachmentEditor({ length, attachments, unitSystem, onChange }: AttachmentEditorProps) {
+  const [newAttachmentType, setNewAttachmentType] = useState<AttachmentType>('mass');
+
+  const updateAttachment = (index: number, attachment: Attachment) => {
+    onChange(attachments.map((a, i) => (i === index ? attachment : a)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800">Attached Masses & Springs</h3>
+      <p className="text-xs text-gray-500">
+        Springs connect the beam to the ground; put one at an end (0 or{' '}
+        {formatQuantity(length, 'length', unitSystem)}) to restrain that end elastically
+      </p>
+
+      {attachments.length === 0 && <p className="text-xs text-gray-500">Nothing attached</p>}
+
+      {attachments.map((attachment, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex justify-between items-center gap-2">
+            <select
+              value={attachment.type}
+              onChange={(e) =>
+                updateAttachment(index, {
+                  ...createDefaultAttachment(e.target.value as AttachmentType, length),
+                  position: attachment.position,
+                })
+              }
+              className={`${inputClassName} bg-white`}
+            >
+              {attachmentTypes.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(attachments.filter((_, i) => i !== index))}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {attachmentFields[attachment.type].map((field) => (
+              <div key={field.key}>
+                <label className="block text-xs text-gray-600 mb-1">
+                  {field.label} ({unitSymbol(field.quantity, unitSystem)})
+                </label>
+                <UnitInput
+                  value={getAttachmentValue(attachment, field.key)}
+                  quantity={field.quantity}
+                  unitSystem={unitSystem}
+                  onChange={(value) => updateAttachment(index, setAttachmentValue(attachment, field.key, value ?? 0))}
+                  className={inputClassName}
+                  min={0}
+                />
+              </div>
+            ))}
+          </div>
+          {!isValidAttachment(attachment, length) && (
+            <p className="text-xs text-red-600">
+              Must lie on the beam (0 to {formatQuantity(length, 'length', unitSystem)}), with no negative values
+            </p>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <select
+          value={newAttachmentType}
+          onChange={(e) => setNewAttachmentType(e.target.value as AttachmentType)}
+          className={`${inputClassName} bg-white`}
+        >
+          {attachmentTypes.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange([...attachments, createDefaultAttachment(newAttachmentType, length)])}
+          className="px-3 py-1 text-sm rounded-md border border-dashed border-primary-300 text-primary-700 hover:bg-primary-50 whitespace-nowrap"
+        >
+          + Attach
+        </button>
+      </div>
+    </div>
+  );
+}
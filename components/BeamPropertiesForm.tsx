@@ -1,124 +1,312 @@
 'use client';
 
 import { BeamProperties } from '@/lib/beamAnalysis';
+import {
+  CrossSection,
+  SectionType,
+  sectionTypes,
+  sectionFields,
+  createDefaultSection,
+  isValidSection,
+  isValidShearProperties,
+  getSectionValue,
+  setSectionValue,
+} from '@/lib/crossSections';
+import { Material, applyMaterial } from '@/lib/materials';
+import { MIN_SAFETY_FACTOR, isValidSafetyFactor } from '@/lib/strength';
+import { UnitSystem, formatQuantity, unitSymbol } from '@/lib/units';
+import DampingEditor from '@/components/DampingEditor';
+import MaterialPicker from '@/components/MaterialPicker';
+import UnitInput from '@/components/UnitInput';
 
 interface BeamPropertiesFormProps {
   properties: BeamProperties;
+  customMaterials: Material[];
+  unitSystem: UnitSystem;
   onChange: (properties: BeamProperties) => void;
 }
 
-export default function BeamPropertiesForm({ properties, onChange }: BeamPropertiesFormProps) {
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export default function BeamPropertiesForm({
+  properties,
+  customMaterials,
+  unitSystem,
+  onChange,
+}: BeamPropertiesFormProps) {
+  const segmented = properties.segments !== undefined && properties.segments.length > 0;
+
   const updateProperty = (key: keyof BeamProperties, value: number | undefined) => {
     onChange({ ...properties, [key]: value });
   };
 
+  // The last segment of a non-uniform beam follows the beam length
+  const updateLength = (length: number) => {
+    const segments = properties.segments?.map((segment, index, all) =>
+      index === all.length - 1 ? { ...segment, end: length } : segment
+    );
+    onChange({ ...properties, length, segments });
+  };
+
+  const updateSection = (section: CrossSection) => {
+    onChange({ ...properties, section });
+  };
+
   return (
     <div className="space-y-4">
       <h3 className="text-lg font-semibold text-gray-800">Beam Dimensions</h3>
       <div className="grid grid-cols-2 gap-4">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Length (m)
+            Length ({unitSymbol('length', unitSystem)})
           </label>
-          <input
-            type="number"
+          <UnitInput
             value={properties.length}
-            onChange={(e) => updateProperty('length', parseFloat(e.target.value) || 0)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-            min="0.1"
-            step="0.1"
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Width (m)
-          </label>
-          <input
-            type="number"
-            value={properties.width}
-            onChange={(e) => updateProperty('width', parseFloat(e.target.value) || 0)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-            min="0.001"
-            step="0.001"
-          />
-        </div>
-        <div>
-          <label className="block text-sm font-medium text-gray-700 mb-1">
-            Depth (m)
-          </label>
-          <input
-            type="number"
-            value={properties.depth}
-            onChange={(e) => updateProperty('depth', parseFloat(e.target.value) || 0)}
-            className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-            min="0.001"
-            step="0.001"
+            quantity="length"
+            unitSystem={unitSystem}
+            onChange={(value) => updateLength(value ?? 0)}
+            className={inputClassName}
+            min={0}
           />
         </div>
-      </div>
-
-      <div className="pt-4 border-t border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Material Properties</h3>
-        <div className="grid grid-cols-2 gap-4">
+        {!segmented && (
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Young's Modulus (Pa)
+              Cross-Section
             </label>
-            <input
-              type="number"
-              value={properties.youngsModulus}
-              onChange={(e) => updateProperty('youngsModulus', parseFloat(e.target.value) || 0)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-              min="0"
-              step="1e9"
-            />
-            <p className="text-xs text-gray-500 mt-1">
-              Example: 2.05e11 for steel
-            </p>
+            <select
+              value={properties.section.type}
+              onChange={(e) => updateSection(createDefaultSection(e.target.value as SectionType))}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 bg-white"
+            >
+              {sectionTypes.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
           </div>
-          <div>
+        )}
+        {!segmented && sectionFields[properties.section.type].map((field) => (
+          <div key={field.key}>
             <label className="block text-sm font-medium text-gray-700 mb-1">
-              Density (kg/m³)
+              {field.label} ({unitSymbol(field.quantity, unitSystem)})
             </label>
-            <input
-              type="number"
-              value={properties.density}
-              onChange={(e) => updateProperty('density', parseFloat(e.target.value) || 0)}
-              className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-              min="0"
-              step="100"
+            <UnitInput
+              value={getSectionValue(properties.section, field.key)}
+              quantity={field.quantity}
+              unitSystem={unitSystem}
+              onChange={(value) => updateSection(setSectionValue(properties.section, field.key, value ?? 0))}
+              className={inputClassName}
+              min={0}
             />
-            <p className="text-xs text-gray-500 mt-1">
-              Example: 7830 for steel
-            </p>
           </div>
+        ))}
+      </div>
+      {segmented && (
+        <p className="text-xs text-gray-500">
+          Cross-section and material are set per segment in the Beam Segments panel
+        </p>
+      )}
+      {!segmented && !isValidSection(properties.section) && (
+        <p className="text-xs text-red-600">
+          Section dimensions are inconsistent (walls, flanges or webs must fit inside the outline)
+        </p>
+      )}
+
+      {!segmented && (
+        <div className="pt-4 border-t border-gray-200">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Material Properties</h3>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Material
+              </label>
+              <MaterialPicker
+                values={properties}
+                customMaterials={customMaterials}
+                onSelect={(material) => onChange(applyMaterial(properties, material))}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500 bg-white"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Fills the fields below; editing any of them makes the material custom
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Young's Modulus ({unitSymbol('modulus', unitSystem)})
+              </label>
+              <UnitInput
+                value={properties.youngsModulus}
+                quantity="modulus"
+                unitSystem={unitSystem}
+                onChange={(value) => updateProperty('youngsModulus', value ?? 0)}
+                className={inputClassName}
+                min={0}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Example: {formatQuantity(2.05e11, 'modulus', unitSystem, 3)} for steel
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Density ({unitSymbol('density', unitSystem)})
+              </label>
+              <UnitInput
+                value={properties.density}
+                quantity="density"
+                unitSystem={unitSystem}
+                onChange={(value) => updateProperty('density', value ?? 0)}
+                className={inputClassName}
+                min={0}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Example: {formatQuantity(7830, 'density', unitSystem, 3)} for steel
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Poisson's Ratio (ν)
+              </label>
+              <input
+                type="number"
+                value={properties.poissonsRatio ?? ''}
+                onChange={(e) => {
+                  const value = e.target.value === '' ? undefined : parseFloat(e.target.value);
+                  updateProperty('poissonsRatio', value);
+                }}
+                className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
+                min="0"
+                max="0.5"
+                step="0.01"
+                placeholder="0.3"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Timoshenko only; 0.3 if left empty
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Shear Modulus G ({unitSymbol('modulus', unitSystem)}){' '}
+                <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <UnitInput
+                value={properties.shearModulus}
+                quantity="modulus"
+                unitSystem={unitSystem}
+                onChange={(value) => updateProperty('shearModulus', value)}
+                optional
+                className={inputClassName}
+                min={0}
+                placeholderValue={properties.youngsModulus / (2 * (1 + (properties.poissonsRatio ?? 0.3)))}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Defaults to E/(2(1+ν))
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Yield Strength σy ({unitSymbol('stress', unitSystem)}){' '}
+                <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <UnitInput
+                value={properties.yieldStrength}
+                quantity="stress"
+                unitSystem={unitSystem}
+                onChange={(value) => updateProperty('yieldStrength', value)}
+                optional
+                className={inputClassName}
+                min={0}
+                placeholderValue={2.5e8}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Enables the strength check; {formatQuantity(2.5e8, 'stress', unitSystem, 3)} for mild steel
+              </p>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Ultimate Strength σu ({unitSymbol('stress', unitSystem)}){' '}
+                <span className="text-gray-400 font-normal">(optional)</span>
+              </label>
+              <UnitInput
+                value={properties.ultimateStrength}
+                quantity="stress"
+                unitSystem={unitSystem}
+                onChange={(value) => updateProperty('ultimateStrength', value)}
+                optional
+                className={inputClassName}
+                min={0}
+                placeholderValue={4.0e8}
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Reported as a margin against fracture
+              </p>
+            </div>
+          </div>
+          {!isValidShearProperties(properties.poissonsRatio, properties.shearModulus) && (
+            <p className="text-xs text-red-600 mt-2">
+              Poisson's ratio must lie between -1 and 0.5, and the shear modulus must be positive
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="pt-4 border-t border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Elastic Foundation</h3>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">
+            Foundation Modulus (k, {unitSymbol('foundationModulus', unitSystem)}){' '}
+            <span className="text-gray-400 font-normal">(optional)</span>
+          </label>
+          <UnitInput
+            value={properties.foundationModulus}
+            quantity="foundationModulus"
+            unitSystem={unitSystem}
+            onChange={(value) => updateProperty('foundationModulus', value)}
+            optional
+            placeholder="No foundation"
+            className={inputClassName}
+            min={0}
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Continuous (Winkler) support resisting deflection with a pressure k·w along the whole beam, such as
+            the ballast under a rail (typically 10-50 MN/m²) or the soil around a buried pipe
+          </p>
         </div>
       </div>
 
       <div className="pt-4 border-t border-gray-200">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Damping Properties</h3>
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Strength Check</h3>
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-1">
-            Damping Ratio (ζ) <span className="text-gray-400 font-normal">(optional)</span>
+            Required Safety Factor
           </label>
           <input
             type="number"
-            value={properties.dampingRatio ?? ''}
+            value={properties.requiredSafetyFactor ?? ''}
             onChange={(e) => {
               const value = e.target.value === '' ? undefined : parseFloat(e.target.value);
-              updateProperty('dampingRatio', value);
+              updateProperty('requiredSafetyFactor', value);
             }}
             className="w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500"
-            min="0"
-            max="1"
-            step="0.001"
-            placeholder="0.01 - 0.05 typical"
+            min={MIN_SAFETY_FACTOR}
+            step="0.1"
+            placeholder="1.0"
           />
           <p className="text-xs text-gray-500 mt-1">
-            Typical values: 0.01-0.05 for structures (0.01 = 1% damping, 0.05 = 5% damping)
+            The beam passes if yield strength over the peak stress reaches this factor (typically 1.5-3)
           </p>
+          {properties.requiredSafetyFactor !== undefined && !isValidSafetyFactor(properties.requiredSafetyFactor) && (
+            <p className="text-xs text-red-600 mt-1">The required safety factor must be at least {MIN_SAFETY_FACTOR}</p>
+          )}
         </div>
       </div>
+
+      <div className="pt-4 border-t border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">Damping Properties</h3>
+        <DampingEditor damping={properties.damping} onChange={(damping) => onChange({ ...properties, damping })} />
+      </div>
     </div>
   );
 }
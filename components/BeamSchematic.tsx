@@ -0,0 +1,193 @@
+'use client';
+
+import { BeamType } from '@/lib/beamAnalysis';
+import { EndCondition, endConditions } from '@/lib/boundaryConditions';
+import { CrossSection, getSectionDepth } from '@/lib/crossSections';
+import { BeamSegment, sectionAt } from '@/lib/segments';
+import { UnitSystem, formatQuantity } from '@/lib/units';
+
+interface BeamSchematicProps {
+  beamType: BeamType;
+  segments: BeamSegment[];
+  unitSystem: UnitSystem;
+  foundation?: boolean; // Draw an elastic foundation under the beam
+}
+
+// Drawing area in SVG units
+const WIDTH = 600;
+const HEIGHT = 150;
+const MARGIN = 50; // Room for the supports on either side
+const AXIS_Y = 65;
+const MAX_HALF_DEPTH = 30; // The deepest section is drawn this far either side of the axis
+const FOUNDATION_Y = AXIS_Y + MAX_HALF_DEPTH + 16; // Ground line under an elastic foundation
+const FOUNDATION_SPRINGS = 16;
+
+const materialColors = ['#93c5fd', '#fcd34d', '#86efac', '#f9a8d4', '#c4b5fd', '#fdba74'];
+
+/**
+ * Support symbol at one end; side is -1 at x = 0 and +1 at x = L. The beam axis is at axisY; the
+ * rollers of a guided end follow a deflected beam by endOffset, along a wall lengthened by travel.
+ */
+export function Support({
+  condition,
+  x,
+  halfDepth,
+  side,
+  axisY = AXIS_Y,
+  endOffset = 0,
+  travel = 0,
+}: {
+  condition: EndCondition;
+  x: number;
+  halfDepth: number;
+  side: number;
+  axisY?: number;
+  endOffset?: number;
+  travel?: number;
+}) {
+  const hatch = (x0: number, y0: number, y1: number) =>
+    Array.from({ length: Math.floor((y1 - y0) / 8) + 1 }, (_, i) => (
+      <line key={i} x1={x0} y1={y0 + i * 8} x2={x0 + side * 8} y2={y0 + i * 8 - 8} stroke="#6b7280" strokeWidth={1} />
+    ));
+
+  switch (condition) {
+    case 'fixed': {
+      const top = axisY - halfDepth - 12;
+      const bottom = axisY + halfDepth + 12;
+      return (
+        <g>
+          <line x1={x} y1={top} x2={x} y2={bottom} stroke="#374151" strokeWidth={3} />
+          {hatch(x, top + 8, bottom)}
+        </g>
+      );
+    }
+    case 'pinned': {
+      const y = axisY + halfDepth;
+      return (
+        <g>
+          <polygon points={`${x},${y} ${x - 10},${y + 16} ${x + 10},${y + 16}`} fill="white" stroke="#374151" strokeWidth={2} />
+          <line x1={x - 16} y1={y + 16} x2={x + 16} y2={y + 16} stroke="#374151" strokeWidth={2} />
+        </g>
+      );
+    }
+    case 'guided': {
+      // Sliding clamp: the end is held square against a wall by rollers but may move up and down
+      const wall = x + side * 14;
+      const top = axisY - halfDepth - 12 - travel;
+      const bottom = axisY + halfDepth + 12 + travel;
+      return (
+        <g>
+          <circle cx={x + side * 7} cy={axisY + endOffset - halfDepth / 2} r={5} fill="white" stroke="#374151" strokeWidth={1.5} />
+          <circle cx={x + side * 7} cy={axisY + endOffset + halfDepth / 2} r={5} fill="white" stroke="#374151" strokeWidth={1.5} />
+          <line x1={wall} y1={top} x2={wall} y2={bottom} stroke="#374151" strokeWidth={3} />
+          {hatch(wall, top + 8, bottom)}
+        </g>
+      );
+    }
+    case 'free':
+      return null;
+  }
+}
+
+export default function BeamSchematic({ beamType, segments, unitSystem, foundation = false }: BeamSchematicProps) {
+  if (segments.length === 0) return null;
+
+  const length = segments[segments.length - 1].end;
+  const maxDepth = Math.max(
+    ...segments.flatMap((segment) => [getSectionDepth(segment.section), getSectionDepth(sectionAt(segment, segment.end))])
+  );
+  const toX = (position: number) => MARGIN + (position / length) * (WIDTH - 2 * MARGIN);
+  const toHalfDepth = (section: CrossSection) =>
+    Math.max(1.5, (getSectionDepth(section) / maxDepth) * MAX_HALF_DEPTH);
+
+  // Segments sharing a material share a colour
+  const materials: string[] = [];
+  const materialIndex = (segment: BeamSegment) => {
+    const key = `${segment.youngsModulus}-${segment.density}`;
+    if (!materials.includes(key)) materials.push(key);
+    return materials.indexOf(key);
+  };
+
+  const [startEnd, endEnd] = endConditions[beamType];
+  const startHalfDepth = toHalfDepth(segments[0].section);
+  const lastSegment = segments[segments.length - 1];
+  const endHalfDepth = toHalfDepth(sectionAt(lastSegment, lastSegment.end));
+
+  return (
+    <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Beam schematic">
+      <line x1={MARGIN - 10} y1={AXIS_Y} x2={WIDTH - MARGIN + 10} y2={AXIS_Y} stroke="#9ca3af" strokeDasharray="4 3" />
+
+      {segments.map((segment, index) => {
+        const x0 = toX(segment.start);
+        const x1 = toX(segment.end);
+        const h0 = toHalfDepth(segment.section);
+        const h1 = toHalfDepth(sectionAt(segment, segment.end));
+        const color = materialColors[materialIndex(segment) % materialColors.length];
+        return (
+          <g key={index}>
+            <polygon
+              points={`${x0},${AXIS_Y - h0} ${x1},${AXIS_Y - h1} ${x1},${AXIS_Y + h1} ${x0},${AXIS_Y + h0}`}
+              fill={color}
+              stroke="#1f2937"
+              strokeWidth={1}
+            />
+            {segments.length > 1 && (
+              <text x={(x0 + x1) / 2} y={AXIS_Y + 4} textAnchor="middle" fontSize={11} fill="#1f2937">
+                {index + 1}
+              </text>
+            )}
+          </g>
+        );
+      })}
+
+      {/* Elastic foundation: a bed of springs from the underside of the beam to the ground */}
+      {foundation && (
+        <g>
+          {Array.from({ length: FOUNDATION_SPRINGS }, (_, i) => {
+            const position = ((i + 0.5) / FOUNDATION_SPRINGS) * length;
+            const segment = segments.find((s) => position <= s.end) ?? lastSegment;
+            const x = toX(position);
+            const top = AXIS_Y + toHalfDepth(sectionAt(segment, position));
+            const step = (FOUNDATION_Y - top) / 6;
+            const zigzag = [1, 2, 3, 4, 5].map((k) => `${x + (k % 2 === 1 ? 4 : -4)},${top + k * step}`);
+            return (
+              <polyline
+                key={i}
+                points={[`${x},${top}`, ...zigzag, `${x},${FOUNDATION_Y}`].join(' ')}
+                fill="none"
+                stroke="#6b7280"
+                strokeWidth={1}
+              />
+            );
+          })}
+          <line x1={toX(0)} y1={FOUNDATION_Y} x2={toX(length)} y2={FOUNDATION_Y} stroke="#374151" strokeWidth={2} />
+          {Array.from({ length: Math.floor((toX(length) - toX(0)) / 10) }, (_, i) => (
+            <line
+              key={i}
+              x1={toX(0) + (i + 1) * 10}
+              y1={FOUNDATION_Y}
+              x2={toX(0) + (i + 1) * 10 - 6}
+              y2={FOUNDATION_Y + 6}
+              stroke="#6b7280"
+              strokeWidth={1}
+            />
+          ))}
+        </g>
+      )}
+
+      <Support condition={startEnd} x={toX(0)} halfDepth={startHalfDepth} side={-1} />
+      <Support condition={endEnd} x={toX(length)} halfDepth={endHalfDepth} side={1} />
+
+      {/* Segment boundaries */}
+      {[0, ...segments.map((segment) => segment.end)].map((position, index) => (
+        <g key={index}>
+          <line x1={toX(position)} y1={HEIGHT - 32} x2={toX(position)} y2={HEIGHT - 24} stroke="#6b7280" />
+          <text x={toX(position)} y={HEIGHT - 10} textAnchor="middle" fontSize={10} fill="#4b5563">
+            {formatQuantity(position, 'length', unitSystem)}
+          </text>
+        </g>
+      ))}
+      <line x1={toX(0)} y1={HEIGHT - 28} x2={toX(length)} y2={HEIGHT - 28} stroke="#6b7280" />
+    </svg>
+  );
+}
@@ -7,7 +7,7 @@ interface BeamTypeSelectorProps {
   onChange: (type: BeamType) => void;
 }
 
-const beamTypes: { value: BeamType; label: string; description: string }[] = [
+export const beamTypes: { value: BeamType; label: string; description: string }[] = [
   {
     value: 'cantilever',
     label: 'Cantilever',
@@ -28,6 +28,26 @@ const beamTypes: { value: BeamType; label: string; description: string }[] = [
     label: 'Fixed-Pinned',
     description: 'Fixed at one end, pinned at the other',
   },
+  {
+    value: 'free-free',
+    label: 'Free-Free',
+    description: 'Unsupported, e.g. a test specimen hung on bungees',
+  },
+  {
+    value: 'pinned-free',
+    label: 'Pinned-Free',
+    description: 'Pinned at one end, free at the other',
+  },
+  {
+    value: 'fixed-guided',
+    label: 'Fixed-Guided',
+    description: 'Fixed at one end, sliding clamp (zero slope) at the other',
+  },
+  {
+    value: 'pinned-guided',
+    label: 'Pinned-Guided',
+    description: 'Pinned at one end, sliding clamp (zero slope) at the other',
+  },
 ];
 
 export default function BeamTypeSelector({ value, onChange }: BeamTypeSelectorProps) {
@@ -0,0 +1,112 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { BucklingMode } from '@/lib/beamAnalysis';
+import { UnitSystem, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+
+interface BucklingChartProps {
+  buckling: BucklingMode[];
+  unitSystem: UnitSystem;
+}
+
+const colors = ['#dc2626', '#2563eb', '#059669', '#d97706', '#7c3aed'];
+
+/**
+ * Legend name of a buckling mode, with its critical load
+ */
+function modeLabel(mode: BucklingMode, unitSystem: UnitSystem): string {
+  return `Mode ${mode.mode} (${formatQuantity(mode.criticalLoad, 'force', unitSystem, 3)})`;
+}
+
+export default function BucklingChart({ buckling, unitSystem }: BucklingChartProps) {
+  const lengthUnit = unitSymbol('length', unitSystem);
+  const shown = useMemo(() => buckling.slice(0, colors.length), [buckling]);
+
+  const chartData = useMemo(() => {
+    if (shown.length === 0) return [];
+    return shown[0].x.map((x, index) => {
+      const point: Record<string, number> = { x: Number(toDisplay(x, 'length', unitSystem).toFixed(4)) };
+      shown.forEach((mode) => {
+        point[modeLabel(mode, unitSystem)] = mode.w[index];
+      });
+      return point;
+    });
+  }, [shown, unitSystem]);
+
+  if (shown.length === 0) {
+    return (
+      <div className="w-full h-[400px] p-4 flex items-center justify-center">
+        <p className="text-gray-500">This beam does not buckle under axial compression</p>
+      </div>
+    );
+  }
+
+  const first = shown[0];
+  return (
+    <div className="w-full h-[400px] p-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Buckling Mode Shapes</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Critical load P_cr = {formatQuantity(first.criticalLoad, 'force', unitSystem, 4)} (compression), effective
+          length factor K = {first.effectiveLengthFactor.toFixed(3)}
+        </p>
+      </div>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 60 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            label={{ value: `Length (${lengthUnit})`, position: 'insideBottom', offset: -5 }}
+            stroke="#6b7280"
+            tickFormatter={(value) => value.toFixed(2)}
+            allowDecimals={true}
+          />
+          <YAxis
+            type="number"
+            domain={[-1.1, 1.1]}
+            label={{ value: 'Buckled Shape', angle: -90, position: 'insideLeft' }}
+            stroke="#6b7280"
+            tickFormatter={(value) => value.toFixed(1)}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+            formatter={(value: number) => value.toFixed(4)}
+            labelFormatter={(value) => `Length: ${Number(value).toFixed(3)} ${lengthUnit}`}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          {shown.map((mode, index) => (
+            <Line
+              key={mode.mode}
+              type="monotone"
+              dataKey={modeLabel(mode, unitSystem)}
+              stroke={colors[index]}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="mt-2 text-xs text-gray-500">
+        <p>
+          💡 <strong>Buckling:</strong> Under a compressive axial load of P_cr the beam can hold the buckled shape with
+          no transverse load; P_cr = π²EI/(KL)² defines the effective length factor K.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import {
+  DampingModel,
+  DampingModelType,
+  createDefaultDampingModel,
+  dampingModelTypes,
+  isValidDampingModel,
+} from '@/lib/damping';
+
+interface DampingEditorProps {
+  damping: DampingModel | undefined;
+  onChange: (damping: DampingModel | undefined) => void;
+}
+
+const inputClassName =
+  'w-full px-3 py-2 border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+/**
+ * Number input for a damping coefficient; clearing it gives 0
+ */
+function CoefficientInput({
+  value,
+  onChange,
+  step,
+  placeholder,
+}: {
+  value: number;
+  onChange: (value: number) => void;
+  step: string;
+  placeholder?: string;
+}) {
+  return (
+    <input
+      type="number"
+      value={value}
+      onChange={(e) => onChange(e.target.value === '' ? 0 : parseFloat(e.target.value))}
+      className={inputClassName}
+      min="0"
+      step={step}
+      placeholder={placeholder}
+    />
+  );
+}
+
+/**
+ * True if the coefficients entered stop some mode from oscillating; for Rayleigh damping this depends on
+ * the natural frequencies and shows in the results instead
+ */
+function heavilyDamped(damping: DampingModel): boolean {
+  if (damping.type === 'modal') return damping.dampingRatio >= 1;
+  if (damping.type === 'per-mode') return damping.dampingRatios.some((ratio) => ratio >= 1);
+  return damping.type === 'hysteretic' && damping.lossFactor >= 2;
+}
+
+export default function DampingEditor({ damping, onChange }: DampingEditorProps) {
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Damping Model <span className="text-gray-400 font-normal">(optional)</span>
+        </label>
+        <select
+          value={damping?.type ?? ''}
+          onChange={(e) =>
+            onChange(e.target.value === '' ? undefined : createDefaultDampingModel(e.target.value as DampingModelType))
+          }
+          className={`${inputClassName} bg-white`}
+        >
+          <option value="">Undamped</option>
+          {dampingModelTypes.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        {damping && (
+          <p className="text-xs text-gray-500 mt-1">
+            {dampingModelTypes.find((type) => type.value === damping.type)?.description}
+          </p>
+        )}
+      </div>
+
+      {damping?.type === 'modal' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Damping Ratio (ζ)</label>
+          <CoefficientInput
+            value={damping.dampingRatio}
+            onChange={(dampingRatio) => onChange({ ...damping, dampingRatio })}
+            step="0.001"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            Typical values: 0.01-0.05 for structures (0.01 = 1% damping, 0.05 = 5% damping)
+          </p>
+        </div>
+      )}
+
+      {damping?.type === 'per-mode' && (
+        <div className="space-y-2">
+          <div className="grid grid-cols-3 gap-2">
+            {damping.dampingRatios.map((ratio, index) => (
+              <div key={index}>
+                <label className="block text-xs text-gray-600 mb-1">Mode {index + 1} ζ</label>
+                <CoefficientInput
+                  value={ratio}
+                  onChange={(value) =>
+                    onChange({ ...damping, dampingRatios: damping.dampingRatios.map((r, i) => (i === index ? value : r)) })
+                  }
+                  step="0.001"
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <button
+              type="button"
+              onClick={() =>
+                onChange({
+                  ...damping,
+                  dampingRatios: [...damping.dampingRatios, damping.dampingRatios[damping.dampingRatios.length - 1]],
+                })
+              }
+              className="flex-1 px-3 py-1 text-sm rounded-md border border-dashed border-primary-300 text-primary-700 hover:bg-primary-50"
+            >
+              + Mode
+            </button>
+            <button
+              type="button"
+              onClick={() => onChange({ ...damping, dampingRatios: damping.dampingRatios.slice(0, -1) })}
+              disabled={damping.dampingRatios.length <= 1}
+              className="flex-1 px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              − Mode
+            </button>
+          </div>
+          <p className="text-xs text-gray-500">
+            Modes are numbered as in the results; modes beyond the table take the last entry, and rigid-body
+            modes are undamped
+          </p>
+        </div>
+      )}
+
+      {damping?.type === 'rayleigh' && (
+        <div>
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">α (1/s)</label>
+              <CoefficientInput
+                value={damping.alpha}
+                onChange={(alpha) => onChange({ ...damping, alpha })}
+                step="0.01"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">β (s)</label>
+              <CoefficientInput
+                value={damping.beta}
+                onChange={(beta) => onChange({ ...damping, beta })}
+                step="0.00001"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            α damps the low modes and β the high ones. For a ratio ζ at both ω₁ and ω₂ (rad/s), use
+            α = 2ζω₁ω₂/(ω₁+ω₂) and β = 2ζ/(ω₁+ω₂)
+          </p>
+        </div>
+      )}
+
+      {damping?.type === 'hysteretic' && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-1">Loss Factor (η)</label>
+          <CoefficientInput
+            value={damping.lossFactor}
+            onChange={(lossFactor) => onChange({ ...damping, lossFactor })}
+            step="0.001"
+          />
+          <p className="text-xs text-gray-500 mt-1">
+            About 0.001 for steel, 0.02-0.05 for concrete and 0.1-1 for polymers; time responses use the
+            equivalent ζ = η/2
+          </p>
+        </div>
+      )}
+
+      {damping && heavilyDamped(damping) && (
+        <p className="text-xs text-orange-600">
+          ζ ≥ 1: the affected modes are critically damped (ζ = 1) or overdamped and return to rest without
+          oscillating
+        </p>
+      )}
+
+      {damping && !isValidDampingModel(damping) && (
+        <p className="text-xs text-red-600">Damping coefficients cannot be negative</p>
+      )}
+    </div>
+  );
+}
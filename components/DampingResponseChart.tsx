@@ -2,75 +2,139 @@
 
 import { useMemo, useState, useRef, useEffect } from 'react';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush } from 'recharts';
-import { DampedResponse } from '@/lib/beamAnalysis';
+import { ModeShape } from '@/lib/beamAnalysis';
+import { DampingModel, dampingRegimeLabels, describeDampingModel, modalDampingRatios } from '@/lib/damping';
+import {
+  InitialStateType,
+  calculateFreeVibration,
+  defaultFreeVibrationDuration,
+  impactVelocities,
+  initialStateTypes,
+  superposeModes,
+} from '@/lib/freeVibration';
+import { ExportHeader, freeVibrationColumns } from '@/lib/export';
+import { UnitSystem, formatNumber, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import ExportButtons from '@/components/ExportButtons';
+import UnitInput from '@/components/UnitInput';
 
 interface DampingResponseChartProps {
-  dampedResponse: DampedResponse;
+  modeShapes: ModeShape[];
+  naturalFrequencies: number[]; // Hz, one per mode shape
+  damping: DampingModel | undefined;
+  staticModalCoordinates: number[] | null; // Static deflection resolved into the modes (null if none)
+  length: number;
+  unitSystem: UnitSystem;
+  exportHeader: ExportHeader;
 }
 
-export default function DampingResponseChart({ dampedResponse }: DampingResponseChartProps) {
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const colors = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6'];
+
+// Modes beyond the base palette get evenly spread hues (golden-angle steps), as in the mode-shape chart
+function getModeColor(index: number): string {
+  if (index < colors.length) return colors[index];
+  return `hsl(${Math.round((index * 137.508) % 360)}, 65%, 45%)`;
+}
+
+// Away from the nodes of the lowest modes of every beam type
+const DEFAULT_POINT = 0.7;
+
+export default function DampingResponseChart({
+  modeShapes,
+  naturalFrequencies,
+  damping,
+  staticModalCoordinates,
+  length,
+  unitSystem,
+  exportHeader,
+}: DampingResponseChartProps) {
+  const deflectionUnit = unitSymbol('deflection', unitSystem);
+  const [initialState, setInitialState] = useState<InitialStateType>(
+    staticModalCoordinates ? 'static-deflection' : 'impact'
+  );
+  const [impactPoint, setImpactPoint] = useState(DEFAULT_POINT * length);
+  const [impulse, setImpulse] = useState(10);
+  const [responsePoint, setResponsePoint] = useState(DEFAULT_POINT * length);
+  const [includedModes, setIncludedModes] = useState<Set<number>>(() => new Set(modeShapes.map((m) => m.mode)));
+  const [showContributions, setShowContributions] = useState(false);
   const [xDomain, setXDomain] = useState<[number, number] | undefined>(undefined);
   const [yDomain, setYDomain] = useState<[number, number] | undefined>(undefined);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState<{ x: number; domain: [number, number] } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
-  // Combine all data into one dataset
+  const dampingRatios = useMemo(() => modalDampingRatios(damping, naturalFrequencies), [damping, naturalFrequencies]);
+  const released = initialState === 'static-deflection' && staticModalCoordinates !== null;
+
+  const response = useMemo(() => {
+    const clamp = (position: number) => Math.min(Math.max(position, 0), length);
+    return calculateFreeVibration(
+      modeShapes,
+      naturalFrequencies,
+      dampingRatios,
+      released ? staticModalCoordinates : [],
+      released ? [] : impactVelocities(modeShapes, clamp(impactPoint), impulse),
+      clamp(responsePoint),
+      defaultFreeVibrationDuration(naturalFrequencies, dampingRatios)
+    );
+  }, [
+    modeShapes,
+    naturalFrequencies,
+    dampingRatios,
+    released,
+    staticModalCoordinates,
+    impactPoint,
+    impulse,
+    responsePoint,
+    length,
+  ]);
+
+  const time = useMemo(() => response?.time ?? [], [response]);
+  const shownModes = useMemo(
+    () => (response ? response.modes.filter((mode) => includedModes.has(mode.mode)) : []),
+    [response, includedModes]
+  );
+
+  // Plotted in display units so that the axis and tooltip follow the unit system
   const chartData = useMemo(() => {
-    const mainData = dampedResponse.time.map((t, index) => {
-      const time = Number(t.toFixed(4));
-      const displacement = dampedResponse.displacement[index];
-      
-      // Find corresponding envelope values (interpolate if needed)
-      let upper: number | null = null;
-      let lower: number | null = null;
-      
-      const envelopeIndex = dampedResponse.envelope.time.findIndex(et => Math.abs(et - t) < 0.001);
-      if (envelopeIndex >= 0) {
-        upper = dampedResponse.envelope.upper[envelopeIndex];
-        lower = dampedResponse.envelope.lower[envelopeIndex];
-      } else {
-        // Interpolate envelope values
-        for (let i = 0; i < dampedResponse.envelope.time.length - 1; i++) {
-          const t1 = dampedResponse.envelope.time[i];
-          const t2 = dampedResponse.envelope.time[i + 1];
-          if (t >= t1 && t <= t2) {
-            const ratio = (t - t1) / (t2 - t1);
-            upper = dampedResponse.envelope.upper[i] + ratio * (dampedResponse.envelope.upper[i + 1] - dampedResponse.envelope.upper[i]);
-            lower = dampedResponse.envelope.lower[i] + ratio * (dampedResponse.envelope.lower[i + 1] - dampedResponse.envelope.lower[i]);
-            break;
-          }
-        }
-      }
-      
-      return {
-        time,
-        displacement,
-        upper: upper ?? undefined,
-        lower: lower ?? undefined,
+    if (!response) return [];
+    const sum = superposeModes(response, Array.from(includedModes));
+    return time.map((t, i) => {
+      const point: Record<string, number> = {
+        time: Number(t.toPrecision(6)),
+        displacement: toDisplay(sum.displacement[i], 'deflection', unitSystem),
+        upper: toDisplay(sum.upper[i], 'deflection', unitSystem),
+        lower: toDisplay(sum.lower[i], 'deflection', unitSystem),
       };
+      if (showContributions) {
+        shownModes.forEach((mode) => {
+          point[`mode${mode.mode}`] = toDisplay(mode.displacement[i], 'deflection', unitSystem);
+        });
+      }
+      return point;
     });
-    
-    return mainData;
-  }, [dampedResponse]);
+  }, [response, time, includedModes, shownModes, showContributions, unitSystem]);
 
   // Calculate proper domain for Y-axis
   const initialYDomain = useMemo(() => {
-    const allY = [...dampedResponse.displacement, ...dampedResponse.envelope.upper, ...dampedResponse.envelope.lower];
+    const allY = chartData.flatMap((point) => [point.upper, point.lower, point.displacement]);
+    if (allY.length === 0) return [-1, 1] as [number, number];
     const minY = Math.min(...allY);
     const maxY = Math.max(...allY);
     const padding = (maxY - minY) * 0.1 || 0.1;
     return [minY - padding, maxY + padding] as [number, number];
-  }, [dampedResponse.displacement, dampedResponse.envelope]);
+  }, [chartData]);
 
   // Calculate proper domain for X-axis
   const initialXDomain = useMemo(() => {
-    const allX = dampedResponse.time;
-    const minX = Math.min(...allX);
-    const maxX = Math.max(...allX);
+    if (time.length === 0) return [0, 1] as [number, number];
+    const minX = time[0];
+    const maxX = time[time.length - 1];
     const padding = (maxX - minX) * 0.02 || 0.01;
     return [Math.max(0, minX - padding), maxX + padding] as [number, number];
-  }, [dampedResponse.time]);
+  }, [time]);
 
   // Initialize domains
   useEffect(() => {
@@ -92,7 +156,7 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
       const rect = container.getBoundingClientRect();
       const mouseX = e.clientX - rect.left;
       const mouseY = e.clientY - rect.top;
-      
+
       // Determine if zooming X or Y axis (based on which axis is closer)
       const chartWidth = rect.width - 60; // Account for margins
       const chartHeight = rect.height - 60;
@@ -100,7 +164,7 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
       const yRatio = mouseY / chartHeight;
 
       const zoomFactor = e.deltaY > 0 ? 1.1 : 0.9;
-      
+
       if (e.shiftKey || Math.abs(xRatio - 0.5) < Math.abs(yRatio - 0.5)) {
         // Zoom X axis
         const [minX, maxX] = xDomain;
@@ -108,7 +172,7 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
         const centerX = minX + rangeX * xRatio;
         const newRangeX = rangeX * zoomFactor;
         const newMinX = Math.max(0, centerX - newRangeX * xRatio);
-        const newMaxX = Math.min(Math.max(...dampedResponse.time), newMinX + newRangeX);
+        const newMaxX = Math.min(time[time.length - 1], newMinX + newRangeX);
         if (newMaxX > newMinX) {
           setXDomain([newMinX, newMaxX]);
         }
@@ -126,7 +190,7 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
 
     container.addEventListener('wheel', handleWheel, { passive: false });
     return () => container.removeEventListener('wheel', handleWheel);
-  }, [xDomain, yDomain, chartData, dampedResponse.time]);
+  }, [xDomain, yDomain, chartData, time]);
 
   // Mouse drag pan
   useEffect(() => {
@@ -145,16 +209,16 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
         const rect = container.getBoundingClientRect();
         const chartWidth = rect.width - 60;
         const deltaX = (e.clientX - panStart.x) / chartWidth;
-        
+
         const [minX, maxX] = panStart.domain;
         const rangeX = maxX - minX;
-        const dataMinX = Math.min(...dampedResponse.time);
-        const dataMaxX = Math.max(...dampedResponse.time);
-        
+        const dataMinX = time[0];
+        const dataMaxX = time[time.length - 1];
+
         const shift = -deltaX * rangeX;
         const newMinX = Math.max(dataMinX, minX + shift);
         const newMaxX = Math.min(dataMaxX, maxX + shift);
-        
+
         if (newMaxX - newMinX === rangeX && newMinX >= dataMinX && newMaxX <= dataMaxX) {
           setXDomain([newMinX, newMaxX]);
         }
@@ -175,7 +239,7 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
       window.removeEventListener('mousemove', handleMouseMove);
       window.removeEventListener('mouseup', handleMouseUp);
     };
-  }, [isPanning, panStart, xDomain, chartData, dampedResponse.time]);
+  }, [isPanning, panStart, xDomain, chartData, time]);
 
   const handleResetZoom = () => {
     if (chartData.length > 0) {
@@ -184,85 +248,233 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
     }
   };
 
-  // Calculate logarithmic decrement (for display)
-  const logDecrement = useMemo(() => {
-    if (dampedResponse.dampingRatio <= 0) return 0;
-    // Logarithmic decrement: δ = 2πζ / sqrt(1 - ζ²)
-    return (2 * Math.PI * dampedResponse.dampingRatio) / Math.sqrt(1 - dampedResponse.dampingRatio * dampedResponse.dampingRatio);
-  }, [dampedResponse.dampingRatio]);
+  const toggleMode = (mode: number) => {
+    const next = new Set(includedModes);
+    if (next.has(mode)) {
+      next.delete(mode);
+    } else {
+      next.add(mode);
+    }
+    setIncludedModes(next);
+  };
+
+  // Logarithmic decrement of the fundamental mode: δ = 2πζ / sqrt(1 - ζ²), while it still oscillates
+  const fundamental = response?.modes.find((mode) => mode.frequency > 0);
+  const zeta = fundamental?.dampingRatio ?? 0;
+  const oscillates = zeta < 1;
+  const logDecrement = (2 * Math.PI * zeta) / Math.sqrt(1 - zeta * zeta);
+
+  // The settings in words, for the printed chart whose controls are hidden
+  const clamp = (position: number) => Math.min(Math.max(position, 0), length);
+  const included = Array.from(includedModes).sort((a, b) => a - b);
+  const printedSettings = [
+    released
+      ? 'Released from the static deflection'
+      : `Impulse of ${formatQuantity(impulse, 'impulse', unitSystem)} at x = ${formatQuantity(
+          clamp(impactPoint),
+          'length',
+          unitSystem
+        )}`,
+    `response at x = ${formatQuantity(clamp(responsePoint), 'length', unitSystem)} superposed over ${
+      included.length === modeShapes.length
+        ? `all ${modeShapes.length} modes`
+        : `mode${included.length === 1 ? '' : 's'} ${included.join(', ')}`
+    }${showContributions ? ', with the contribution of each mode shown' : ''}.`,
+  ].join('; ');
 
   return (
-    <div className="w-full h-[400px] p-4">
+    <div className="w-full p-4">
       <div className="mb-4 flex justify-between items-start">
         <div>
-          <h3 className="text-lg font-semibold text-gray-800">Damped Vibration Response</h3>
+          <h3 className="text-lg font-semibold text-gray-800">Free Vibration Response</h3>
           <div className="grid grid-cols-2 gap-4 mt-2 text-sm">
           <div>
-            <span className="text-gray-600">Damping Ratio (ζ): </span>
-            <span className="font-semibold">{(dampedResponse.dampingRatio * 100).toFixed(2)}%</span>
-          </div>
-          <div>
-            <span className="text-gray-600">Natural Frequency: </span>
-            <span className="font-semibold">{dampedResponse.naturalFrequency.toFixed(2)} Hz</span>
-          </div>
-          <div>
-            <span className="text-gray-600">Damped Frequency: </span>
-            <span className="font-semibold">{dampedResponse.dampedFrequency.toFixed(2)} Hz</span>
-          </div>
-          <div>
-            <span className="text-gray-600">Logarithmic Decrement (δ): </span>
-            <span className="font-semibold">{logDecrement.toFixed(4)}</span>
+            <span className="text-gray-600">Damping: </span>
+            <span className="font-semibold">{describeDampingModel(damping)}</span>
           </div>
+          {fundamental && (
+            <>
+              <div>
+                <span className="text-gray-600">Fundamental Mode: </span>
+                <span className={`font-semibold ${oscillates ? '' : 'text-orange-600'}`}>
+                  {dampingRegimeLabels[fundamental.regime]} (ζ = {(zeta * 100).toFixed(2)}%)
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Fundamental Frequency: </span>
+                <span className="font-semibold">{fundamental.frequency.toFixed(2)} Hz</span>
+              </div>
+              {oscillates ? (
+                <div>
+                  <span className="text-gray-600">Damped Frequency: </span>
+                  <span className="font-semibold">
+                    {fundamental.dampedFrequency.toFixed(2)} Hz (δ = {logDecrement.toFixed(4)})
+                  </span>
+                </div>
+              ) : (
+                <div>
+                  <span className="text-gray-600">Decay Time Constants: </span>
+                  <span className="font-semibold">
+                    {fundamental.timeConstants.map((tau) => `${formatNumber(tau, 4)} s`).join(', ')}
+                  </span>
+                </div>
+              )}
+            </>
+          )}
           </div>
         </div>
-        <button
-          onClick={handleResetZoom}
-          className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
-        >
-          Reset Zoom
-        </button>
+        <div className="flex flex-col items-end gap-2">
+          <button
+            onClick={handleResetZoom}
+            className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors"
+          >
+            Reset Zoom
+          </button>
+          {response && (
+            <ExportButtons
+              header={exportHeader}
+              fileName={`${exportHeader.beamType}-free-vibration`}
+              csv={() => freeVibrationColumns(response, Array.from(includedModes))}
+              chart={containerRef}
+            />
+          )}
+        </div>
+      </div>
+
+      {/* The controls do not print, so the printed chart states their settings instead */}
+      <p className="hidden print:block text-sm text-gray-700 mb-3">
+        {printedSettings}
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 print:hidden">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Initial State</label>
+          <select
+            value={initialState}
+            onChange={(e) => setInitialState(e.target.value as InitialStateType)}
+            className={`${inputClassName} bg-white`}
+          >
+            {initialStateTypes.map((option) => (
+              <option
+                key={option.value}
+                value={option.value}
+                disabled={option.value === 'static-deflection' && !staticModalCoordinates}
+              >
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {!released && (
+          <>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Impact Point ({unitSymbol('length', unitSystem)})
+              </label>
+              <UnitInput
+                value={impactPoint}
+                quantity="length"
+                unitSystem={unitSystem}
+                onChange={(value) => setImpactPoint(value ?? 0)}
+                className={inputClassName}
+                min={0}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Impulse ({unitSymbol('impulse', unitSystem)})</label>
+              <UnitInput
+                value={impulse}
+                quantity="impulse"
+                unitSystem={unitSystem}
+                onChange={(value) => setImpulse(value ?? 0)}
+                className={inputClassName}
+              />
+            </div>
+          </>
+        )}
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">
+            Response Point ({unitSymbol('length', unitSystem)})
+          </label>
+          <UnitInput
+            value={responsePoint}
+            quantity="length"
+            unitSystem={unitSystem}
+            onChange={(value) => setResponsePoint(value ?? 0)}
+            className={inputClassName}
+            min={0}
+          />
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2 print:hidden">
+        {modeShapes.map((modeShape, index) => {
+          const included = includedModes.has(modeShape.mode);
+          return (
+            <button
+              key={modeShape.mode}
+              onClick={() => toggleMode(modeShape.mode)}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                included ? 'text-white' : 'bg-white text-gray-500 border-gray-300'
+              }`}
+              style={included ? { backgroundColor: getModeColor(index), borderColor: getModeColor(index) } : undefined}
+            >
+              Mode {modeShape.mode}
+            </button>
+          );
+        })}
+        <label className="ml-3 flex items-center gap-1 text-xs text-gray-600">
+          <input
+            type="checkbox"
+            checked={showContributions}
+            onChange={(e) => setShowContributions(e.target.checked)}
+          />
+          Show each mode
+        </label>
       </div>
-      <div ref={containerRef} className="w-full h-full" style={{ cursor: isPanning ? 'grabbing' : 'grab' }}>
+
+      {!response && (
+        <div className="h-[400px] flex items-center justify-center">
+          <p className="text-gray-500">Free vibration needs a non-negative damping ratio in every mode</p>
+        </div>
+      )}
+
+      {response && (
+      <div ref={containerRef} className="w-full h-[400px]" style={{ cursor: isPanning ? 'grabbing' : 'grab' }}>
         <ResponsiveContainer width="100%" height="100%">
-          <LineChart 
-            data={chartData} 
-            margin={{ top: 5, right: 30, left: 20, bottom: 60 }}
+          <LineChart
+            data={chartData}
+            margin={{ top: 5, right: 30, left: 20, bottom: 5 }}
           >
             <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
-            <XAxis 
-              dataKey="time" 
+            <XAxis
+              dataKey="time"
               type="number"
               domain={xDomain}
               allowDataOverflow={true}
               label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }}
               stroke="#6b7280"
-              tickFormatter={(value) => value.toFixed(1)}
+              tickFormatter={(value) => formatNumber(value, 3)}
               allowDecimals={true}
             />
-            <YAxis 
+            <YAxis
               type="number"
               domain={yDomain}
               allowDataOverflow={true}
-              label={{ value: 'Displacement (m)', angle: -90, position: 'insideLeft' }}
+              label={{ value: `Displacement (${deflectionUnit})`, angle: -90, position: 'insideLeft' }}
               stroke="#6b7280"
               allowDecimals={true}
-              tickFormatter={(value) => {
-                if (Math.abs(value) < 1e-3) return `${(value * 1e3).toFixed(2)} mm`;
-                return `${value.toFixed(3)} m`;
-              }}
+              tickFormatter={(value) => formatNumber(value, 3)}
             />
-          <Tooltip 
+          <Tooltip
             contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
-            formatter={(value: number) => {
-              if (Math.abs(value) < 1e-3) return `${(value * 1e3).toFixed(4)} mm`;
-              return `${value.toFixed(6)} m`;
-            }}
+            formatter={(value: number) => `${formatNumber(value, 6)} ${deflectionUnit}`}
             labelFormatter={(label) => `Time: ${Number(label).toFixed(3)} s`}
           />
           <Legend />
-          
+
           {/* Envelope curves */}
-          <Line 
+          <Line
             type="monotone"
             dataKey="upper"
             stroke="#f59e0b"
@@ -271,9 +483,8 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
             dot={false}
             name="Envelope (+)"
             isAnimationActive={false}
-            connectNulls={false}
           />
-          <Line 
+          <Line
             type="monotone"
             dataKey="lower"
             stroke="#f59e0b"
@@ -282,30 +493,44 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
             dot={false}
             name="Envelope (-)"
             isAnimationActive={false}
-            connectNulls={false}
           />
-          
-          {/* Damped response */}
-          <Line 
+
+          {/* Contribution of each included mode */}
+          {showContributions &&
+            shownModes.map((mode) => (
+              <Line
+                key={mode.mode}
+                type="monotone"
+                dataKey={`mode${mode.mode}`}
+                stroke={getModeColor(modeShapes.findIndex((shape) => shape.mode === mode.mode))}
+                strokeWidth={1}
+                dot={false}
+                name={`Mode ${mode.mode}`}
+                isAnimationActive={false}
+              />
+            ))}
+
+          {/* Superposed response */}
+          <Line
             type="monotone"
             dataKey="displacement"
-            stroke="#ef4444"
+            stroke="#111827"
             strokeWidth={2}
             dot={false}
-            name="Damped Response"
+            name="Total Response"
             isAnimationActive={false}
           />
-          
+
           {/* Brush for zooming */}
           <Brush
             dataKey="time"
             height={30}
             stroke="#8884d8"
-            tickFormatter={(value) => value.toFixed(2)}
+            tickFormatter={(value) => formatNumber(value, 3)}
             onChange={(brushData) => {
               if (brushData && brushData.startIndex !== undefined && brushData.endIndex !== undefined) {
-                const startX = chartData[brushData.startIndex]?.time as number;
-                const endX = chartData[brushData.endIndex]?.time as number;
+                const startX = chartData[brushData.startIndex]?.time;
+                const endX = chartData[brushData.endIndex]?.time;
                 if (startX !== undefined && endX !== undefined) {
                   setXDomain([startX, endX]);
                 }
@@ -315,13 +540,18 @@ export default function DampingResponseChart({ dampedResponse }: DampingResponse
         </LineChart>
       </ResponsiveContainer>
       </div>
+      )}
       <div className="mt-2 text-xs text-gray-500">
-        <p>💡 <strong>Zoom:</strong> Scroll wheel (Shift+Scroll for X-axis, normal scroll for Y-axis) | 
-        <strong> Pan:</strong> Click and drag | 
+        <p>💡 <strong>Zoom:</strong> Scroll wheel (Shift+Scroll for X-axis, normal scroll for Y-axis) |
+        <strong> Pan:</strong> Click and drag |
         <strong> Brush:</strong> Use the slider at the bottom for X-axis zoom</p>
-        <p className="mt-1"><strong>Damped Response:</strong> Shows how vibrations decay over time. The envelope curves (dashed) show the exponential decay: ±A·e^(-ζωₙt). Higher damping ratio = faster decay.</p>
+        <p className="mt-1">
+          <strong>Free Vibration:</strong> The initial shape or velocity field is resolved into every computed mode,
+          and each mode decays at its own rate e^(-ζωₙt); toggle modes to see what each contributes. A mode with
+          ζ ≥ 1 is critically damped or overdamped and creeps back to rest without oscillating, at the rate of its
+          slowest time constant. The envelope curves (dashed) bound the sum of the included modes.
+        </p>
       </div>
     </div>
   );
 }
-
@@ -0,0 +1,84 @@
+'use client';
+
+import { RefObject, useState } from 'react';
+import {
+  CsvColumn,
+  ExportHeader,
+  chartLegend,
+  chartSvg,
+  downloadFile,
+  svgToPng,
+  toCsv,
+  toJson,
+} from '@/lib/export';
+
+interface ExportButtonsProps {
+  header: ExportHeader;
+  fileName: string; // File name without extension
+  csv?: () => CsvColumn[]; // Data for a CSV export
+  json?: () => Record<string, unknown>; // Data for a JSON export
+  chart?: RefObject<HTMLElement>; // Element holding a Recharts chart, for SVG and PNG exports
+}
+
+const buttonClassName =
+  'px-2 py-0.5 text-xs rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50';
+
+export default function ExportButtons({ header, fileName, csv, json, chart }: ExportButtonsProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  // The plot itself is the first Recharts surface; legend icons are surfaces too but come after it
+  const exportChart = async (format: 'svg' | 'png') => {
+    const container = chart?.current;
+    const svg = container?.querySelector<SVGSVGElement>('svg.recharts-surface');
+    if (!container || !svg) {
+      setError('Nothing to export yet');
+      return;
+    }
+    try {
+      setError(null);
+      const svgText = chartSvg(svg, header, chartLegend(container));
+      if (format === 'svg') {
+        downloadFile(`${fileName}.svg`, svgText, 'image/svg+xml');
+      } else {
+        downloadFile(`${fileName}.png`, await svgToPng(svgText, header));
+      }
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Export failed');
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-1 print:hidden">
+      <span className="text-xs text-gray-500 mr-1">Export</span>
+      {csv && (
+        <button
+          type="button"
+          onClick={() => downloadFile(`${fileName}.csv`, toCsv(header, csv()), 'text/csv')}
+          className={buttonClassName}
+        >
+          CSV
+        </button>
+      )}
+      {json && (
+        <button
+          type="button"
+          onClick={() => downloadFile(`${fileName}.json`, toJson(header, json()), 'application/json')}
+          className={buttonClassName}
+        >
+          JSON
+        </button>
+      )}
+      {chart && (
+        <>
+          <button type="button" onClick={() => exportChart('svg')} className={buttonClassName}>
+            SVG
+          </button>
+          <button type="button" onClick={() => exportChart('png')} className={buttonClassName}>
+            PNG
+          </button>
+        </>
+      )}
+      {error && <span className="text-xs text-red-600 ml-1">{error}</span>}
+    </div>
+  );
+}
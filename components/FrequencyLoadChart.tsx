@@ -0,0 +1,116 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+} from 'recharts';
+import { FrequencyLoadPoint } from '@/lib/beamAnalysis';
+import { UnitSystem, formatNumber, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+
+interface FrequencyLoadChartProps {
+  curve: FrequencyLoadPoint[];
+  criticalLoad: number; // N, compressive
+  axialLoad: number; // Applied axial force in N, tension positive
+  unitSystem: UnitSystem;
+}
+
+const colors = ['#3b82f6', '#ef4444', '#10b981'];
+
+export default function FrequencyLoadChart({ curve, criticalLoad, axialLoad, unitSystem }: FrequencyLoadChartProps) {
+  const forceUnit = unitSymbol('force', unitSystem);
+  const modeCount = Math.max(0, ...curve.map((point) => point.frequencies.length));
+
+  const chartData = useMemo(
+    () =>
+      curve.map((point) => {
+        const data: Record<string, number> = { load: toDisplay(point.axialLoad, 'force', unitSystem) };
+        point.frequencies.forEach((frequency, index) => {
+          data[`Mode ${index + 1}`] = frequency;
+        });
+        return data;
+      }),
+    [curve, unitSystem]
+  );
+
+  const beyondBuckling = axialLoad <= -criticalLoad;
+
+  return (
+    <div className="w-full h-[400px] p-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Frequency vs Axial Load</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          {beyondBuckling
+            ? `The applied compression exceeds the buckling load of ${formatQuantity(criticalLoad, 'force', unitSystem)}`
+            : `Applied axial load ${formatQuantity(axialLoad, 'force', unitSystem)}, ${formatNumber(
+                (100 * Math.abs(axialLoad)) / criticalLoad,
+                3
+              )}% of the buckling load`}
+        </p>
+      </div>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 60 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="load"
+            type="number"
+            domain={['dataMin', 'dataMax']}
+            label={{ value: `Axial Load (${forceUnit}, tension positive)`, position: 'insideBottom', offset: -5 }}
+            stroke="#6b7280"
+            tickFormatter={(value) => formatNumber(value, 3)}
+          />
+          <YAxis
+            type="number"
+            domain={[0, 'auto']}
+            label={{ value: 'Frequency (Hz)', angle: -90, position: 'insideLeft' }}
+            stroke="#6b7280"
+            tickFormatter={(value) => formatNumber(value, 3)}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+            formatter={(value: number) => `${value.toFixed(2)} Hz`}
+            labelFormatter={(label) => `Axial load: ${formatNumber(Number(label), 4)} ${forceUnit}`}
+          />
+          <Legend />
+          <ReferenceLine
+            x={toDisplay(-criticalLoad, 'force', unitSystem)}
+            stroke="#dc2626"
+            strokeDasharray="4 3"
+            label={{ value: 'Buckling', position: 'top', fontSize: 10 }}
+          />
+          {!beyondBuckling && (
+            <ReferenceLine
+              x={toDisplay(axialLoad, 'force', unitSystem)}
+              stroke="#111827"
+              label={{ value: 'Applied', position: 'top', fontSize: 10 }}
+            />
+          )}
+          {Array.from({ length: modeCount }, (_, index) => (
+            <Line
+              key={index}
+              type="monotone"
+              dataKey={`Mode ${index + 1}`}
+              stroke={colors[index % colors.length]}
+              strokeWidth={2}
+              dot={false}
+              isAnimationActive={false}
+            />
+          ))}
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="mt-2 text-xs text-gray-500">
+        <p>
+          💡 <strong>Stress stiffening:</strong> Tension raises the natural frequencies and compression lowers them;
+          the fundamental frequency falls to zero at the buckling load.
+        </p>
+      </div>
+    </div>
+  );
+}
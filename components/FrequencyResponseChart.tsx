@@ -0,0 +1,328 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  ResponsiveContainer,
+  ReferenceDot,
+  ReferenceLine,
+} from 'recharts';
+import { ModeShape } from '@/lib/beamAnalysis';
+import { DampingModel, describeDampingModel, modalDampingRatios } from '@/lib/damping';
+import { FrfType, calculateFrequencyResponse, frfQuantities, frfTypes } from '@/lib/frequencyResponse';
+import { UnitSystem, formatNumber, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import UnitInput from '@/components/UnitInput';
+
+interface FrequencyResponseChartProps {
+  modeShapes: ModeShape[];
+  naturalFrequencies: number[]; // Hz, one per mode shape
+  damping: DampingModel | undefined;
+  length: number;
+  unitSystem: UnitSystem;
+}
+
+type FrfView = 'bode' | 'nyquist';
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+// Away from the nodes of the lowest modes of every beam type
+const DEFAULT_POINT = 0.7;
+
+export default function FrequencyResponseChart({
+  modeShapes,
+  naturalFrequencies,
+  damping,
+  length,
+  unitSystem,
+}: FrequencyResponseChartProps) {
+  const [drivePoint, setDrivePoint] = useState(DEFAULT_POINT * length);
+  const [responsePoint, setResponsePoint] = useState(DEFAULT_POINT * length);
+  const [type, setType] = useState<FrfType>('receptance');
+  const [view, setView] = useState<FrfView>('bode');
+
+  const quantity = frfQuantities[type];
+  const unit = unitSymbol(quantity, unitSystem);
+  // Every elastic mode needs some damping, or its peak is infinite
+  const damped = useMemo(
+    () =>
+      damping !== undefined &&
+      modalDampingRatios(damping, naturalFrequencies).every((ratio, i) => ratio > 0 || naturalFrequencies[i] <= 0),
+    [damping, naturalFrequencies]
+  );
+
+  const clampedDrivePoint = Math.min(Math.max(drivePoint, 0), length);
+  const clampedResponsePoint = Math.min(Math.max(responsePoint, 0), length);
+  const response = useMemo(
+    () =>
+      damping && damped
+        ? calculateFrequencyResponse(
+            modeShapes,
+            naturalFrequencies,
+            damping,
+            clampedDrivePoint,
+            clampedResponsePoint,
+            type
+          )
+        : null,
+    [modeShapes, naturalFrequencies, damped, damping, clampedDrivePoint, clampedResponsePoint, type]
+  );
+  const typeOption = frfTypes.find((option) => option.value === type) ?? frfTypes[0];
+
+  // Values in display units, so that axes and tooltips follow the unit system
+  const chartData = useMemo(() => {
+    if (!response) return [];
+    return response.frequency.map((frequency, i) => ({
+      frequency,
+      magnitude: toDisplay(response.magnitude[i], quantity, unitSystem),
+      phase: response.phase[i],
+      real: toDisplay(response.real[i], quantity, unitSystem),
+      imaginary: toDisplay(response.imaginary[i], quantity, unitSystem),
+    }));
+  }, [response, quantity, unitSystem]);
+
+  const pointInput = (label: string, value: number, onChange: (value: number) => void) => (
+    <div>
+      <label className="block text-xs text-gray-600 mb-1">
+        {label} ({unitSymbol('length', unitSystem)})
+      </label>
+      <UnitInput
+        value={value}
+        quantity="length"
+        unitSystem={unitSystem}
+        onChange={(v) => onChange(v ?? 0)}
+        className={inputClassName}
+        min={0}
+      />
+    </div>
+  );
+
+  return (
+    <div className="w-full p-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Frequency Response Function</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Harmonic force at the drive point, response at the response point, by modal superposition over all{' '}
+          {modeShapes.length} computed modes ({describeDampingModel(damping)})
+        </p>
+      </div>
+
+      {/* The controls do not print, so the printed chart states their settings instead */}
+      <p className="hidden print:block text-sm text-gray-700 mb-3">
+        {typeOption.label} ({typeOption.description.toLowerCase()}), {view === 'bode' ? 'Bode' : 'Nyquist'} plot. Force
+        at x = {formatQuantity(clampedDrivePoint, 'length', unitSystem)}, response at x ={' '}
+        {formatQuantity(clampedResponsePoint, 'length', unitSystem)}.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 print:hidden">
+        {pointInput('Drive Point', drivePoint, setDrivePoint)}
+        {pointInput('Response Point', responsePoint, setResponsePoint)}
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Function</label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as FrfType)}
+            className={`${inputClassName} bg-white`}
+          >
+            {frfTypes.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Plot</label>
+          <div className="flex rounded-md border border-gray-300 overflow-hidden">
+            {(['bode', 'nyquist'] as FrfView[]).map((option) => (
+              <button
+                key={option}
+                type="button"
+                onClick={() => setView(option)}
+                className={`flex-1 px-2 py-1 text-sm capitalize ${
+                  view === option ? 'bg-primary-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {!response && (
+        <div className="h-[300px] flex items-center justify-center">
+          <p className="text-gray-500">
+            Choose a damping model that damps every mode to see the forced response; undamped peaks are infinite
+          </p>
+        </div>
+      )}
+
+      {response && view === 'bode' && (
+        <div>
+          <div className="h-[280px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="frequency"
+                  type="number"
+                  scale="log"
+                  domain={['dataMin', 'dataMax']}
+                  stroke="#6b7280"
+                  tickFormatter={(value) => formatNumber(value, 3)}
+                />
+                <YAxis
+                  type="number"
+                  scale="log"
+                  domain={['auto', 'auto']}
+                  label={{ value: `|H| (${unit})`, angle: -90, position: 'insideLeft' }}
+                  stroke="#6b7280"
+                  tickFormatter={(value) => formatNumber(value, 2)}
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+                  formatter={(value: number) => `${formatNumber(value, 4)} ${unit}`}
+                  labelFormatter={(label) => `${Number(label).toFixed(2)} Hz`}
+                />
+                {response.resonances.map((resonance) => (
+                  <ReferenceDot
+                    key={resonance.mode}
+                    x={resonance.frequency}
+                    y={toDisplay(resonance.magnitude, quantity, unitSystem)}
+                    r={4}
+                    fill="#dc2626"
+                    stroke="#fff"
+                    label={{
+                      value: `Mode ${resonance.mode}: ${resonance.frequency.toFixed(2)} Hz`,
+                      position: 'top',
+                      fontSize: 10,
+                    }}
+                  />
+                ))}
+                <Line
+                  type="monotone"
+                  dataKey="magnitude"
+                  name="Magnitude"
+                  stroke="#2563eb"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+          <div className="h-[200px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="frequency"
+                  type="number"
+                  scale="log"
+                  domain={['dataMin', 'dataMax']}
+                  label={{ value: 'Frequency (Hz)', position: 'insideBottom', offset: -10 }}
+                  stroke="#6b7280"
+                  tickFormatter={(value) => formatNumber(value, 3)}
+                />
+                <YAxis
+                  type="number"
+                  domain={[-180, 180]}
+                  ticks={[-180, -90, 0, 90, 180]}
+                  label={{ value: 'Phase (°)', angle: -90, position: 'insideLeft' }}
+                  stroke="#6b7280"
+                />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+                  formatter={(value: number) => `${value.toFixed(1)}°`}
+                  labelFormatter={(label) => `${Number(label).toFixed(2)} Hz`}
+                />
+                {response.resonances.map((resonance) => (
+                  <ReferenceLine key={resonance.mode} x={resonance.frequency} stroke="#dc2626" strokeDasharray="4 3" />
+                ))}
+                <Line
+                  type="linear"
+                  dataKey="phase"
+                  name="Phase"
+                  stroke="#7c3aed"
+                  strokeWidth={2}
+                  dot={false}
+                  isAnimationActive={false}
+                />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </div>
+      )}
+
+      {response && view === 'nyquist' && (
+        <div className="h-[480px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={chartData} margin={{ top: 20, right: 30, left: 20, bottom: 20 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+              <XAxis
+                dataKey="real"
+                type="number"
+                domain={['auto', 'auto']}
+                label={{ value: `Real (${unit})`, position: 'insideBottom', offset: -10 }}
+                stroke="#6b7280"
+                tickFormatter={(value) => formatNumber(value, 2)}
+              />
+              <YAxis
+                type="number"
+                domain={['auto', 'auto']}
+                label={{ value: `Imaginary (${unit})`, angle: -90, position: 'insideLeft' }}
+                stroke="#6b7280"
+                tickFormatter={(value) => formatNumber(value, 2)}
+              />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+                formatter={(value: number) => `${formatNumber(value, 4)} ${unit}`}
+                labelFormatter={(label) => `Real: ${formatNumber(Number(label), 4)} ${unit}`}
+              />
+              <ReferenceLine x={0} stroke="#9ca3af" />
+              <ReferenceLine y={0} stroke="#9ca3af" />
+              {response.resonances.map((resonance) => (
+                <ReferenceDot
+                  key={resonance.mode}
+                  x={toDisplay(resonance.real, quantity, unitSystem)}
+                  y={toDisplay(resonance.imaginary, quantity, unitSystem)}
+                  r={4}
+                  fill="#dc2626"
+                  stroke="#fff"
+                  label={{
+                    value: `Mode ${resonance.mode}: ${resonance.frequency.toFixed(2)} Hz`,
+                    position: 'right',
+                    fontSize: 10,
+                  }}
+                />
+              ))}
+              <Line
+                type="linear"
+                dataKey="imaginary"
+                name="Imaginary"
+                stroke="#2563eb"
+                strokeWidth={2}
+                dot={false}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      )}
+
+      <div className="mt-2 text-xs text-gray-500">
+        <p>
+          💡 <strong>{typeOption.label}:</strong> {typeOption.description}. Peaks are marked with the natural
+          frequency of their mode; with the drive and response points together every mode shows up as a
+          resonance followed by an anti-resonance.
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+'use client';
+
+import { useState } from 'react';
+import { BeamType } from '@/lib/beamAnalysis';
+import {
+  Load,
+  LoadType,
+  loadTypes,
+  loadFields,
+  createDefaultLoad,
+  getLoadValue,
+  isValidLoad,
+  setLoadValue,
+} from '@/lib/loads';
+import { Attachment, restrainedRigidBodyLines } from '@/lib/attachments';
+import { UnitSystem, formatQuantity, unitSymbol } from '@/lib/units';
+import UnitInput from '@/components/UnitInput';
+
+interface LoadCaseEditorProps {
+  beamType: BeamType;
+  length: number;
+  loads: Load[];
+  attachments: Attachment[]; // Springs can restrain an otherwise unrestrained beam
+  foundationModulus: number; // As can an elastic foundation (0 for none)
+  axialLoad: number | undefined; // N, tension positive
+  unitSystem: UnitSystem;
+  onChange: (loads: Load[]) => void;
+  onAxialLoadChange: (axialLoad: number | undefined) => void;
+  onReset: () => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+export default function LoadCaseEditor({
+  beamType,
+  length,
+  loads,
+  attachments,
+  foundationModulus,
+  axialLoad,
+  unitSystem,
+  onChange,
+  onAxialLoadChange,
+  onReset,
+}: LoadCaseEditorProps) {
+  const [newLoadType, setNewLoadType] = useState<LoadType>('point');
+
+  const updateLoad = (index: number, load: Load) => {
+    onChange(loads.map((l, i) => (i === index ? load : l)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800">Static Load Case</h3>
+        <button
+          type="button"
+          onClick={onReset}
+          className="text-xs text-primary-700 hover:text-primary-900"
+        >
+          Reset
+        </button>
+      </div>
+      <p className="text-xs text-gray-500">
+        Forces are positive in the direction of positive deflection; positive moments turn the beam towards
+        positive slope
+      </p>
+
+      {loads.length === 0 && <p className="text-xs text-gray-500">No loads applied</p>}
+
+      {loads.map((load, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex justify-between items-center gap-2">
+            <select
+              value={load.type}
+              onChange={(e) => updateLoad(index, createDefaultLoad(e.target.value as LoadType, length))}
+              className={`${inputClassName} bg-white`}
+            >
+              {loadTypes.map((type) => (
+                <option key={type.value} value={type.value}>
+                  {type.label}
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => onChange(loads.filter((_, i) => i !== index))}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              Remove
+            </button>
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            {loadFields[load.type].map((field) => (
+              <div key={field.key}>
+                <label className="block text-xs text-gray-600 mb-1">
+                  {field.label} ({unitSymbol(field.quantity, unitSystem)})
+                </label>
+                <UnitInput
+                  value={getLoadValue(load, field.key)}
+                  quantity={field.quantity}
+                  unitSystem={unitSystem}
+                  onChange={(value) => updateLoad(index, setLoadValue(load, field.key, value ?? 0))}
+                  className={inputClassName}
+                />
+              </div>
+            ))}
+          </div>
+          {!isValidLoad(load, length) && (
+            <p className="text-xs text-red-600">
+              Load must lie on the beam (0 to {formatQuantity(length, 'length', unitSystem)}), with the end after the start
+            </p>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <select
+          value={newLoadType}
+          onChange={(e) => setNewLoadType(e.target.value as LoadType)}
+          className={`${inputClassName} bg-white`}
+        >
+          {loadTypes.map((type) => (
+            <option key={type.value} value={type.value}>
+              {type.label}
+            </option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={() => onChange([...loads, createDefaultLoad(newLoadType, length)])}
+          className="px-3 py-1 text-sm rounded-md border border-dashed border-primary-300 text-primary-700 hover:bg-primary-50 whitespace-nowrap"
+        >
+          + Add load
+        </button>
+      </div>
+
+      <div className="pt-3 border-t border-gray-200">
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Axial Load (P, {unitSymbol('force', unitSystem)}){' '}
+          <span className="text-gray-400 font-normal">(optional)</span>
+        </label>
+        <UnitInput
+          value={axialLoad}
+          quantity="force"
+          unitSystem={unitSystem}
+          onChange={onAxialLoadChange}
+          optional
+          placeholder="No axial load"
+          className={inputClassName}
+        />
+        <p className="text-xs text-gray-500 mt-1">
+          Tension positive, compression negative. It stiffens or softens the beam for the frequencies and the
+          static deflection; entering any value (even 0) also gives the buckling loads
+        </p>
+      </div>
+
+      {restrainedRigidBodyLines(beamType, length, attachments, foundationModulus).length > 0 && (
+        <p className="text-xs text-gray-500">
+          This beam is not restrained against rigid-body motion, so it has no static deflection and carries no
+          axial load (springs or an elastic foundation can restrain it)
+        </p>
+      )}
+    </div>
+  );
+}
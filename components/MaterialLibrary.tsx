@@ -0,0 +1,194 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { downloadFile } from '@/lib/export';
+import {
+  Material,
+  MaterialValues,
+  isDuplicateName,
+  isValidMaterial,
+  materialFromValues,
+  mergeMaterials,
+  parseMaterials,
+  serializeMaterials,
+  usableMaterials,
+} from '@/lib/materials';
+import { Quantity, UnitSystem, fromDisplay, toDisplay, unitSymbol } from '@/lib/units';
+
+interface MaterialLibraryProps {
+  materials: Material[]; // The user's own materials
+  currentValues: MaterialValues; // Material of the beam (or of its first segment), for saving
+  unitSystem: UnitSystem;
+  onChange: (materials: Material[]) => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+// Editable numeric properties, in display order (ν has no unit)
+const materialFields: { key: keyof Material; label: string; quantity?: Quantity }[] = [
+  { key: 'youngsModulus', label: 'E', quantity: 'modulus' },
+  { key: 'density', label: 'ρ', quantity: 'density' },
+  { key: 'poissonsRatio', label: 'ν' },
+  { key: 'yieldStrength', label: 'σy', quantity: 'stress' },
+  { key: 'ultimateStrength', label: 'σu', quantity: 'stress' },
+];
+
+export default function MaterialLibrary({ materials, currentValues, unitSystem, onChange }: MaterialLibraryProps) {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const updateMaterial = (index: number, material: Material) => {
+    onChange(materials.map((m, i) => (i === index ? material : m)));
+  };
+
+  const saveCurrent = () => {
+    const material = materialFromValues(name, currentValues);
+    if (!material) {
+      setMessage('Enter a name, and a yield strength for the current material, before saving');
+      return;
+    }
+    onChange(mergeMaterials(materials, [material]));
+    setName('');
+    setMessage(null);
+  };
+
+  const importFile = async (file: File) => {
+    let text: string;
+    try {
+      text = await file.text();
+    } catch {
+      setMessage(`${file.name} could not be read`);
+      return;
+    }
+    const imported = parseMaterials(text);
+    if (!imported) {
+      setMessage(`${file.name} is not a valid material list`);
+      return;
+    }
+    onChange(mergeMaterials(materials, imported));
+    setMessage(`Imported ${imported.length} material${imported.length === 1 ? '' : 's'}`);
+  };
+
+  const exportFile = () => {
+    downloadFile('materials.json', serializeMaterials(usableMaterials(materials)), 'application/json');
+  };
+
+  return (
+    <div className="space-y-4">
+      <h3 className="text-lg font-semibold text-gray-800">My Materials</h3>
+
+      {materials.length === 0 && (
+        <p className="text-xs text-gray-500">
+          Save the current material under a name, or import a JSON file, to add it to the material picker
+        </p>
+      )}
+
+      {materials.map((material, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-2">
+          <div className="flex items-center gap-2">
+            <input
+              type="text"
+              value={material.name}
+              onChange={(e) => updateMaterial(index, { ...material, name: e.target.value })}
+              className={inputClassName}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(materials.filter((_, i) => i !== index))}
+              className="text-xs text-red-600 hover:text-red-800"
+            >
+              Delete
+            </button>
+          </div>
+          <div className="grid grid-cols-3 gap-2">
+            {materialFields.map(({ key, label, quantity }) => {
+              const value = material[key] as number | undefined;
+              return (
+                <div key={key}>
+                  <label className="block text-xs text-gray-600 mb-1">
+                    {label}
+                    {quantity && ` (${unitSymbol(quantity, unitSystem)})`}
+                  </label>
+                  <input
+                    type="number"
+                    value={value === undefined ? '' : quantity ? toDisplay(value, quantity, unitSystem) : value}
+                    onChange={(e) => {
+                      const entered = e.target.value === '' ? undefined : parseFloat(e.target.value);
+                      updateMaterial(index, {
+                        ...material,
+                        [key]: entered !== undefined && quantity ? fromDisplay(entered, quantity, unitSystem) : entered,
+                      });
+                    }}
+                    className={inputClassName}
+                    min="0"
+                    step="any"
+                  />
+                </div>
+              );
+            })}
+          </div>
+          {!isValidMaterial(material) && (
+            <p className="text-xs text-red-600">
+              Needs a name, positive E, ρ and σy, and ν from 0 to 0.5; it will not be saved until fixed
+            </p>
+          )}
+          {isValidMaterial(material) && isDuplicateName(materials, index) && (
+            <p className="text-xs text-red-600">
+              Another material is already called {material.name.trim()}; it will not be saved until renamed
+            </p>
+          )}
+        </div>
+      ))}
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          placeholder="Name for current material"
+          className={inputClassName}
+        />
+        <button
+          type="button"
+          onClick={saveCurrent}
+          className="px-3 py-1 text-sm rounded-md border border-dashed border-primary-300 text-primary-700 hover:bg-primary-50 whitespace-nowrap"
+        >
+          + Save
+        </button>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="button"
+          onClick={() => fileInput.current?.click()}
+          className="flex-1 px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+        >
+          Import JSON
+        </button>
+        <button
+          type="button"
+          onClick={exportFile}
+          disabled={materials.length === 0}
+          className="flex-1 px-3 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+        >
+          Export JSON
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept="application/json,.json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file);
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {message && <p className="text-xs text-gray-600">{message}</p>}
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { Material, MaterialValues, presetMaterials, findMaterial, usableMaterials } from '@/lib/materials';
+
+interface MaterialPickerProps {
+  values: MaterialValues;
+  customMaterials: Material[];
+  onSelect: (material: Material) => void;
+  className?: string;
+}
+
+const CUSTOM = '';
+
+/**
+ * Material drop-down; shows "Custom" whenever the values have been edited away from every material
+ */
+export default function MaterialPicker({ values, customMaterials, onSelect, className }: MaterialPickerProps) {
+  // Materials being edited in the library are left out until they are valid and uniquely named
+  const usable = usableMaterials(customMaterials);
+
+  // User materials come first so that one saved with preset values is shown under its own name
+  const selected = findMaterial([...usable, ...presetMaterials], values);
+  const selectedKey = selected
+    ? `${usable.includes(selected) ? 'custom' : 'preset'}:${selected.name}`
+    : CUSTOM;
+
+  const select = (key: string) => {
+    const [group, ...name] = key.split(':');
+    const materials = group === 'custom' ? usable : presetMaterials;
+    const material = materials.find((m) => m.name === name.join(':'));
+    if (material) onSelect(material);
+  };
+
+  return (
+    <select value={selectedKey} onChange={(e) => select(e.target.value)} className={className}>
+      <option value={CUSTOM}>Custom</option>
+      <optgroup label="Library">
+        {presetMaterials.map((material) => (
+          <option key={material.name} value={`preset:${material.name}`}>
+            {material.name}
+          </option>
+        ))}
+      </optgroup>
+      {usable.length > 0 && (
+        <optgroup label="My Materials">
+          {usable.map((material) => (
+            <option key={material.name} value={`custom:${material.name}`}>
+              {material.name}
+            </option>
+          ))}
+        </optgroup>
+      )}
+    </select>
+  );
+}
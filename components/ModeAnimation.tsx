@@ -0,0 +1,285 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { BeamType, ModeShape } from '@/lib/beamAnalysis';
+import { endConditions } from '@/lib/boundaryConditions';
+import { getSectionDepth } from '@/lib/crossSections';
+import { findAntinodes, findNodes, superposeShapes } from '@/lib/modeAnimation';
+import { BeamSegment, sectionAt, segmentAt } from '@/lib/segments';
+import { UnitSystem, formatNumber, formatQuantity } from '@/lib/units';
+import { Support } from '@/components/BeamSchematic';
+import { getModeColor } from '@/components/ModeShapeChart';
+
+interface ModeAnimationProps {
+  beamType: BeamType;
+  segments: BeamSegment[];
+  modeShapes: ModeShape[];
+  naturalFrequencies: number[];
+  unitSystem: UnitSystem;
+}
+
+// Drawing area in SVG units
+const WIDTH = 600;
+const HEIGHT = 240;
+const MARGIN = 50; // Room for the supports on either side
+const AXIS_Y = 110;
+const MAX_HALF_DEPTH = 8; // The deepest section is drawn this far either side of the axis
+const MAX_SWING = 80; // Largest excursion of the beam axis at full amplitude
+const DRAWN_POINTS = 150; // Points along the deflected beam
+
+/**
+ * Indices of about count samples spread evenly along the beam, always including both ends
+ */
+function sampleIndices(total: number, count: number): number[] {
+  const step = Math.max(1, Math.floor(total / count));
+  const indices = Array.from({ length: Math.ceil(total / step) }, (_, i) => i * step);
+  return indices[indices.length - 1] === total - 1 ? indices : [...indices, total - 1];
+}
+
+export default function ModeAnimation({
+  beamType,
+  segments,
+  modeShapes,
+  naturalFrequencies,
+  unitSystem,
+}: ModeAnimationProps) {
+  // Rigid-body modes do not vibrate, so only the elastic modes can be animated
+  const elasticModes = useMemo(
+    () => modeShapes.map((shape, index) => ({ shape, index })).filter(({ shape }) => !shape.rigidBody),
+    [modeShapes]
+  );
+  const [selectedModes, setSelectedModes] = useState<Set<number>>(
+    () => new Set(elasticModes.slice(0, 1).map(({ shape }) => shape.mode))
+  );
+  const [playing, setPlaying] = useState(true);
+  const [amplitude, setAmplitude] = useState(0.8); // Fraction of MAX_SWING
+  const [speed, setSpeed] = useState(0.5); // Cycles per second of the slowest selected mode
+  const [time, setTime] = useState(0); // Animation time in seconds
+
+  useEffect(() => {
+    if (!playing) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      setTime((t) => t + (now - last) / 1000);
+      last = now;
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [playing]);
+
+  // Falls back to the fundamental if the selected modes have become rigid-body modes or gone
+  const selected = useMemo(() => {
+    const chosen = elasticModes.filter(({ shape }) => selectedModes.has(shape.mode));
+    return chosen.length > 0 ? chosen : elasticModes.slice(0, 1);
+  }, [elasticModes, selectedModes]);
+
+  const toggleMode = (mode: number) => {
+    const next = new Set(selected.map(({ shape }) => shape.mode));
+    if (next.has(mode)) {
+      if (next.size > 1) next.delete(mode);
+    } else {
+      next.add(mode);
+    }
+    setSelectedModes(next);
+  };
+
+  const markers = useMemo(
+    () =>
+      selected.map(({ shape, index }) => ({
+        mode: shape.mode,
+        color: getModeColor(index),
+        nodes: findNodes(shape),
+        antinodes: findAntinodes(shape),
+      })),
+    [selected]
+  );
+
+  if (selected.length === 0 || segments.length === 0) {
+    return (
+      <div className="h-[300px] flex items-center justify-center">
+        <p className="text-gray-500">A beam with only rigid-body modes has nothing to animate</p>
+      </div>
+    );
+  }
+
+  // Each mode turns at its own natural frequency, all slowed by the same factor so that the
+  // slowest selected one completes `speed` cycles per second
+  const slowest = Math.min(...selected.map(({ index }) => naturalFrequencies[index]));
+  const slowdown = slowest / speed;
+  const phases = selected.map(({ index }) => (2 * Math.PI * naturalFrequencies[index] * time) / slowdown);
+  const deflection = superposeShapes(
+    selected.map(({ shape }) => shape),
+    phases
+  );
+
+  const x = selected[0].shape.x;
+  const length = x[x.length - 1];
+  const maxDepth = Math.max(
+    ...segments.flatMap((segment) => [getSectionDepth(segment.section), getSectionDepth(sectionAt(segment, segment.end))])
+  );
+  const toX = (position: number) => MARGIN + (position / length) * (WIDTH - 2 * MARGIN);
+  const halfDepthAt = (position: number) =>
+    Math.max(1.5, (getSectionDepth(sectionAt(segmentAt(segments, position), position)) / maxDepth) * MAX_HALF_DEPTH);
+  const swing = amplitude * MAX_SWING;
+  const toY = (value: number) => AXIS_Y - value * swing;
+
+  const indices = sampleIndices(x.length, DRAWN_POINTS);
+  const outline = (offset: (i: number) => number) => [
+    ...indices.map((i) => `${toX(x[i])},${offset(i) - halfDepthAt(x[i])}`),
+    ...[...indices].reverse().map((i) => `${toX(x[i])},${offset(i) + halfDepthAt(x[i])}`),
+  ];
+  const [startEnd, endEnd] = endConditions[beamType];
+
+  return (
+    <div className="w-full p-4">
+      <div className="mb-3">
+        <h3 className="text-lg font-semibold text-gray-800">Mode Animation</h3>
+        <p className="text-sm text-gray-600 mt-1">
+          {selected
+            .map(({ shape, index }) => `Mode ${shape.mode} at ${naturalFrequencies[index].toFixed(2)} Hz`)
+            .join(' + ')}
+          <span className="text-gray-400"> · slowed {formatNumber(slowdown, 3)}×</span>
+        </p>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-3">
+        <button
+          onClick={() => setPlaying(!playing)}
+          className="px-3 py-1 text-sm bg-blue-500 text-white rounded hover:bg-blue-600 transition-colors w-20"
+        >
+          {playing ? 'Pause' : 'Play'}
+        </button>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          Amplitude
+          <input
+            type="range"
+            min={0.1}
+            max={1}
+            step={0.05}
+            value={amplitude}
+            onChange={(e) => setAmplitude(parseFloat(e.target.value))}
+          />
+          <span className="w-8">{Math.round(amplitude * 100)}%</span>
+        </label>
+        <label className="flex items-center gap-2 text-xs text-gray-600">
+          Speed
+          <input
+            type="range"
+            min={0.1}
+            max={2}
+            step={0.1}
+            value={speed}
+            onChange={(e) => setSpeed(parseFloat(e.target.value))}
+          />
+          <span className="w-16">{speed.toFixed(1)} cycles/s</span>
+        </label>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-1 mb-2">
+        {elasticModes.map(({ shape, index }) => {
+          const active = selected.some((mode) => mode.shape.mode === shape.mode);
+          return (
+            <button
+              key={shape.mode}
+              onClick={() => toggleMode(shape.mode)}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                active ? 'text-white' : 'bg-white text-gray-500 border-gray-300'
+              }`}
+              style={active ? { backgroundColor: getModeColor(index), borderColor: getModeColor(index) } : undefined}
+            >
+              Mode {shape.mode}
+            </button>
+          );
+        })}
+        <span className="ml-3 text-xs text-gray-500">Select several modes to animate their superposition</span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label="Animated mode shape">
+        <line x1={MARGIN - 10} y1={AXIS_Y} x2={WIDTH - MARGIN + 10} y2={AXIS_Y} stroke="#9ca3af" strokeDasharray="4 3" />
+
+        {/* Beam at rest, then deflected */}
+        <polygon points={outline(() => AXIS_Y).join(' ')} fill="none" stroke="#d1d5db" strokeDasharray="3 3" />
+        <polygon
+          points={outline((i) => toY(deflection[i])).join(' ')}
+          fill="#93c5fd"
+          stroke="#1f2937"
+          strokeWidth={1}
+        />
+
+        <Support
+          condition={startEnd}
+          x={toX(0)}
+          halfDepth={halfDepthAt(0)}
+          side={-1}
+          axisY={AXIS_Y}
+          endOffset={toY(deflection[0]) - AXIS_Y}
+          travel={swing}
+        />
+        <Support
+          condition={endEnd}
+          x={toX(length)}
+          halfDepth={halfDepthAt(length)}
+          side={1}
+          axisY={AXIS_Y}
+          endOffset={toY(deflection[deflection.length - 1]) - AXIS_Y}
+          travel={swing}
+        />
+
+        {/* Nodes stay on the axis; antinodes are marked where each mode swings furthest */}
+        {markers.map((marker) => (
+          <g key={marker.mode}>
+            {marker.nodes.map((position, i) => (
+              <circle
+                key={`node-${i}`}
+                cx={toX(position)}
+                cy={AXIS_Y}
+                r={4}
+                fill="white"
+                stroke={marker.color}
+                strokeWidth={2}
+              />
+            ))}
+            {marker.antinodes.map((position, i) => (
+              <g key={`antinode-${i}`}>
+                <line
+                  x1={toX(position)}
+                  y1={AXIS_Y - swing}
+                  x2={toX(position)}
+                  y2={AXIS_Y + swing}
+                  stroke={marker.color}
+                  strokeOpacity={0.35}
+                  strokeDasharray="2 3"
+                />
+                <polygon
+                  points={[
+                    `${toX(position)},${HEIGHT - 34}`,
+                    `${toX(position) - 5},${HEIGHT - 26}`,
+                    `${toX(position) + 5},${HEIGHT - 26}`,
+                  ].join(' ')}
+                  fill={marker.color}
+                />
+              </g>
+            ))}
+          </g>
+        ))}
+
+        <line x1={toX(0)} y1={HEIGHT - 20} x2={toX(length)} y2={HEIGHT - 20} stroke="#6b7280" />
+        {[0, length].map((position) => (
+          <text key={position} x={toX(position)} y={HEIGHT - 6} textAnchor="middle" fontSize={10} fill="#4b5563">
+            {formatQuantity(position, 'length', unitSystem)}
+          </text>
+        ))}
+      </svg>
+
+      <div className="mt-2 text-xs text-gray-500">
+        <p>
+          <strong>Markers:</strong> open circles are nodes, where the mode does not move; triangles and dotted lines
+          are antinodes, where it swings furthest. Each mode oscillates at its natural frequency, slowed by the same
+          factor so that their relative rates are true; the amplitude is arbitrary, as for any mode shape.
+        </p>
+      </div>
+    </div>
+  );
+}
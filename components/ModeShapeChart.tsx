@@ -1,20 +1,77 @@
 'use client';
 
 import { useMemo, useState, useRef, useEffect } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush } from 'recharts';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  Brush,
+  ReferenceLine,
+} from 'recharts';
 import { ModeShape } from '@/lib/beamAnalysis';
+import { Attachment, describeAttachment } from '@/lib/attachments';
+import { ExportHeader, modeShapeColumns } from '@/lib/export';
+import { UnitSystem, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import ExportButtons from '@/components/ExportButtons';
 
 interface ModeShapeChartProps {
   modeShapes: ModeShape[];
+  attachments?: Attachment[];
+  unitSystem: UnitSystem;
+  exportHeader: ExportHeader;
+  showAllModes?: boolean; // Start with every mode plotted, e.g. in the printed report
 }
 
 const colors = ['#3b82f6', '#ef4444', '#10b981', '#f59e0b', '#8b5cf6'];
 
-export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
+// Modes beyond the base palette get evenly spread hues (golden-angle steps) so colours never run out
+export function getModeColor(index: number): string {
+  if (index < colors.length) return colors[index];
+  return `hsl(${Math.round((index * 137.508) % 360)}, 65%, 45%)`;
+}
+
+const DEFAULT_VISIBLE_MODES = 3;
+
+const attachmentColors: Record<Attachment['type'], string> = {
+  'mass': '#111827',
+  'spring': '#059669',
+  'rotational-spring': '#7c3aed',
+};
+
+/**
+ * Short marker label for an attachment: the mass, or k / kθ for springs
+ */
+function attachmentLabel(attachment: Attachment, unitSystem: UnitSystem): string {
+  switch (attachment.type) {
+    case 'mass':
+      return formatQuantity(attachment.mass, 'mass', unitSystem, 3);
+    case 'spring':
+      return 'k';
+    case 'rotational-spring':
+      return 'kθ';
+  }
+}
+
+export default function ModeShapeChart({
+  modeShapes,
+  attachments = [],
+  unitSystem,
+  exportHeader,
+  showAllModes = false,
+}: ModeShapeChartProps) {
+  const lengthUnit = unitSymbol('length', unitSystem);
   const [xDomain, setXDomain] = useState<[number, number] | undefined>(undefined);
   const [yDomain, setYDomain] = useState<[number, number] | undefined>(undefined);
   const [isPanning, setIsPanning] = useState(false);
   const [panStart, setPanStart] = useState<{ x: number; domain: [number, number] } | null>(null);
+  const [visibleModes, setVisibleModes] = useState<Set<number>>(
+    () => new Set(modeShapes.slice(0, showAllModes ? modeShapes.length : DEFAULT_VISIBLE_MODES).map((m) => m.mode))
+  );
   const chartRef = useRef<any>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
@@ -25,7 +82,7 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
     }
     
     const data = modeShapes[0].x.map((x, index) => {
-      const dataPoint: Record<string, number | string> = { x: Number(x.toFixed(4)) };
+      const dataPoint: Record<string, number | string> = { x: Number(toDisplay(x, 'length', unitSystem).toFixed(4)) };
       
       // Add base state (zero line)
       dataPoint['Base State'] = 0;
@@ -67,7 +124,7 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
     }
 
     return data;
-  }, [modeShapes]);
+  }, [modeShapes, unitSystem]);
 
   // Reset zoom when data changes significantly (when max X value changes)
   const maxXValue = useMemo(() => {
@@ -199,8 +256,8 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
     if (!modeShapes || modeShapes.length === 0) return 'empty';
     const maxX = modeShapes[0]?.x ? Math.max(...modeShapes[0].x) : 0;
     const minX = modeShapes[0]?.x ? Math.min(...modeShapes[0].x) : 0;
-    return `${minX.toFixed(3)}-${maxX.toFixed(3)}-${modeShapes.map(m => m.bL.toFixed(4)).join('_')}`;
-  }, [modeShapes]);
+    return `${unitSystem}-${minX.toFixed(3)}-${maxX.toFixed(3)}-${modeShapes.map(m => m.bL.toFixed(4)).join('_')}`;
+  }, [modeShapes, unitSystem]);
 
   const handleResetZoom = () => {
     if (chartData.length > 0) {
@@ -226,6 +283,16 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
     }
   };
 
+  const toggleMode = (mode: number) => {
+    const next = new Set(visibleModes);
+    if (next.has(mode)) {
+      next.delete(mode);
+    } else {
+      next.add(mode);
+    }
+    setVisibleModes(next);
+  };
+
   if (chartData.length === 0) {
     return (
       <div className="w-full h-[500px] p-4 flex items-center justify-center">
@@ -238,12 +305,53 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
     <div className="w-full h-[500px] p-4">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-semibold text-gray-800">Mode Shapes</h3>
-        <button
-          onClick={handleResetZoom}
-          className="px-3 py-1 text-sm bg-primary-500 text-white rounded hover:bg-primary-600 transition-colors"
-        >
-          Reset Zoom
-        </button>
+        <div className="flex gap-2">
+          <ExportButtons
+            header={exportHeader}
+            fileName={`${exportHeader.beamType}-mode-shapes`}
+            csv={() => modeShapeColumns(modeShapes)}
+            chart={containerRef}
+          />
+          {modeShapes.length > DEFAULT_VISIBLE_MODES && (
+            <>
+              <button
+                onClick={() => setVisibleModes(new Set(modeShapes.map((m) => m.mode)))}
+                className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors"
+              >
+                Show All
+              </button>
+              <button
+                onClick={() => setVisibleModes(new Set())}
+                className="px-3 py-1 text-sm border border-gray-300 text-gray-700 rounded hover:bg-gray-50 transition-colors"
+              >
+                Hide All
+              </button>
+            </>
+          )}
+          <button
+            onClick={handleResetZoom}
+            className="px-3 py-1 text-sm bg-primary-500 text-white rounded hover:bg-primary-600 transition-colors"
+          >
+            Reset Zoom
+          </button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-1 mb-2">
+        {modeShapes.map((modeShape, index) => {
+          const visible = visibleModes.has(modeShape.mode);
+          return (
+            <button
+              key={modeShape.mode}
+              onClick={() => toggleMode(modeShape.mode)}
+              className={`px-2 py-0.5 text-xs rounded-full border transition-colors ${
+                visible ? 'text-white' : 'bg-white text-gray-500 border-gray-300'
+              }`}
+              style={visible ? { backgroundColor: getModeColor(index), borderColor: getModeColor(index) } : undefined}
+            >
+              Mode {modeShape.mode}
+            </button>
+          );
+        })}
       </div>
       <div ref={containerRef} className="w-full h-full" style={{ cursor: isPanning ? 'grabbing' : 'grab' }}>
         <ResponsiveContainer width="100%" height="100%">
@@ -259,7 +367,7 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
             type="number"
             domain={xDomain}
             allowDataOverflow={true}
-            label={{ value: 'Length (m)', position: 'insideBottom', offset: -5 }}
+            label={{ value: `Length (${lengthUnit})`, position: 'insideBottom', offset: -5 }}
             stroke="#6b7280"
             tickFormatter={(value) => value.toFixed(2)}
             allowDecimals={true}
@@ -275,9 +383,20 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
           <Tooltip 
             contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
             formatter={(value: number) => value.toFixed(4)}
-            labelFormatter={(label) => `Length: ${Number(label).toFixed(3)} m`}
+            labelFormatter={(label) => `Length: ${Number(label).toFixed(3)} ${lengthUnit}`}
           />
           <Legend />
+
+          {/* Attached masses and springs */}
+          {attachments.map((attachment, index) => (
+            <ReferenceLine
+              key={`attachment-${index}`}
+              x={Number(toDisplay(attachment.position, 'length', unitSystem).toFixed(4))}
+              stroke={attachmentColors[attachment.type]}
+              strokeDasharray={attachment.type === 'mass' ? undefined : '4 3'}
+              label={{ value: attachmentLabel(attachment, unitSystem), position: 'top', fontSize: 10 }}
+            />
+          ))}
           
           {/* Base state line */}
           <Line 
@@ -290,12 +409,12 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
           />
           
           {/* Mode shape lines */}
-          {modeShapes.map((modeShape, index) => (
+          {modeShapes.map((modeShape, index) => visibleModes.has(modeShape.mode) && (
             <Line
               key={`mode-${modeShape.mode}-${chartKey}`}
               type="monotone"
               dataKey={`Mode ${modeShape.mode}`}
-              stroke={colors[index % colors.length]}
+              stroke={getModeColor(index)}
               strokeWidth={2}
               dot={false}
             />
@@ -324,6 +443,12 @@ export default function ModeShapeChart({ modeShapes }: ModeShapeChartProps) {
         <p>💡 <strong>Zoom:</strong> Scroll wheel (Shift+Scroll for X-axis, normal scroll for Y-axis) | 
         <strong> Pan:</strong> Click and drag | 
         <strong> Brush:</strong> Use the slider at the bottom for X-axis zoom</p>
+        {attachments.length > 0 && (
+          <p className="mt-1">
+            <strong>Attached:</strong> {attachments.map((attachment) => describeAttachment(attachment, unitSystem)).join('; ')}
+            {' '}(solid lines mark masses, dashed lines springs)
+          </p>
+        )}
       </div>
     </div>
   );
@@ -1,65 +1,332 @@
 'use client';
 
-import { BeamResults } from '@/lib/beamAnalysis';
+import { useState } from 'react';
+import ExportButtons from '@/components/ExportButtons';
+import { BeamResults, EFFECTIVE_MASS_TARGET, ModeShape, StaticDeflection } from '@/lib/beamAnalysis';
+import { dampingRegime, dampingRegimeLabels } from '@/lib/damping';
+import { ExportHeader, keyQuantities, keyQuantityColumns, modalColumns, resultsSummary } from '@/lib/export';
+import { describeLoad } from '@/lib/loads';
+import { Quantity, UnitSystem, formatNumber, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
 
 interface ResultsDisplayProps {
   results: BeamResults;
+  unitSystem: UnitSystem;
+  exportHeader: ExportHeader;
+  showAllModes?: boolean; // List every mode at once instead of paging, e.g. in the printed report
 }
 
-function formatNumber(value: number, unit: string, decimals: number = 4): string {
-  if (value >= 1e9) {
-    return `${(value / 1e9).toFixed(decimals)} G${unit}`;
-  } else if (value >= 1e6) {
-    return `${(value / 1e6).toFixed(decimals)} M${unit}`;
-  } else if (value >= 1e3) {
-    return `${(value / 1e3).toFixed(decimals)} k${unit}`;
-  } else if (value < 1e-3) {
-    return `${(value * 1e6).toFixed(decimals)} μ${unit}`;
-  } else if (value < 1) {
-    return `${(value * 1e3).toFixed(decimals)} m${unit}`;
-  }
-  return `${value.toFixed(decimals)} ${unit}`;
+const MODES_PER_PAGE = 9;
+
+function describeLoadCase(staticDeflection: StaticDeflection, unitSystem: UnitSystem): string {
+  const { loads, totalLoad } = staticDeflection;
+  if (loads.length === 0) return 'No loads applied';
+  if (loads.length === 1) return `Under ${describeLoad(loads[0], unitSystem)}`;
+  return `Under ${loads.length} loads, net force ${formatQuantity(totalLoad, 'force', unitSystem)}`;
+}
+
+function formatSafetyFactor(value: number): string {
+  return Number.isFinite(value) ? value.toFixed(2) : '∞';
+}
+
+function maxBoundaryResidual(modeShape: ModeShape): number {
+  return Math.max(0, ...modeShape.boundaryResiduals.map((r) => Math.abs(r.residual)));
 }
 
-export default function ResultsDisplay({ results }: ResultsDisplayProps) {
+export default function ResultsDisplay({
+  results,
+  unitSystem,
+  exportHeader,
+  showAllModes = false,
+}: ResultsDisplayProps) {
+  const [page, setPage] = useState(0);
+  const format = (value: number, quantity: Quantity, digits?: number) =>
+    formatQuantity(value, quantity, unitSystem, digits);
+  const modesPerPage = showAllModes ? Math.max(1, results.naturalFrequencies.length) : MODES_PER_PAGE;
+  const pageCount = Math.ceil(results.naturalFrequencies.length / modesPerPage);
+  const firstIndex = page * modesPerPage;
+  const visibleFrequencies = results.naturalFrequencies.slice(firstIndex, firstIndex + modesPerPage);
+  const cumulativeFractions = results.modeShapes.reduce<number[]>(
+    (sums, shape, index) => [...sums, (index > 0 ? sums[index - 1] : 0) + shape.effectiveMassFraction],
+    []
+  );
+  const fundamentalDamping = results.modalDamping?.find((_, index) => results.naturalFrequencies[index] > 0);
+
   return (
     <div className="space-y-6 w-full">
       {/* Natural Frequencies */}
       <div className="bg-white rounded-lg shadow-sm p-6">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Natural Frequencies (fₙ)</h3>
+        <div className="flex justify-between items-center mb-4">
+          <div className="flex items-center gap-4">
+            <h3 className="text-lg font-semibold text-gray-800">Natural Frequencies (fₙ)</h3>
+            <ExportButtons
+              header={exportHeader}
+              fileName={`${exportHeader.beamType}-frequencies`}
+              csv={() => modalColumns(results)}
+              json={() => resultsSummary(results)}
+            />
+          </div>
+          {pageCount > 1 && (
+            <div className="flex items-center gap-2 text-sm">
+              <button
+                onClick={() => setPage(page - 1)}
+                disabled={page === 0}
+                className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+              >
+                ‹ Prev
+              </button>
+              <span className="text-gray-600">
+                Modes {firstIndex + 1}-{firstIndex + visibleFrequencies.length} of {results.naturalFrequencies.length}
+              </span>
+              <button
+                onClick={() => setPage(page + 1)}
+                disabled={page >= pageCount - 1}
+                className="px-2 py-1 rounded border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-40"
+              >
+                Next ›
+              </button>
+            </div>
+          )}
+        </div>
         <div className="grid grid-cols-3 gap-4">
-          {results.naturalFrequencies.map((freq, index) => (
-            <div key={index} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
-              <div className="text-sm text-gray-600 mb-1">Mode {index + 1}</div>
-              <div className="text-2xl font-bold text-primary-600">
-                {freq >= 1000
-                  ? `${(freq / 1000).toFixed(4)} kHz`
-                  : `${freq.toFixed(4)} Hz`
-                }
-              </div>
-              <div className="text-xs text-gray-500 mt-1">
-                bL = {results.modeShapes[index]?.bL.toFixed(4)}
-              </div>
-              <div className="text-[10px] text-gray-400 mt-2">
-                Rate at which structure naturally wants to vibrate
+          {visibleFrequencies.map((freq, pageIndex) => {
+            const index = firstIndex + pageIndex;
+            const modalDamping = results.modalDamping?.[index];
+            return (
+              <div key={index} className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+                <div className="text-sm text-gray-600 mb-1">Mode {index + 1}</div>
+                <div className="text-2xl font-bold text-primary-600">
+                  {freq >= 1000
+                    ? `${(freq / 1000).toFixed(4)} kHz`
+                    : `${freq.toFixed(4)} Hz`
+                  }
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  bL = {results.modeShapes[index]?.bL.toFixed(4)}
+                </div>
+                {results.modeShapes[index] && (
+                  <div
+                    className="text-[10px] text-gray-400 mt-1"
+                    title={results.modeShapes[index].boundaryResiduals
+                      .map((r) => `x = ${format(r.position, 'length')}: ${r.condition} (residual ${r.residual.toExponential(2)})`)
+                      .join('\n')}
+                  >
+                    BC residual ≤ {maxBoundaryResidual(results.modeShapes[index]).toExponential(1)}
+                  </div>
+                )}
+                {modalDamping && !results.modeShapes[index]?.rigidBody && (
+                  <div className="text-xs text-orange-600 mt-1">
+                    ζ = {(modalDamping.dampingRatio * 100).toFixed(2)}%
+                    {modalDamping.dampingRatio < 1
+                      ? `, damped ${modalDamping.dampedFrequency.toFixed(4)} Hz`
+                      : ` (${dampingRegimeLabels[dampingRegime(modalDamping.dampingRatio)].toLowerCase()})`}
+                  </div>
+                )}
+                <div className="text-[10px] text-gray-400 mt-2">
+                  {results.modeShapes[index]?.rigidBody
+                    ? 'Rigid-body mode: the beam moves without bending'
+                    : 'Rate at which structure naturally wants to vibrate'
+                  }
+                </div>
               </div>
+            );
+          })}
+        </div>
+      </div>
+
+      {/* Euler-Bernoulli vs Timoshenko */}
+      {results.eulerBernoulliFrequencies && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-1">Euler-Bernoulli vs Timoshenko</h3>
+          <p className="text-xs text-gray-500 mb-4">
+            {results.shearCorrectionFactor !== null
+              ? `Shear correction factor κ = ${results.shearCorrectionFactor.toFixed(4)}, shear rigidity κGA = `
+              : 'Length-averaged shear rigidity κGA = '}
+            {format(results.shearRigidity ?? 0, 'shearRigidity')}
+          </p>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Mode</th>
+                  <th className="py-2 pr-4 font-medium">Euler-Bernoulli</th>
+                  <th className="py-2 pr-4 font-medium">Timoshenko</th>
+                  <th className="py-2 font-medium">Difference</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.naturalFrequencies.map((freq, index) => {
+                  const eulerBernoulli = results.eulerBernoulliFrequencies?.[index];
+                  const difference =
+                    eulerBernoulli !== undefined && eulerBernoulli > 0
+                      ? ((freq - eulerBernoulli) / eulerBernoulli) * 100
+                      : null;
+                  return (
+                    <tr key={index} className="border-b border-gray-100">
+                      <td className="py-1 pr-4 text-gray-700">{index + 1}</td>
+                      <td className="py-1 pr-4 text-gray-700">
+                        {eulerBernoulli !== undefined ? `${eulerBernoulli.toFixed(2)} Hz` : '—'}
+                      </td>
+                      <td className="py-1 pr-4 font-semibold text-primary-600">{freq.toFixed(2)} Hz</td>
+                      <td className={`py-1 ${difference !== null && difference < -5 ? 'text-red-600' : 'text-gray-700'}`}>
+                        {difference !== null ? `${difference.toFixed(2)}%` : '—'}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[10px] text-gray-400 mt-2">
+            Differences beyond a few percent mean the beam is too deep or short for Euler-Bernoulli theory
+          </p>
+        </div>
+      )}
+
+      {/* Modal Properties */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-1">Modal Properties</h3>
+        <p className="text-xs text-gray-500 mb-4">
+          Generalised mass and stiffness of each shape as plotted (peak of 1), and its share of the total mass of{' '}
+          {format(results.totalMass, 'mass')} under base excitation. Seismic codes usually ask for enough modes to
+          reach {EFFECTIVE_MASS_TARGET * 100}% cumulative effective mass.
+        </p>
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-600 border-b border-gray-200">
+                <th className="py-2 pr-4 font-medium">Mode</th>
+                <th className="py-2 pr-4 font-medium">Frequency</th>
+                <th className="py-2 pr-4 font-medium">Modal Mass ({unitSymbol('mass', unitSystem)})</th>
+                <th className="py-2 pr-4 font-medium">Modal Stiffness ({unitSymbol('stiffness', unitSystem)})</th>
+                <th className="py-2 pr-4 font-medium">Participation (Γ)</th>
+                <th className="py-2 pr-4 font-medium">Effective Mass ({unitSymbol('mass', unitSystem)})</th>
+                <th className="py-2 pr-4 font-medium">Fraction</th>
+                <th className="py-2 font-medium">Cumulative</th>
+              </tr>
+            </thead>
+            <tbody>
+              {results.modeShapes.map((shape, index) => {
+                const cumulative = cumulativeFractions[index];
+                const previous = index > 0 ? cumulativeFractions[index - 1] : 0;
+                const reachesTarget = cumulative >= EFFECTIVE_MASS_TARGET && previous < EFFECTIVE_MASS_TARGET;
+                return (
+                  <tr key={shape.mode} className="border-b border-gray-100 text-gray-700">
+                    <td className="py-1 pr-4">{shape.mode}</td>
+                    <td className="py-1 pr-4">{results.naturalFrequencies[index].toFixed(2)} Hz</td>
+                    <td className="py-1 pr-4">{formatNumber(toDisplay(shape.modalMass, 'mass', unitSystem), 4)}</td>
+                    <td className="py-1 pr-4">
+                      {formatNumber(toDisplay(shape.modalStiffness, 'stiffness', unitSystem), 4)}
+                    </td>
+                    <td className="py-1 pr-4">{formatNumber(shape.participationFactor, 4)}</td>
+                    <td className="py-1 pr-4">{formatNumber(toDisplay(shape.effectiveMass, 'mass', unitSystem), 4)}</td>
+                    <td className="py-1 pr-4">{(shape.effectiveMassFraction * 100).toFixed(2)}%</td>
+                    <td className={`py-1 ${reachesTarget ? 'font-semibold text-green-600' : ''}`}>
+                      {(cumulative * 100).toFixed(2)}%
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-[10px] text-gray-400 mt-2">
+          Mass-normalised shapes are w/√m. Over all modes the effective masses add up to the total mass, less the
+          share the supports carry directly
+        </p>
+      </div>
+
+      {/* Section Properties */}
+      <div className="bg-white rounded-lg shadow-sm p-6">
+        <h3 className="text-lg font-semibold text-gray-800 mb-4">
+          Section Properties{results.segmentProperties && ' (at x = 0)'}
+        </h3>
+        <div className="grid grid-cols-3 gap-4">
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            <div className="text-sm text-gray-600 mb-1">Area (A)</div>
+            <div className="text-xl font-bold text-gray-800">
+              {format(results.sectionProperties.area, 'area', 5)}
+            </div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            <div className="text-sm text-gray-600 mb-1">Moment of Inertia (I)</div>
+            <div className="text-xl font-bold text-gray-800">
+              {format(results.sectionProperties.momentOfInertia, 'momentOfInertia', 5)}
+            </div>
+          </div>
+          <div className="bg-gray-50 rounded-lg p-4 border border-gray-200">
+            <div className="text-sm text-gray-600 mb-1">Section Modulus (Z = I/c)</div>
+            <div className="text-xl font-bold text-gray-800">
+              {format(results.sectionProperties.sectionModulus, 'sectionModulus', 5)}
+            </div>
+            <div className="text-xs text-gray-500 mt-1">
+              c = {format(results.sectionProperties.extremeFibreDistance, 'dimension')}
             </div>
-          ))}
+          </div>
         </div>
+        {results.segmentProperties && (
+          <div className="overflow-x-auto mt-4">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Segment</th>
+                  <th className="py-2 pr-4 font-medium">x ({unitSymbol('length', unitSystem)})</th>
+                  <th className="py-2 pr-4 font-medium">A ({unitSymbol('area', unitSystem)})</th>
+                  <th className="py-2 pr-4 font-medium">I ({unitSymbol('momentOfInertia', unitSystem)})</th>
+                  <th className="py-2 font-medium">
+                    E ({unitSymbol('modulus', unitSystem)}), ρ ({unitSymbol('density', unitSystem)})
+                  </th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.segmentProperties.map((segment, index) => {
+                  const range = (start: number, end: number, quantity: 'area' | 'momentOfInertia') => {
+                    const [from, to] = [start, end].map((value) => formatNumber(toDisplay(value, quantity, unitSystem)));
+                    return start === end ? from : `${from} → ${to}`;
+                  };
+                  const length = (value: number) => toDisplay(value, 'length', unitSystem).toFixed(3);
+                  return (
+                    <tr key={index} className="border-b border-gray-100 text-gray-700">
+                      <td className="py-1 pr-4">{index + 1}</td>
+                      <td className="py-1 pr-4">
+                        {length(segment.start)} - {length(segment.end)}
+                      </td>
+                      <td className="py-1 pr-4">{range(segment.startProperties.area, segment.endProperties.area, 'area')}</td>
+                      <td className="py-1 pr-4">
+                        {range(segment.startProperties.momentOfInertia, segment.endProperties.momentOfInertia, 'momentOfInertia')}
+                      </td>
+                      <td className="py-1">
+                        {formatNumber(toDisplay(segment.youngsModulus, 'modulus', unitSystem), 3)},{' '}
+                        {formatNumber(toDisplay(segment.density, 'density', unitSystem), 4)}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
 
       {/* Key Quantities */}
       <div className="bg-white rounded-lg shadow-sm p-6">
-        <h3 className="text-lg font-semibold text-gray-800 mb-4">Key Quantities</h3>
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-semibold text-gray-800">Key Quantities</h3>
+          <ExportButtons
+            header={exportHeader}
+            fileName={`${exportHeader.beamType}-key-quantities`}
+            csv={() => keyQuantityColumns(results)}
+            json={() => ({ keyQuantities: keyQuantities(results) })}
+          />
+        </div>
         <div className="grid grid-cols-2 gap-4">
           {/* Flexural Rigidity */}
           <div className="bg-blue-50 rounded-lg p-4 border border-blue-200">
             <div className="text-sm text-gray-600 mb-1">Flexural Rigidity (EI)</div>
             <div className="text-xl font-bold text-blue-600">
-              {formatNumber(results.flexuralRigidity, 'N·m²', 2)}
+              {format(results.flexuralRigidity, 'flexuralRigidity')}
             </div>
             <div className="text-xs text-gray-500 mt-2">
-              Beam's stiffness to bending
+              Beam's stiffness to bending{results.segmentProperties && ' (averaged over the length)'}
             </div>
             <div className="text-[10px] text-gray-400 mt-1">
               Used in designing beams/shafts to meet stiffness criteria
@@ -70,28 +337,67 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
           <div className="bg-green-50 rounded-lg p-4 border border-green-200">
             <div className="text-sm text-gray-600 mb-1">Mass per Unit Length (m = ρA)</div>
             <div className="text-xl font-bold text-green-600">
-              {formatNumber(results.massPerUnitLength, 'kg/m', 4)}
+              {format(results.massPerUnitLength, 'massPerLength')}
             </div>
             <div className="text-xs text-gray-500 mt-2">
-              How heavy the beam is along its length
+              How heavy the beam is along its length{results.segmentProperties && ' (averaged)'}
             </div>
             <div className="text-[10px] text-gray-400 mt-1">
               Important for dynamic load estimation and modal mass
             </div>
           </div>
 
+          {/* Foundation frequency */}
+          {results.foundationFrequency !== null && (
+            <div className="bg-amber-50 rounded-lg p-4 border border-amber-200">
+              <div className="text-sm text-gray-600 mb-1">Foundation Frequency (√(k/ρA)/2π)</div>
+              <div className="text-xl font-bold text-amber-600">
+                {results.foundationFrequency.toFixed(2)} Hz
+              </div>
+              <div className="text-xs text-gray-500 mt-2">
+                A rigid beam bouncing on the foundation; no mode lies much below it
+              </div>
+              <div className="text-[10px] text-gray-400 mt-1">
+                For a uniform Euler-Bernoulli beam each frequency becomes √(f² + f_k²) of its unsupported value
+              </div>
+            </div>
+          )}
+
+          {/* Buckling */}
+          {results.buckling && results.buckling.length > 0 && (
+            <div className="bg-red-50 rounded-lg p-4 border border-red-200">
+              <div className="text-sm text-gray-600 mb-1">Critical Buckling Load (P_cr)</div>
+              <div className="text-xl font-bold text-red-600">
+                {format(results.buckling[0].criticalLoad, 'force')}
+              </div>
+              <div className="text-xs text-gray-500 mt-2">
+                Effective length factor K = {results.buckling[0].effectiveLengthFactor.toFixed(3)}
+                {results.axialLoad < 0 &&
+                  `; the applied compression is ${formatNumber(
+                    (-100 * results.axialLoad) / results.buckling[0].criticalLoad,
+                    3
+                  )}% of it`}
+              </div>
+              <div className="text-[10px] text-gray-400 mt-1">
+                {results.axialLoad <= -results.buckling[0].criticalLoad
+                  ? 'The applied compression buckles the beam; frequencies and static results are not meaningful'
+                  : 'Compressive axial load at which the beam buckles (Euler load for a uniform beam)'}
+              </div>
+            </div>
+          )}
+
           {/* Static Deflection */}
           {results.staticDeflection && (
             <div className="bg-purple-50 rounded-lg p-4 border border-purple-200">
               <div className="text-sm text-gray-600 mb-1">Max Static Deflection (y_max)</div>
               <div className="text-xl font-bold text-purple-600">
-                {formatNumber(results.staticDeflection.maxDeflection, 'm', 6)}
+                {format(results.staticDeflection.maxDeflection, 'deflection', 6)}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                Location: {results.staticDeflection.maxDeflectionLocation.toFixed(3)} m
+                Location: {format(results.staticDeflection.maxDeflectionLocation, 'length')}
               </div>
               <div className="text-xs text-gray-500 mt-1">
-                (Under 1000N point load)
+                {describeLoadCase(results.staticDeflection, unitSystem)}
               </div>
               <div className="text-[10px] text-gray-400 mt-1">
                 Used to check serviceability limits (building codes, machine tolerances)
@@ -103,23 +409,131 @@ export default function ResultsDisplay({ results }: ResultsDisplayProps) {
           <div className="bg-orange-50 rounded-lg p-4 border border-orange-200">
             <div className="text-sm text-gray-600 mb-1">Damping Coefficient (c)</div>
             <div className="text-xl font-bold text-orange-600">
-              {results.dampingCoefficient !== null 
-                ? formatNumber(results.dampingCoefficient, 'N·s/m', 2)
+              {fundamentalDamping
+                ? format(fundamentalDamping.dampingCoefficient, 'dampingCoefficient')
                 : 'Not calculated'
               }
             </div>
             <div className="text-xs text-gray-500 mt-2">
-              Energy lost per vibration cycle
+              {fundamentalDamping
+                ? `Mode ${fundamentalDamping.mode}, ζ = ${(fundamentalDamping.dampingRatio * 100).toFixed(2)}%`
+                : 'Energy lost per vibration cycle'
+              }
             </div>
             <div className="text-[10px] text-gray-400 mt-1">
-              {results.dampingCoefficient !== null 
-                ? 'Determines how quickly vibrations die out — key for ride comfort, stability'
-                : 'Enter damping ratio (ζ) in form to calculate (typical: 0.01-0.05)'
+              {fundamentalDamping
+                ? 'c = 2ζω·m of the fundamental elastic mode; the effective ζ of every mode is shown above'
+                : 'Choose a damping model in the form to calculate (typical ζ: 0.01-0.05)'
               }
             </div>
           </div>
         </div>
       </div>
+
+      {/* Strength Check */}
+      {results.staticDeflection && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Strength Check</h3>
+          {results.strengthCheck ? (
+            <div className="grid grid-cols-2 gap-4">
+              <div
+                className={`rounded-lg p-4 border ${
+                  results.strengthCheck.passed ? 'bg-green-50 border-green-200' : 'bg-red-50 border-red-200'
+                }`}
+              >
+                <div className="text-sm text-gray-600 mb-1">Safety Factor (yield)</div>
+                <div
+                  className={`text-2xl font-bold ${results.strengthCheck.passed ? 'text-green-600' : 'text-red-600'}`}
+                >
+                  {formatSafetyFactor(results.strengthCheck.safetyFactor)}{' '}
+                  <span className="text-base">{results.strengthCheck.passed ? 'PASS' : 'FAIL'}</span>
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Required: {results.strengthCheck.requiredSafetyFactor.toFixed(2)}
+                </div>
+                <div className="text-xs text-gray-500 mt-1">
+                  Critical section: x = {format(results.strengthCheck.criticalLocation, 'length')} (
+                  {results.strengthCheck.criticalStress})
+                </div>
+                {results.strengthCheck.ultimateSafetyFactor !== null && (
+                  <div className="text-xs text-gray-500 mt-1">
+                    Against ultimate strength: {formatSafetyFactor(results.strengthCheck.ultimateSafetyFactor)}
+                  </div>
+                )}
+              </div>
+              <div className="bg-gray-50 rounded-lg p-4 border border-gray-200 space-y-2">
+                <div>
+                  <div className="text-sm text-gray-600">Max Bending Stress (σ = M·c/I)</div>
+                  <div className="text-lg font-semibold text-gray-800">
+                    {format(results.strengthCheck.maxBendingStress, 'stress')}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    at x = {format(results.strengthCheck.maxBendingStressLocation, 'length')}, safety factor{' '}
+                    {formatSafetyFactor(results.strengthCheck.bendingSafetyFactor)}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-sm text-gray-600">Max Shear Stress (τ = V·Q/(I·b))</div>
+                  <div className="text-lg font-semibold text-gray-800">
+                    {format(results.strengthCheck.maxShearStress, 'stress')}
+                  </div>
+                  <div className="text-xs text-gray-500">
+                    at x = {format(results.strengthCheck.maxShearStressLocation, 'length')}, safety factor{' '}
+                    {formatSafetyFactor(results.strengthCheck.shearSafetyFactor)}
+                  </div>
+                </div>
+              </div>
+              <p className="col-span-2 text-[10px] text-gray-400">
+                Bending stress is checked against σy at the extreme fibre and shear stress against σy/√3 (von Mises)
+                at the neutral axis
+              </p>
+            </div>
+          ) : (
+            <p className="text-sm text-gray-500">
+              Enter a yield strength{results.segmentProperties && ' for every segment'} to check the beam against
+              the load case
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Support Reactions */}
+      {results.staticDeflection && results.staticDeflection.reactions.length > 0 && (
+        <div className="bg-white rounded-lg shadow-sm p-6">
+          <h3 className="text-lg font-semibold text-gray-800 mb-4">Support Reactions</h3>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-600 border-b border-gray-200">
+                  <th className="py-2 pr-4 font-medium">Support</th>
+                  <th className="py-2 pr-4 font-medium">Force R ({unitSymbol('force', unitSystem)})</th>
+                  <th className="py-2 font-medium">Moment ({unitSymbol('moment', unitSystem)})</th>
+                </tr>
+              </thead>
+              <tbody>
+                {results.staticDeflection.reactions.map((reaction) => (
+                  <tr key={reaction.position} className="border-b border-gray-100 text-gray-700">
+                    <td className="py-1 pr-4">
+                      <span className="capitalize">{reaction.condition}</span> at x = {format(reaction.position, 'length')}
+                    </td>
+                    <td className="py-1 pr-4">{reaction.force !== null ? formatNumber(toDisplay(reaction.force, 'force', unitSystem)) : '-'}</td>
+                    <td className="py-1">
+                      {reaction.moment !== null ? formatNumber(toDisplay(reaction.moment, 'moment', unitSystem)) : '-'}
+                      {reaction.condition === 'fixed' && <span className="text-xs text-gray-400"> (fixed-end moment)</span>}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-gray-500 mt-3">
+            Reactions act on the beam with the same sign convention as the loads; together
+            {results.staticDeflection.restraintForce !== 0 &&
+              ` with the ${format(results.staticDeflection.restraintForce, 'force')} from the springs and foundation`}{' '}
+            they balance the net load of {format(results.staticDeflection.totalLoad, 'force')}
+          </p>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,337 @@
+'use client';
+
+import { BeamProperties } from '@/lib/beamAnalysis';
+import {
+  CrossSection,
+  SectionType,
+  sectionTypes,
+  sectionFields,
+  createDefaultSection,
+  getSectionValue,
+  setSectionValue,
+} from '@/lib/crossSections';
+import { BeamSegment, createSegment, isValidSegments } from '@/lib/segments';
+import { Material, applyMaterial } from '@/lib/materials';
+import { UnitSystem, unitSymbol } from '@/lib/units';
+import MaterialPicker from '@/components/MaterialPicker';
+import UnitInput from '@/components/UnitInput';
+
+interface SegmentEditorProps {
+  properties: BeamProperties;
+  customMaterials: Material[];
+  unitSystem: UnitSystem;
+  onChange: (properties: BeamProperties) => void;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+function SectionInputs({
+  section,
+  unitSystem,
+  onChange,
+}: {
+  section: CrossSection;
+  unitSystem: UnitSystem;
+  onChange: (section: CrossSection) => void;
+}) {
+  return (
+    <>
+      {sectionFields[section.type].map((field) => (
+        <div key={field.key}>
+          <label className="block text-xs text-gray-600 mb-1">
+            {field.label} ({unitSymbol(field.quantity, unitSystem)})
+          </label>
+          <UnitInput
+            value={getSectionValue(section, field.key)}
+            quantity={field.quantity}
+            unitSystem={unitSystem}
+            onChange={(value) => onChange(setSectionValue(section, field.key, value ?? 0))}
+            className={inputClassName}
+            min={0}
+          />
+        </div>
+      ))}
+    </>
+  );
+}
+
+export default function SegmentEditor({ properties, customMaterials, unitSystem, onChange }: SegmentEditorProps) {
+  const segments = properties.segments ?? [];
+  const enabled = segments.length > 0;
+
+  const updateSegments = (next: BeamSegment[] | undefined) => {
+    onChange({ ...properties, segments: next });
+  };
+
+  const updateSegment = (index: number, segment: BeamSegment) => {
+    updateSegments(segments.map((s, i) => (i === index ? segment : s)));
+  };
+
+  // Moving a boundary moves the neighbouring segment with it, so the beam stays covered
+  const updateEnd = (index: number, end: number) => {
+    updateSegments(
+      segments.map((s, i) => {
+        if (i === index) return { ...s, end };
+        if (i === index + 1) return { ...s, start: end };
+        return s;
+      })
+    );
+  };
+
+  // A new segment is made by splitting the last one in half
+  const addSegment = () => {
+    const last = segments[segments.length - 1];
+    const middle = (last.start + last.end) / 2;
+    updateSegments([...segments.slice(0, -1), { ...last, end: middle }, { ...last, start: middle }]);
+  };
+
+  // A removed segment is absorbed by its predecessor (or successor, for the first one)
+  const removeSegment = (index: number) => {
+    const removed = segments[index];
+    const next = segments.filter((_, i) => i !== index);
+    if (index > 0) {
+      next[index - 1] = { ...next[index - 1], end: removed.end };
+    } else {
+      next[0] = { ...next[0], start: removed.start };
+    }
+    updateSegments(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <h3 className="text-lg font-semibold text-gray-800">Beam Segments</h3>
+        <label className="flex items-center gap-2 text-sm text-gray-700">
+          <input
+            type="checkbox"
+            checked={enabled}
+            onChange={(e) =>
+              updateSegments(
+                e.target.checked
+                  ? [
+                      {
+                        ...createSegment(0, properties.length, properties.section, properties.youngsModulus, properties.density),
+                        poissonsRatio: properties.poissonsRatio,
+                        shearModulus: properties.shearModulus,
+                        yieldStrength: properties.yieldStrength,
+                        ultimateStrength: properties.ultimateStrength,
+                      },
+                    ]
+                  : undefined
+              )
+            }
+          />
+          Non-uniform beam
+        </label>
+      </div>
+
+      {!enabled && (
+        <p className="text-xs text-gray-500">
+          Enable to build the beam from stepped or tapered segments, each with its own section and material
+          (analysed with finite elements)
+        </p>
+      )}
+
+      {segments.map((segment, index) => (
+        <div key={index} className="border border-gray-200 rounded-lg p-3 space-y-3">
+          <div className="flex justify-between items-center">
+            <span className="text-sm font-semibold text-gray-700">Segment {index + 1}</span>
+            {segments.length > 1 && (
+              <button
+                type="button"
+                onClick={() => removeSegment(index)}
+                className="text-xs text-red-600 hover:text-red-800"
+              >
+                Remove
+              </button>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Start ({unitSymbol('length', unitSystem)})</label>
+              <UnitInput
+                value={segment.start}
+                quantity="length"
+                unitSystem={unitSystem}
+                onChange={() => undefined}
+                disabled
+                className={`${inputClassName} bg-gray-50`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">End ({unitSymbol('length', unitSystem)})</label>
+              <UnitInput
+                value={segment.end}
+                quantity="length"
+                unitSystem={unitSystem}
+                onChange={(value) => updateEnd(index, value ?? 0)}
+                className={inputClassName}
+                min={0}
+              />
+            </div>
+            <div className="col-span-2">
+              <label className="block text-xs text-gray-600 mb-1">Cross-Section</label>
+              <select
+                value={segment.section.type}
+                onChange={(e) => {
+                  const section = createDefaultSection(e.target.value as SectionType);
+                  updateSegment(index, { ...segment, section, endSection: segment.endSection && section });
+                }}
+                className={`${inputClassName} bg-white`}
+              >
+                {sectionTypes.map((type) => (
+                  <option key={type.value} value={type.value}>
+                    {type.label}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <SectionInputs
+              section={segment.section}
+              unitSystem={unitSystem}
+              onChange={(section) => updateSegment(index, { ...segment, section })}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-xs text-gray-700">
+            <input
+              type="checkbox"
+              checked={segment.endSection !== undefined}
+              onChange={(e) =>
+                updateSegment(index, { ...segment, endSection: e.target.checked ? segment.section : undefined })
+              }
+            />
+            Linear taper to a different section at the end
+          </label>
+          {segment.endSection && (
+            <div className="grid grid-cols-2 gap-3 pl-3 border-l-2 border-primary-200">
+              <SectionInputs
+                section={segment.endSection}
+                unitSystem={unitSystem}
+                onChange={(endSection) => updateSegment(index, { ...segment, endSection })}
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            <div className="col-span-2">
+              <label className="block text-xs text-gray-600 mb-1">Material</label>
+              <MaterialPicker
+                values={segment}
+                customMaterials={customMaterials}
+                onSelect={(material) => updateSegment(index, applyMaterial(segment, material))}
+                className={`${inputClassName} bg-white`}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Young's Modulus ({unitSymbol('modulus', unitSystem)})
+              </label>
+              <UnitInput
+                value={segment.youngsModulus}
+                quantity="modulus"
+                unitSystem={unitSystem}
+                onChange={(value) => updateSegment(index, { ...segment, youngsModulus: value ?? 0 })}
+                className={inputClassName}
+                min={0}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Density ({unitSymbol('density', unitSystem)})</label>
+              <UnitInput
+                value={segment.density}
+                quantity="density"
+                unitSystem={unitSystem}
+                onChange={(value) => updateSegment(index, { ...segment, density: value ?? 0 })}
+                className={inputClassName}
+                min={0}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">Poisson's Ratio (ν)</label>
+              <input
+                type="number"
+                value={segment.poissonsRatio ?? ''}
+                onChange={(e) =>
+                  updateSegment(index, {
+                    ...segment,
+                    poissonsRatio: e.target.value === '' ? undefined : parseFloat(e.target.value),
+                  })
+                }
+                className={inputClassName}
+                min="0"
+                max="0.5"
+                step="0.01"
+                placeholder="0.3"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Shear Modulus G ({unitSymbol('modulus', unitSystem)})
+              </label>
+              <UnitInput
+                value={segment.shearModulus}
+                quantity="modulus"
+                unitSystem={unitSystem}
+                onChange={(value) => updateSegment(index, { ...segment, shearModulus: value })}
+                optional
+                className={inputClassName}
+                min={0}
+                placeholderValue={segment.youngsModulus / (2 * (1 + (segment.poissonsRatio ?? 0.3)))}
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Yield Strength σy ({unitSymbol('stress', unitSystem)})
+              </label>
+              <UnitInput
+                value={segment.yieldStrength}
+                quantity="stress"
+                unitSystem={unitSystem}
+                onChange={(value) => updateSegment(index, { ...segment, yieldStrength: value })}
+                optional
+                className={inputClassName}
+                min={0}
+                placeholder="optional"
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-gray-600 mb-1">
+                Ultimate Strength σu ({unitSymbol('stress', unitSystem)})
+              </label>
+              <UnitInput
+                value={segment.ultimateStrength}
+                quantity="stress"
+                unitSystem={unitSystem}
+                onChange={(value) => updateSegment(index, { ...segment, ultimateStrength: value })}
+                optional
+                className={inputClassName}
+                min={0}
+                placeholder="optional"
+              />
+            </div>
+          </div>
+        </div>
+      ))}
+
+      {enabled && (
+        <button
+          type="button"
+          onClick={addSegment}
+          className="w-full px-3 py-2 text-sm rounded-md border border-dashed border-primary-300 text-primary-700 hover:bg-primary-50"
+        >
+          + Split last segment
+        </button>
+      )}
+
+      {enabled && !isValidSegments(segments, properties.length) && (
+        <p className="text-xs text-red-600">
+          Segments must run in order from 0 to the beam length ({properties.length} m) without gaps, with valid
+          sections and positive material properties
+        </p>
+      )}
+    </div>
+  );
+}
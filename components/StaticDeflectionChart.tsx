@@ -1,48 +1,85 @@
 'use client';
 
-import { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { useMemo, useRef } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceLine,
+  ReferenceArea,
+} from 'recharts';
 import { StaticDeflection } from '@/lib/beamAnalysis';
+import { describeLoad } from '@/lib/loads';
+import { ExportHeader, staticDeflectionColumns } from '@/lib/export';
+import { UnitSystem, formatNumber, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import ExportButtons from '@/components/ExportButtons';
 
 interface StaticDeflectionChartProps {
   staticDeflection: StaticDeflection;
+  unitSystem: UnitSystem;
+  exportHeader: ExportHeader;
 }
 
-export default function StaticDeflectionChart({ staticDeflection }: StaticDeflectionChartProps) {
+export default function StaticDeflectionChart({ staticDeflection, unitSystem, exportHeader }: StaticDeflectionChartProps) {
+  const chartRef = useRef<HTMLDivElement>(null);
+  const lengthUnit = unitSymbol('length', unitSystem);
+  const deflectionUnit = unitSymbol('deflection', unitSystem);
+
+  // Plotted in display units so that axes and tooltips follow the unit system
   const chartData = useMemo(() => {
     return staticDeflection.x.map((x, index) => ({
-      x: Number(x.toFixed(4)),
-      deflection: staticDeflection.y[index],
+      x: Number(toDisplay(x, 'length', unitSystem).toFixed(4)),
+      deflection: toDisplay(staticDeflection.y[index], 'deflection', unitSystem),
     }));
-  }, [staticDeflection]);
+  }, [staticDeflection, unitSystem]);
 
   // Calculate proper domain for Y-axis
   const yDomain = useMemo(() => {
-    const allY = staticDeflection.y;
+    const allY = chartData.map((point) => point.deflection);
     const minY = Math.min(...allY);
     const maxY = Math.max(...allY);
     const padding = (maxY - minY) * 0.1 || Math.abs(maxY) * 0.1 || 1e-6;
     return [minY - padding, maxY + padding];
-  }, [staticDeflection.y]);
+  }, [chartData]);
 
   // Calculate proper domain for X-axis
   const xDomain = useMemo(() => {
-    const allX = staticDeflection.x;
+    const allX = chartData.map((point) => point.x);
     const minX = Math.min(...allX);
     const maxX = Math.max(...allX);
     const padding = (maxX - minX) * 0.02 || 0.01;
     return [Math.max(0, minX - padding), maxX + padding];
-  }, [staticDeflection.x]);
+  }, [chartData]);
+
+  const position = (value: number) => toDisplay(value, 'length', unitSystem);
+  const magnitude = (value: number, quantity: 'force' | 'moment' | 'distributedLoad') =>
+    formatNumber(toDisplay(value, quantity, unitSystem), 3);
 
   return (
-    <div className="w-full h-[400px] p-4">
+    <div ref={chartRef} className="w-full h-[400px] p-4">
       <div className="mb-4">
-        <h3 className="text-lg font-semibold text-gray-800">Static Deflection (y(x))</h3>
+        <div className="flex justify-between items-center">
+          <h3 className="text-lg font-semibold text-gray-800">Static Deflection (y(x))</h3>
+          <ExportButtons
+            header={exportHeader}
+            fileName={`${exportHeader.beamType}-static-deflection`}
+            csv={() => staticDeflectionColumns(staticDeflection)}
+            chart={chartRef}
+          />
+        </div>
         <p className="text-sm text-gray-500 mt-1">
-          Maximum deflection: {staticDeflection.maxDeflection.toFixed(6)} m at x = {staticDeflection.maxDeflectionLocation.toFixed(3)} m
+          Maximum deflection: {formatQuantity(staticDeflection.maxDeflection, 'deflection', unitSystem, 6)} at x ={' '}
+          {formatQuantity(staticDeflection.maxDeflectionLocation, 'length', unitSystem)}
         </p>
         <p className="text-xs text-gray-400 mt-1">
-          (Under 1000N point load)
+          {staticDeflection.loads.length === 0
+            ? 'No loads applied'
+            : `Under ${staticDeflection.loads.map((load) => describeLoad(load, unitSystem)).join('; ')} (net force ${formatQuantity(staticDeflection.totalLoad, 'force', unitSystem)})`}
         </p>
       </div>
       <ResponsiveContainer width="100%" height="100%">
@@ -55,7 +92,7 @@ export default function StaticDeflectionChart({ staticDeflection }: StaticDeflec
             dataKey="x" 
             type="number"
             domain={xDomain}
-            label={{ value: 'Length (m)', position: 'insideBottom', offset: -5 }}
+            label={{ value: `Length (${lengthUnit})`, position: 'insideBottom', offset: -5 }}
             stroke="#6b7280"
             tickFormatter={(value) => value.toFixed(2)}
             allowDecimals={true}
@@ -63,25 +100,53 @@ export default function StaticDeflectionChart({ staticDeflection }: StaticDeflec
           <YAxis 
             type="number"
             domain={yDomain}
-            label={{ value: 'Deflection (m)', angle: -90, position: 'insideLeft' }}
+            label={{ value: `Deflection (${deflectionUnit})`, angle: -90, position: 'insideLeft' }}
             stroke="#6b7280"
             allowDecimals={true}
-            tickFormatter={(value) => {
-              if (Math.abs(value) < 1e-6) return `${(value * 1e6).toFixed(2)} μm`;
-              if (Math.abs(value) < 1e-3) return `${(value * 1e3).toFixed(3)} mm`;
-              return `${value.toFixed(4)} m`;
-            }}
+            tickFormatter={(value) => formatNumber(value, 3)}
           />
           <Tooltip 
             contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
-            formatter={(value: number) => {
-              if (Math.abs(value) < 1e-6) return `${(value * 1e6).toFixed(4)} μm`;
-              if (Math.abs(value) < 1e-3) return `${(value * 1e3).toFixed(4)} mm`;
-              return `${value.toFixed(6)} m`;
-            }}
-            labelFormatter={(label) => `Length: ${Number(label).toFixed(3)} m`}
+            formatter={(value: number) => `${formatNumber(value, 6)} ${deflectionUnit}`}
+            labelFormatter={(label) => `Length: ${Number(label).toFixed(3)} ${lengthUnit}`}
           />
           <Legend />
+          {/* Load markers: lines at concentrated loads, shaded spans under distributed ones */}
+          {staticDeflection.loads.map((load, index) =>
+            load.type === 'point' || load.type === 'moment' ? (
+              <ReferenceLine
+                key={index}
+                x={position(load.position)}
+                stroke={load.type === 'point' ? '#dc2626' : '#2563eb'}
+                strokeDasharray="4 3"
+                label={{
+                  value:
+                    load.type === 'point'
+                      ? `${magnitude(load.magnitude, 'force')} ${unitSymbol('force', unitSystem)}`
+                      : `${magnitude(load.magnitude, 'moment')} ${unitSymbol('moment', unitSystem)}`,
+                  position: 'top',
+                  fontSize: 10,
+                }}
+              />
+            ) : (
+              <ReferenceArea
+                key={index}
+                x1={position(load.start)}
+                x2={position(load.end)}
+                fill="#f97316"
+                fillOpacity={0.08}
+                label={{
+                  value:
+                    (load.type === 'uniform'
+                      ? magnitude(load.magnitude, 'distributedLoad')
+                      : `${magnitude(load.startMagnitude, 'distributedLoad')} → ${magnitude(load.endMagnitude, 'distributedLoad')}`) +
+                    ` ${unitSymbol('distributedLoad', unitSystem)}`,
+                  position: 'insideTop',
+                  fontSize: 10,
+                }}
+              />
+            )
+          )}
           <Line 
             type="monotone"
             dataKey="deflection"
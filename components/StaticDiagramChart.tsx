@@ -0,0 +1,180 @@
+'use client';
+
+import { useMemo } from 'react';
+import {
+  LineChart,
+  Line,
+  XAxis,
+  YAxis,
+  CartesianGrid,
+  Tooltip,
+  Legend,
+  ResponsiveContainer,
+  ReferenceDot,
+  ReferenceLine,
+} from 'recharts';
+import { StaticDeflection, StaticPeak } from '@/lib/beamAnalysis';
+import { Quantity, UnitSystem, formatNumber, toDisplay, unitSymbol } from '@/lib/units';
+
+export type StaticDiagram = 'slope' | 'shear' | 'moment' | 'stress';
+
+interface StaticDiagramChartProps {
+  staticDeflection: StaticDeflection;
+  diagram: StaticDiagram;
+  unitSystem: UnitSystem;
+}
+
+interface DiagramConfig {
+  title: string;
+  name: string;
+  quantity: Quantity | null; // null for slope, which is in radians in every unit system
+  color: string;
+  values: (staticDeflection: StaticDeflection) => number[];
+  peak: (staticDeflection: StaticDeflection) => StaticPeak;
+  description: string;
+}
+
+const diagramConfigs: Record<StaticDiagram, DiagramConfig> = {
+  slope: {
+    title: 'Slope (θ(x))',
+    name: 'Slope',
+    quantity: null,
+    color: '#0891b2',
+    values: (s) => s.slope,
+    peak: (s) => s.peakSlope,
+    description:
+      'Rotation of the cross-section (the slope of the deflection curve for Euler-Bernoulli). Limited at bearings, gears and couplings.',
+  },
+  shear: {
+    title: 'Shear Force (V(x))',
+    name: 'Shear Force',
+    quantity: 'force',
+    color: '#dc2626',
+    values: (s) => s.shearForce,
+    peak: (s) => s.peakShearForce,
+    description: 'V = dM/dx. Jumps at point loads and supports; sizes webs, welds and bolts.',
+  },
+  moment: {
+    title: 'Bending Moment (M(x))',
+    name: 'Bending Moment',
+    quantity: 'moment',
+    color: '#2563eb',
+    values: (s) => s.bendingMoment,
+    peak: (s) => s.peakBendingMoment,
+    description: 'M = EI·dθ/dx. Jumps at applied moments; its peak usually governs the section size.',
+  },
+  stress: {
+    title: 'Bending Stress (σ(x) = M·c/I)',
+    name: 'Bending Stress',
+    quantity: 'stress',
+    color: '#ea580c',
+    values: (s) => s.stress,
+    peak: (s) => s.peakStress,
+    description: 'Stress at the extreme fibre of the section. Compare with the yield or allowable stress of the material.',
+  },
+};
+
+export default function StaticDiagramChart({ staticDeflection, diagram, unitSystem }: StaticDiagramChartProps) {
+  const config = diagramConfigs[diagram];
+  const { quantity } = config;
+  const unit = quantity ? unitSymbol(quantity, unitSystem) : 'rad';
+  const lengthUnit = unitSymbol('length', unitSystem);
+
+  // Values and positions in display units, so that axes and tooltips follow the unit system
+  const values = useMemo(() => {
+    const siValues = config.values(staticDeflection);
+    return quantity ? siValues.map((value) => toDisplay(value, quantity, unitSystem)) : siValues;
+  }, [config, quantity, staticDeflection, unitSystem]);
+  const siPeak = config.peak(staticDeflection);
+  const peak = {
+    value: quantity ? toDisplay(siPeak.value, quantity, unitSystem) : siPeak.value,
+    location: toDisplay(siPeak.location, 'length', unitSystem),
+  };
+  const formatValue = (value: number, digits: number) => `${formatNumber(value, digits)} ${unit}`;
+
+  const chartData = useMemo(() => {
+    return staticDeflection.x.map((x, index) => ({
+      x: Number(toDisplay(x, 'length', unitSystem).toFixed(4)),
+      value: values[index],
+    }));
+  }, [staticDeflection, values, unitSystem]);
+
+  // Include zero so the diagram is read against its baseline
+  const yDomain = useMemo(() => {
+    const minY = Math.min(0, ...values);
+    const maxY = Math.max(0, ...values);
+    const padding = (maxY - minY) * 0.1 || 1e-6;
+    return [minY - padding, maxY + padding];
+  }, [values]);
+
+  const xDomain = useMemo(() => {
+    const allX = chartData.map((point) => point.x);
+    const minX = Math.min(...allX);
+    const maxX = Math.max(...allX);
+    const padding = (maxX - minX) * 0.02 || 0.01;
+    return [Math.max(0, minX - padding), maxX + padding];
+  }, [chartData]);
+
+  return (
+    <div className="w-full h-[400px] p-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">{config.title}</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Peak: {formatValue(peak.value, 3)} at x = {peak.location.toFixed(3)} {lengthUnit}
+        </p>
+      </div>
+      <ResponsiveContainer width="100%" height="100%">
+        <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 60 }}>
+          <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+          <XAxis
+            dataKey="x"
+            type="number"
+            domain={xDomain}
+            label={{ value: `Length (${lengthUnit})`, position: 'insideBottom', offset: -5 }}
+            stroke="#6b7280"
+            tickFormatter={(value) => value.toFixed(2)}
+            allowDecimals={true}
+          />
+          <YAxis
+            type="number"
+            domain={yDomain}
+            label={{ value: `${config.name} (${unit})`, angle: -90, position: 'insideLeft' }}
+            stroke="#6b7280"
+            allowDecimals={true}
+            tickFormatter={(value) => formatNumber(value, 3)}
+          />
+          <Tooltip
+            contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+            formatter={(value: number) => formatValue(value, 4)}
+            labelFormatter={(label) => `Length: ${Number(label).toFixed(3)} ${lengthUnit}`}
+          />
+          <Legend />
+          <ReferenceLine y={0} stroke="#9ca3af" />
+          <ReferenceLine x={peak.location} stroke={config.color} strokeDasharray="4 3" />
+          <ReferenceDot
+            x={Number(peak.location.toFixed(4))}
+            y={peak.value}
+            r={5}
+            fill={config.color}
+            stroke="#fff"
+            label={{ value: formatValue(peak.value, 3), position: 'top', fontSize: 11 }}
+          />
+          <Line
+            type="linear"
+            dataKey="value"
+            stroke={config.color}
+            strokeWidth={2}
+            dot={false}
+            name={config.name}
+            isAnimationActive={false}
+          />
+        </LineChart>
+      </ResponsiveContainer>
+      <div className="mt-2 text-xs text-gray-500">
+        <p>
+          💡 <strong>{config.name}:</strong> {config.description}
+        </p>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,430 @@
+'use client';
+
+import { useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer, Brush } from 'recharts';
+import { ModeShape } from '@/lib/beamAnalysis';
+import { DampingModel, describeDampingModel, modalDampingRatios } from '@/lib/damping';
+import {
+  ForceHistory,
+  ForceHistoryType,
+  ForceSample,
+  TransientQuantity,
+  calculateTransientResponse,
+  defaultTransientDuration,
+  forceHistoryTypes,
+  parseForceHistoryCsv,
+  transientQuantities,
+} from '@/lib/transientResponse';
+import { UnitSystem, formatNumber, formatQuantity, toDisplay, unitSymbol } from '@/lib/units';
+import UnitInput from '@/components/UnitInput';
+
+interface TransientResponseChartProps {
+  modeShapes: ModeShape[];
+  naturalFrequencies: number[]; // Hz, one per mode shape
+  damping: DampingModel | undefined;
+  length: number;
+  unitSystem: UnitSystem;
+}
+
+const inputClassName =
+  'w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-primary-500';
+
+const colors = ['#ef4444', '#2563eb', '#059669', '#d97706'];
+
+// Away from the nodes of the lowest modes of every beam type
+const DEFAULT_POINT = 0.7;
+
+export default function TransientResponseChart({
+  modeShapes,
+  naturalFrequencies,
+  damping,
+  length,
+  unitSystem,
+}: TransientResponseChartProps) {
+  const fundamental = naturalFrequencies.find((frequency) => frequency > 0) ?? 1;
+  const [type, setType] = useState<ForceHistoryType>('half-sine');
+  const [amplitude, setAmplitude] = useState(1000);
+  const [impulse, setImpulse] = useState(10);
+  const [pulseDuration, setPulseDuration] = useState(Number((0.5 / fundamental).toPrecision(3)));
+  const [samples, setSamples] = useState<ForceSample[] | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [drivePoint, setDrivePoint] = useState(DEFAULT_POINT * length);
+  const [responsePoints, setResponsePoints] = useState<number[]>([DEFAULT_POINT * length]);
+  const [duration, setDuration] = useState<number | undefined>(undefined);
+  const [quantity, setQuantity] = useState<TransientQuantity>('displacement');
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const dampingRatios = useMemo(() => modalDampingRatios(damping, naturalFrequencies), [damping, naturalFrequencies]);
+  const quantityOption = transientQuantities.find((option) => option.value === quantity) ?? transientQuantities[0];
+  const { label: quantityLabel, quantity: unitQuantity } = quantityOption;
+  const unit = unitSymbol(unitQuantity, unitSystem);
+  const forceUnit = unitSymbol('force', unitSystem);
+
+  const history: ForceHistory = useMemo(
+    () => ({
+      type,
+      amplitude: type === 'impulse' ? impulse : amplitude,
+      duration: pulseDuration,
+      ...(samples && { samples }),
+    }),
+    [type, impulse, amplitude, pulseDuration, samples]
+  );
+  const defaultDuration = defaultTransientDuration(naturalFrequencies, history);
+
+  const response = useMemo(() => {
+    const clamp = (position: number) => Math.min(Math.max(position, 0), length);
+    return calculateTransientResponse(
+      modeShapes,
+      naturalFrequencies,
+      dampingRatios,
+      history,
+      clamp(drivePoint),
+      responsePoints.map(clamp),
+      duration ?? defaultDuration
+    );
+  }, [
+    modeShapes,
+    naturalFrequencies,
+    dampingRatios,
+    history,
+    drivePoint,
+    responsePoints,
+    duration,
+    defaultDuration,
+    length,
+  ]);
+
+  // Values in display units, so that axes and tooltips follow the unit system
+  const chartData = useMemo(() => {
+    if (!response) return [];
+    return response.time.map((time, i) => {
+      const data: Record<string, number> = {
+        time: Number(time.toPrecision(6)),
+        force: toDisplay(response.force[i], 'force', unitSystem),
+      };
+      response.points.forEach((point, j) => {
+        data[`point${j}`] = toDisplay(point[quantity][i], unitQuantity, unitSystem);
+      });
+      return data;
+    });
+  }, [response, quantity, unitQuantity, unitSystem]);
+
+  const importFile = async (file: File) => {
+    const parsed = parseForceHistoryCsv(await file.text());
+    if (!parsed) {
+      setMessage(`${file.name} is not a valid force history`);
+      return;
+    }
+    setSamples(parsed);
+    setMessage(`Loaded ${parsed.length} samples from ${file.name}`);
+  };
+
+  const pointLabel = (position: number) => `x = ${formatQuantity(position, 'length', unitSystem, 3)}`;
+
+  // The force history in words, for the printed chart whose controls are hidden
+  const forceDescription = (() => {
+    const force = formatQuantity(amplitude, 'force', unitSystem);
+    switch (type) {
+      case 'impulse':
+        return `Impulse of ${formatQuantity(impulse, 'impulse', unitSystem)}`;
+      case 'step':
+        return `Step force of ${force}`;
+      case 'half-sine':
+        return `Half-sine shock of ${force} lasting ${formatNumber(pulseDuration, 4)} s`;
+      case 'ramp':
+        return `Ramp to ${force} over ${formatNumber(pulseDuration, 4)} s`;
+      case 'csv':
+        return samples ? `Measured force history of ${samples.length} samples` : 'No force history loaded';
+    }
+  })();
+
+  return (
+    <div className="w-full p-4">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-800">Transient Response</h3>
+        <p className="text-sm text-gray-500 mt-1">
+          Force history at the drive point, response by modal superposition
+          {response && ` over ${response.modesUsed} of ${modeShapes.length} modes`}
+          {` (${describeDampingModel(damping)})`}
+        </p>
+      </div>
+
+      {/* The controls do not print, so the printed chart states their settings instead */}
+      <p className="hidden print:block text-sm text-gray-700 mb-3">
+        {forceDescription} at {pointLabel(Math.min(Math.max(drivePoint, 0), length))};{' '}
+        {quantityLabel.toLowerCase()} at{' '}
+        {responsePoints.map((position) => pointLabel(Math.min(Math.max(position, 0), length))).join(', ')} over{' '}
+        {formatNumber(duration ?? defaultDuration, 4)} s.
+      </p>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3 print:hidden">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Force History</label>
+          <select
+            value={type}
+            onChange={(e) => setType(e.target.value as ForceHistoryType)}
+            className={`${inputClassName} bg-white`}
+          >
+            {forceHistoryTypes.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+        </div>
+        {type === 'impulse' && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Impulse ({unitSymbol('impulse', unitSystem)})</label>
+            <UnitInput
+              value={impulse}
+              quantity="impulse"
+              unitSystem={unitSystem}
+              onChange={(value) => setImpulse(value ?? 0)}
+              className={inputClassName}
+            />
+          </div>
+        )}
+        {type !== 'impulse' && type !== 'csv' && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Force ({forceUnit})</label>
+            <UnitInput
+              value={amplitude}
+              quantity="force"
+              unitSystem={unitSystem}
+              onChange={(value) => setAmplitude(value ?? 0)}
+              className={inputClassName}
+            />
+          </div>
+        )}
+        {(type === 'half-sine' || type === 'ramp') && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">
+              {type === 'half-sine' ? 'Pulse Length' : 'Rise Time'} (s)
+            </label>
+            <input
+              type="number"
+              value={pulseDuration}
+              onChange={(e) => setPulseDuration(e.target.value === '' ? 0 : parseFloat(e.target.value))}
+              className={inputClassName}
+              min="0"
+              step="0.001"
+            />
+          </div>
+        )}
+        {type === 'csv' && (
+          <div>
+            <label className="block text-xs text-gray-600 mb-1">Force File</label>
+            <button
+              type="button"
+              onClick={() => fileInput.current?.click()}
+              className="w-full px-2 py-1 text-sm rounded-md border border-gray-300 text-gray-700 hover:bg-gray-50"
+            >
+              {samples ? 'Replace CSV' : 'Upload CSV'}
+            </button>
+            <input
+              ref={fileInput}
+              type="file"
+              accept="text/csv,.csv,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+          </div>
+        )}
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Duration (s)</label>
+          <input
+            type="number"
+            value={duration ?? ''}
+            onChange={(e) => setDuration(e.target.value === '' ? undefined : parseFloat(e.target.value))}
+            className={inputClassName}
+            min="0"
+            step="0.01"
+            placeholder={defaultDuration.toPrecision(3)}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-4 print:hidden">
+        <div>
+          <label className="block text-xs text-gray-600 mb-1">Drive Point ({unitSymbol('length', unitSystem)})</label>
+          <UnitInput
+            value={drivePoint}
+            quantity="length"
+            unitSystem={unitSystem}
+            onChange={(value) => setDrivePoint(value ?? 0)}
+            className={inputClassName}
+            min={0}
+          />
+        </div>
+        {responsePoints.map((position, index) => (
+          <div key={index}>
+            <label className="block text-xs mb-1" style={{ color: colors[index] }}>
+              Response Point {index + 1} ({unitSymbol('length', unitSystem)})
+            </label>
+            <div className="flex gap-1">
+              <UnitInput
+                value={position}
+                quantity="length"
+                unitSystem={unitSystem}
+                onChange={(value) =>
+                  setResponsePoints(responsePoints.map((p, i) => (i === index ? value ?? 0 : p)))
+                }
+                className={inputClassName}
+                min={0}
+              />
+              {responsePoints.length > 1 && (
+                <button
+                  type="button"
+                  onClick={() => setResponsePoints(responsePoints.filter((_, i) => i !== index))}
+                  className="px-2 text-sm text-gray-500 hover:text-red-600"
+                  aria-label={`Remove response point ${index + 1}`}
+                >
+                  ×
+                </button>
+              )}
+            </div>
+          </div>
+        ))}
+        {responsePoints.length < colors.length && (
+          <div className="flex items-end">
+            <button
+              type="button"
+              onClick={() => setResponsePoints([...responsePoints, length / 2])}
+              className="w-full px-2 py-1 text-sm rounded-md border border-dashed border-primary-300 text-primary-700 hover:bg-primary-50"
+            >
+              + Response Point
+            </button>
+          </div>
+        )}
+      </div>
+
+      <div className="flex items-center gap-3 mb-2 print:hidden">
+        <span className="text-xs text-gray-600">Plot</span>
+        <div className="flex rounded-md border border-gray-300 overflow-hidden">
+          {transientQuantities.map((option) => (
+            <button
+              key={option.value}
+              type="button"
+              onClick={() => setQuantity(option.value)}
+              className={`px-3 py-1 text-sm ${
+                quantity === option.value ? 'bg-primary-500 text-white' : 'bg-white text-gray-700 hover:bg-gray-50'
+              }`}
+            >
+              {option.label}
+            </button>
+          ))}
+        </div>
+        {message && <span className="text-xs text-gray-600">{message}</span>}
+      </div>
+
+      {!response && (
+        <div className="h-[360px] flex items-center justify-center">
+          <p className="text-gray-500">
+            {type === 'csv' && !samples
+              ? 'Upload a CSV file of time (s) and force (N) to see the response'
+              : 'Transient response needs a non-negative damping ratio in every mode and a positive duration'}
+          </p>
+        </div>
+      )}
+
+      {response && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-2 text-sm">
+            {response.points.map((point, index) => (
+              <div key={index}>
+                <span className="text-gray-600">Peak at {pointLabel(point.position)}: </span>
+                <span className="font-semibold">
+                  {formatQuantity(Math.max(...point[quantity].map(Math.abs)), unitQuantity, unitSystem, 3)}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="h-[400px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={chartData} margin={{ top: 5, right: 30, left: 20, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#e5e7eb" />
+                <XAxis
+                  dataKey="time"
+                  type="number"
+                  domain={['dataMin', 'dataMax']}
+                  label={{ value: 'Time (s)', position: 'insideBottom', offset: -5 }}
+                  stroke="#6b7280"
+                  tickFormatter={(value) => formatNumber(value, 3)}
+                  allowDecimals={true}
+                />
+                <YAxis
+                  yAxisId="response"
+                  type="number"
+                  domain={['auto', 'auto']}
+                  label={{ value: `${quantityLabel} (${unit})`, angle: -90, position: 'insideLeft' }}
+                  stroke="#6b7280"
+                  tickFormatter={(value) => formatNumber(value, 3)}
+                />
+                {type !== 'impulse' && (
+                  <YAxis
+                    yAxisId="force"
+                    orientation="right"
+                    type="number"
+                    domain={['auto', 'auto']}
+                    label={{ value: `Force (${forceUnit})`, angle: 90, position: 'insideRight' }}
+                    stroke="#9ca3af"
+                    tickFormatter={(value) => formatNumber(value, 3)}
+                  />
+                )}
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#fff', border: '1px solid #e5e7eb', borderRadius: '6px' }}
+                  formatter={(value: number, name: string) =>
+                    `${formatNumber(value, 5)} ${name === 'Force' ? forceUnit : unit}`
+                  }
+                  labelFormatter={(label) => `Time: ${formatNumber(Number(label), 4)} s`}
+                />
+                <Legend />
+                {type !== 'impulse' && (
+                  <Line
+                    yAxisId="force"
+                    type="linear"
+                    dataKey="force"
+                    name="Force"
+                    stroke="#9ca3af"
+                    strokeWidth={1.5}
+                    strokeDasharray="5 5"
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                )}
+                {response.points.map((point, index) => (
+                  <Line
+                    key={index}
+                    yAxisId="response"
+                    type="linear"
+                    dataKey={`point${index}`}
+                    name={pointLabel(point.position)}
+                    stroke={colors[index]}
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                ))}
+                <Brush dataKey="time" height={30} stroke="#8884d8" tickFormatter={(value) => formatNumber(value, 3)} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      <div className="mt-2 text-xs text-gray-500">
+        <p>
+          💡 <strong>{forceHistoryTypes.find((option) => option.value === type)?.label}:</strong>{' '}
+          {forceHistoryTypes.find((option) => option.value === type)?.description}.
+          {type === 'csv' && ' The file holds time (s) and force (N) columns; a header line is skipped.'} Each mode
+          is integrated exactly for a force varying linearly over each time step (Duhamel's integral); use the
+          slider at the bottom to zoom in on the time axis.
+        </p>
+      </div>
+    </div>
+  );
+}
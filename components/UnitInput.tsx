@@ -0,0 +1,53 @@
+'use client';
+
+import { Quantity, UnitSystem, formatNumber, fromDisplay, toDisplay } from '@/lib/units';
+
+interface UnitInputProps {
+  value: number | undefined; // SI
+  quantity: Quantity;
+  unitSystem: UnitSystem;
+  onChange: (value: number | undefined) => void; // SI; undefined when an optional field is cleared
+  optional?: boolean; // Clearing the field gives undefined rather than 0
+  placeholderValue?: number; // SI value shown greyed out while the field is empty
+  placeholder?: string; // Text shown instead when there is no placeholder value
+  className?: string;
+  disabled?: boolean;
+  min?: number; // SI
+}
+
+/**
+ * Number input that shows and accepts a value in the unit of the current system while reporting SI
+ */
+export default function UnitInput({
+  value,
+  quantity,
+  unitSystem,
+  onChange,
+  optional = false,
+  placeholderValue,
+  placeholder,
+  className,
+  disabled,
+  min,
+}: UnitInputProps) {
+  return (
+    <input
+      type="number"
+      value={value === undefined ? '' : toDisplay(value, quantity, unitSystem)}
+      onChange={(e) => {
+        if (e.target.value === '' && optional) {
+          onChange(undefined);
+        } else {
+          onChange(fromDisplay(parseFloat(e.target.value) || 0, quantity, unitSystem));
+        }
+      }}
+      className={className}
+      disabled={disabled}
+      min={min !== undefined ? toDisplay(min, quantity, unitSystem) : undefined}
+      step="any"
+      placeholder={
+        placeholderValue !== undefined ? formatNumber(toDisplay(placeholderValue, quantity, unitSystem), 3) : placeholder
+      }
+    />
+  );
+}
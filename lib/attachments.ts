@@ -0,0 +1,147 @@
+import { BeamType, rigidBodyLines } from './boundaryConditions';
+import { Quantity, UnitSystem, formatQuantity } from './units';
+
+export type AttachmentType = 'mass' | 'spring' | 'rotational-spring';
+
+// Concentrated items fixed to the beam at a position in meters from x = 0. Springs connect the beam
+// to the ground; one at x = 0 or x = L acts as an elastic restraint of that end.
+export type Attachment =
+  | { type: 'mass'; position: number; mass: number; rotaryInertia: number } // kg, kg·m² (0 neglects it)
+  | { type: 'spring'; position: number; stiffness: number } // N/m
+  | { type: 'rotational-spring'; position: number; stiffness: number }; // N·m/rad
+
+export interface AttachmentField {
+  key: string;
+  label: string; // Without the unit, which depends on the unit system
+  quantity: Quantity;
+}
+
+export const attachmentTypes: { value: AttachmentType; label: string }[] = [
+  { value: 'mass', label: 'Point Mass' },
+  { value: 'spring', label: 'Translational Spring' },
+  { value: 'rotational-spring', label: 'Rotational Spring' },
+];
+
+// Input fields for each attachment type, in display order
+export const attachmentFields: Record<AttachmentType, AttachmentField[]> = {
+  'mass': [
+    { key: 'position', label: 'Position', quantity: 'length' },
+    { key: 'mass', label: 'Mass', quantity: 'mass' },
+    { key: 'rotaryInertia', label: 'Rotary Inertia', quantity: 'massMomentOfInertia' },
+  ],
+  'spring': [
+    { key: 'position', label: 'Position', quantity: 'length' },
+    { key: 'stiffness', label: 'Stiffness', quantity: 'stiffness' },
+  ],
+  'rotational-spring': [
+    { key: 'position', label: 'Position', quantity: 'length' },
+    { key: 'stiffness', label: 'Stiffness', quantity: 'rotationalStiffness' },
+  ],
+};
+
+/**
+ * Returns a reasonable starting attachment of the given type: a mass at the end of the beam, or a
+ * spring at midspan
+ */
+export function createDefaultAttachment(type: AttachmentType, length: number): Attachment {
+  switch (type) {
+    case 'mass':
+      return { type, position: length, mass: 10, rotaryInertia: 0 };
+    case 'spring':
+      return { type, position: length / 2, stiffness: 1e5 };
+    case 'rotational-spring':
+      return { type, position: length / 2, stiffness: 1e4 };
+  }
+}
+
+/**
+ * Checks that an attachment lies on the beam and has no negative mass, inertia or stiffness
+ */
+export function isValidAttachment(attachment: Attachment, length: number): boolean {
+  const nonNegative = (value: number) => Number.isFinite(value) && value >= 0;
+  const onBeam = attachment.position >= 0 && attachment.position <= length;
+  switch (attachment.type) {
+    case 'mass':
+      return onBeam && nonNegative(attachment.mass) && nonNegative(attachment.rotaryInertia);
+    case 'spring':
+    case 'rotational-spring':
+      return onBeam && nonNegative(attachment.stiffness);
+  }
+}
+
+/**
+ * Reads a value of an attachment by field key (0 if the attachment has no such field)
+ */
+export function getAttachmentValue(attachment: Attachment, key: string): number {
+  const value = (attachment as unknown as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Returns a copy of the attachment with one value replaced
+ */
+export function setAttachmentValue(attachment: Attachment, key: string, value: number): Attachment {
+  return { ...attachment, [key]: value } as Attachment;
+}
+
+/**
+ * Rigid-body modes left once the springs are attached, as lines w = a + s·(x/L) given as [a, s] and
+ * scaled to a peak of +1. Each spring requires w(p) = 0 (translational) or s = 0 (rotational) of a
+ * remaining line; every condition that is not already met removes one line by elimination. An
+ * elastic foundation under the beam restrains every line.
+ */
+export function restrainedRigidBodyLines(
+  beamType: BeamType,
+  length: number,
+  attachments: Attachment[],
+  foundationModulus: number = 0
+): [number, number][] {
+  if (foundationModulus > 0) return [];
+
+  let lines = rigidBodyLines[beamType];
+  const conditions = attachments.flatMap((attachment): [number, number][] => {
+    if (attachment.type === 'mass' || attachment.stiffness <= 0) return [];
+    return attachment.type === 'spring' ? [[1, attachment.position / length]] : [[0, 1]];
+  });
+
+  let restrained = false;
+  conditions.forEach(([ca, cs]) => {
+    const values = lines.map(([a, s]) => ca * a + cs * s);
+    const pivot = values.reduce((best, value, i) => (Math.abs(value) > Math.abs(values[best]) ? i : best), 0);
+    if (lines.length === 0 || Math.abs(values[pivot]) < 1e-9) return;
+
+    const [pa, ps] = lines[pivot];
+    lines = lines
+      .map(([a, s], i): [number, number] => [a - (values[i] / values[pivot]) * pa, s - (values[i] / values[pivot]) * ps])
+      .filter((_, i) => i !== pivot);
+    restrained = true;
+  });
+  if (!restrained) return lines;
+
+  // A line peaks at one of the ends; the far end wins a tie
+  return lines.map(([a, s]) => {
+    const peak = Math.abs(a + s) >= Math.abs(a) ? a + s : a;
+    return [a / peak, s / peak];
+  });
+}
+
+/**
+ * Describes an attachment in a few words, e.g. "10.00 kg at 2.000 m"
+ */
+export function describeAttachment(attachment: Attachment, system: UnitSystem = 'si'): string {
+  const at = formatQuantity(attachment.position, 'length', system);
+  switch (attachment.type) {
+    case 'mass':
+      return attachment.rotaryInertia > 0
+        ? `${formatQuantity(attachment.mass, 'mass', system)} (${formatQuantity(
+            attachment.rotaryInertia,
+            'massMomentOfInertia',
+            system
+          )}) at ${at}`
+        : `${formatQuantity(attachment.mass, 'mass', system)} at ${at}`;
+    case 'spring':
+      return `${formatQuantity(attachment.stiffness, 'stiffness', system)} spring at ${at}`;
+    case 'rotational-spring':
+      return `${formatQuantity(attachment.stiffness, 'rotationalStiffness', system)} spring at ${at}`;
+  }
+}
@@ -0,0 +1,316 @@
+import { describe, expect, it } from 'vitest';
+import {
+  BeamProperties,
+  BeamType,
+  MAX_MODES,
+  analyseBeam,
+  calculateBeamAnalysis,
+  calculateFrequencyLoadCurve,
+} from './beamAnalysis';
+import { rigidBodyModeCount } from './boundaryConditions';
+import { calculateSectionProperties } from './crossSections';
+import { Load } from './loads';
+
+// A 2 m steel bar, 50 mm wide and 10 mm deep: slender enough for Euler-Bernoulli theory
+const steelBar: BeamProperties = {
+  length: 2,
+  section: { type: 'rectangle', width: 0.05, depth: 0.01 },
+  youngsModulus: 2.1e11,
+  density: 7850,
+};
+
+const { area, momentOfInertia } = calculateSectionProperties(steelBar.section);
+const EI = steelBar.youngsModulus * momentOfInertia;
+const rhoA = steelBar.density * area;
+
+// Lowest roots bL of the characteristic equation of each beam type (Blevins, Formulas for Natural
+// Frequency and Mode Shape, table 8-1)
+const frequencyConstants: Record<BeamType, number[]> = {
+  'cantilever': [1.875104, 4.694091, 7.854757, 10.995541],
+  'simply-supported': [Math.PI, 2 * Math.PI, 3 * Math.PI, 4 * Math.PI],
+  'fixed-fixed': [4.730041, 7.853205, 10.995608, 14.137165],
+  'fixed-pinned': [3.926602, 7.068583, 10.210176, 13.351768],
+  'free-free': [4.730041, 7.853205, 10.995608, 14.137165],
+  'pinned-free': [3.926602, 7.068583, 10.210176, 13.351768],
+  'fixed-guided': [2.365020, 5.497804, 8.639380, 11.780972],
+  'pinned-guided': [Math.PI / 2, (3 * Math.PI) / 2, (5 * Math.PI) / 2, (7 * Math.PI) / 2],
+};
+
+const beamTypes = Object.keys(frequencyConstants) as BeamType[];
+
+// ω = (bL)²·√(EI/(ρA·L⁴)), in Hz
+function closedFormFrequency(bL: number): number {
+  return (bL * bL * Math.sqrt(EI / (rhoA * Math.pow(steelBar.length, 4)))) / (2 * Math.PI);
+}
+
+// Relative agreement, for quantities whose magnitude varies between cases
+function expectRelativelyClose(actual: number, expected: number, tolerance: number) {
+  expect(Math.abs(actual / expected - 1)).toBeLessThan(tolerance);
+}
+
+function elasticFrequencies(results: ReturnType<typeof calculateBeamAnalysis>): number[] {
+  return results.naturalFrequencies.filter((_, index) => !results.modeShapes[index].rigidBody);
+}
+
+describe('closed-form natural frequencies', () => {
+  it.each(beamTypes)('finds the tabulated roots bL of a %s beam', (beamType) => {
+    const results = calculateBeamAnalysis(beamType, steelBar, 4);
+    const roots = results.modeShapes.filter((shape) => !shape.rigidBody).map((shape) => shape.bL);
+    roots.forEach((bL, index) => expect(bL).toBeCloseTo(frequencyConstants[beamType][index], 5));
+  });
+
+  it.each(beamTypes)('gives ω = (bL)²·√(EI/(ρA·L⁴)) for a %s beam', (beamType) => {
+    const frequencies = elasticFrequencies(calculateBeamAnalysis(beamType, steelBar, 4));
+    frequencies.forEach((frequency, index) =>
+      expectRelativelyClose(frequency, closedFormFrequency(frequencyConstants[beamType][index]), 1e-6)
+    );
+  });
+
+  it('approaches bL = (2n - 1)π/2 for the high modes of a cantilever', () => {
+    const roots = calculateBeamAnalysis('cantilever', steelBar, 20).modeShapes.map((shape) => shape.bL);
+    expect(roots[19]).toBeCloseTo((39 * Math.PI) / 2, 8);
+  });
+
+  it.each(beamTypes)('puts the rigid-body modes of a %s beam first, at zero frequency', (beamType) => {
+    const results = calculateBeamAnalysis(beamType, steelBar, 3);
+    const rigid = rigidBodyModeCount[beamType];
+    expect(results.modeShapes).toHaveLength(rigid + 3);
+    expect(results.modeShapes.map((shape) => shape.rigidBody)).toEqual([
+      ...Array<boolean>(rigid).fill(true),
+      ...Array<boolean>(3).fill(false),
+    ]);
+    expect(results.naturalFrequencies.slice(0, rigid)).toEqual(Array<number>(rigid).fill(0));
+  });
+
+  it('caps the total number of modes at MAX_MODES, rigid-body modes included', () => {
+    expect(calculateBeamAnalysis('free-free', steelBar, MAX_MODES).modeShapes).toHaveLength(MAX_MODES);
+    expect(calculateBeamAnalysis('cantilever', steelBar, MAX_MODES + 10).modeShapes).toHaveLength(MAX_MODES);
+  });
+});
+
+describe('finite-element solver', () => {
+  it.each(beamTypes)('agrees with the closed-form frequencies of a uniform %s beam', (beamType) => {
+    const analytical = elasticFrequencies(calculateBeamAnalysis(beamType, steelBar, 4));
+    const finiteElement = elasticFrequencies(
+      calculateBeamAnalysis(beamType, steelBar, 4, { solver: 'finite-element' })
+    );
+    expect(finiteElement).toHaveLength(4);
+    finiteElement.forEach((frequency, index) => expectRelativelyClose(frequency, analytical[index], 1e-3));
+  });
+
+  it('finds the same rigid-body modes as the closed form', () => {
+    const results = calculateBeamAnalysis('free-free', steelBar, 2, { solver: 'finite-element' });
+    expect(results.modeShapes.map((shape) => shape.rigidBody)).toEqual([true, true, false, false]);
+    results.naturalFrequencies.slice(0, 2).forEach((frequency) => expect(frequency).toBeCloseTo(0, 6));
+  });
+});
+
+describe('static deflection', () => {
+  const L = steelBar.length;
+  const P = 100; // N
+  const w = 100; // N/m
+  const uniform: Load = { type: 'uniform', start: 0, end: L, magnitude: w };
+
+  function staticDeflection(beamType: BeamType, loads: Load[]) {
+    return calculateBeamAnalysis(beamType, steelBar, 1, { loads }).staticDeflection!;
+  }
+
+  it('gives δ = PL³/3EI and M = PL for a cantilever with a tip load', () => {
+    const result = staticDeflection('cantilever', [{ type: 'point', position: L, magnitude: P }]);
+    expectRelativelyClose(result.maxDeflection, (P * L ** 3) / (3 * EI), 1e-9);
+    expect(result.maxDeflectionLocation).toBeCloseTo(L, 9);
+    expectRelativelyClose(Math.abs(result.peakBendingMoment.value), P * L, 1e-9);
+    expect(result.peakBendingMoment.location).toBeCloseTo(0, 9);
+  });
+
+  it('gives δ = PL³/48EI and M = PL/4 for a simply supported beam with a central load', () => {
+    const result = staticDeflection('simply-supported', [{ type: 'point', position: L / 2, magnitude: P }]);
+    expectRelativelyClose(result.maxDeflection, (P * L ** 3) / (48 * EI), 1e-9);
+    expect(result.maxDeflectionLocation).toBeCloseTo(L / 2, 9);
+    expectRelativelyClose(Math.abs(result.peakBendingMoment.value), (P * L) / 4, 1e-9);
+  });
+
+  it('gives δ = 5wL⁴/384EI and M = wL²/8 for a uniformly loaded simply supported beam', () => {
+    const result = staticDeflection('simply-supported', [uniform]);
+    expectRelativelyClose(result.maxDeflection, (5 * w * L ** 4) / (384 * EI), 1e-9);
+    expectRelativelyClose(Math.abs(result.peakBendingMoment.value), (w * L ** 2) / 8, 1e-9);
+  });
+
+  it('gives δ = wL⁴/384EI and M = wL²/12 for a uniformly loaded fixed-fixed beam', () => {
+    const result = staticDeflection('fixed-fixed', [uniform]);
+    expectRelativelyClose(result.maxDeflection, (w * L ** 4) / (384 * EI), 1e-9);
+    expectRelativelyClose(Math.abs(result.peakBendingMoment.value), (w * L ** 2) / 12, 1e-9);
+  });
+
+  it('gives δ = wL⁴/8EI for a uniformly loaded cantilever', () => {
+    const result = staticDeflection('cantilever', [uniform]);
+    expectRelativelyClose(result.maxDeflection, (w * L ** 4) / (8 * EI), 1e-9);
+    expect(result.totalLoad).toBeCloseTo(w * L, 9);
+  });
+
+  it('adds the deflections of superposed loads', () => {
+    const point: Load = { type: 'point', position: L / 3, magnitude: P };
+    const pointOnly = staticDeflection('fixed-pinned', [point]).y;
+    const uniformOnly = staticDeflection('fixed-pinned', [uniform]).y;
+    const together = staticDeflection('fixed-pinned', [point, uniform]).y;
+    together.forEach((y, index) => expect(y).toBeCloseTo(pointOnly[index] + uniformOnly[index], 12));
+  });
+});
+
+describe('support reactions', () => {
+  const L = steelBar.length;
+  const P = 100; // N
+  const w = 100; // N/m
+
+  function reactions(beamType: BeamType, loads: Load[]) {
+    return calculateBeamAnalysis(beamType, steelBar, 1, { loads }).staticDeflection!.reactions;
+  }
+
+  it('gives a cantilever with a tip load a reaction P and a fixed-end moment PL', () => {
+    const [root] = reactions('cantilever', [{ type: 'point', position: L, magnitude: P }]);
+    expect(root.position).toBe(0);
+    expect(root.force).toBeCloseTo(-P, 9);
+    expect(Math.abs(root.moment!)).toBeCloseTo(P * L, 9);
+  });
+
+  it('splits a point load on a simply supported beam by the lever rule, without end moments', () => {
+    const a = L / 4;
+    const [start, end] = reactions('simply-supported', [{ type: 'point', position: a, magnitude: P }]);
+    expect(start.force).toBeCloseTo((-P * (L - a)) / L, 9);
+    expect(end.force).toBeCloseTo((-P * a) / L, 9);
+    expect(start.moment).toBeNull();
+    expect(end.moment).toBeNull();
+  });
+
+  it('gives a uniformly loaded fixed-fixed beam reactions wL/2 and end moments wL²/12', () => {
+    const [start, end] = reactions('fixed-fixed', [{ type: 'uniform', start: 0, end: L, magnitude: w }]);
+    [start, end].forEach((reaction) => {
+      expect(reaction.force).toBeCloseTo((-w * L) / 2, 9);
+      expect(Math.abs(reaction.moment!)).toBeCloseTo((w * L ** 2) / 12, 9);
+    });
+    expect(start.moment! + end.moment!).toBeCloseTo(0, 9);
+  });
+
+  it('gives a uniformly loaded propped cantilever reactions 5wL/8 and 3wL/8 and a fixed-end moment wL²/8', () => {
+    const [fixed, pinned] = reactions('fixed-pinned', [{ type: 'uniform', start: 0, end: L, magnitude: w }]);
+    expect(fixed.force).toBeCloseTo((-5 * w * L) / 8, 9);
+    expect(Math.abs(fixed.moment!)).toBeCloseTo((w * L ** 2) / 8, 9);
+    expect(pinned.force).toBeCloseTo((-3 * w * L) / 8, 9);
+    expect(pinned.moment).toBeNull();
+  });
+
+  it('leaves a free end without a reaction', () => {
+    const ends = reactions('cantilever', [{ type: 'point', position: L / 2, magnitude: P }]);
+    expect(ends.map((reaction) => reaction.condition)).toEqual(['fixed']);
+  });
+
+  it.each(['fixed-fixed', 'fixed-pinned', 'simply-supported', 'fixed-guided'] as BeamType[])(
+    'balances the net load on a %s beam',
+    (beamType) => {
+      const loads: Load[] = [
+        { type: 'point', position: 0.3 * L, magnitude: P },
+        { type: 'linear', start: 0.2 * L, end: 0.9 * L, startMagnitude: w, endMagnitude: -w / 2 },
+        { type: 'moment', position: 0.6 * L, magnitude: 40 },
+      ];
+      const result = calculateBeamAnalysis(beamType, steelBar, 1, { loads }).staticDeflection!;
+      const reactionForce = result.reactions.reduce((sum, reaction) => sum + (reaction.force ?? 0), 0);
+      expect(reactionForce + result.totalLoad).toBeCloseTo(0, 9);
+    }
+  );
+});
+
+describe('elastic foundation', () => {
+  const k = 5e4; // N/m²
+  const onFoundation: BeamProperties = { ...steelBar, foundationModulus: k };
+  const foundationOmegaSquared = k / rhoA;
+
+  it.each(['simply-supported', 'cantilever', 'fixed-fixed'] as BeamType[])(
+    'raises ω² of every mode of a %s beam by k/ρA',
+    (beamType) => {
+      const without = calculateBeamAnalysis(beamType, steelBar, 4).naturalFrequencies;
+      const withFoundation = calculateBeamAnalysis(beamType, onFoundation, 4).naturalFrequencies;
+      withFoundation.forEach((frequency, index) => {
+        const omegaSquared = (2 * Math.PI * without[index]) ** 2 + foundationOmegaSquared;
+        expectRelativelyClose((2 * Math.PI * frequency) ** 2, omegaSquared, 1e-3);
+      });
+    }
+  );
+
+  it('reports √(k/ρA)/2π as the foundation frequency', () => {
+    const results = calculateBeamAnalysis('simply-supported', onFoundation, 1);
+    expectRelativelyClose(results.foundationFrequency!, Math.sqrt(foundationOmegaSquared) / (2 * Math.PI), 1e-12);
+    expect(calculateBeamAnalysis('simply-supported', steelBar, 1).foundationFrequency).toBeNull();
+  });
+
+  it('turns the rigid-body modes of a free-free beam into modes at the foundation frequency', () => {
+    const results = calculateBeamAnalysis('free-free', onFoundation, 2);
+    expect(results.modeShapes.some((shape) => shape.rigidBody)).toBe(false);
+    results.naturalFrequencies
+      .slice(0, 2)
+      .forEach((frequency) => expectRelativelyClose(frequency, results.foundationFrequency!, 1e-3));
+  });
+});
+
+describe('buckling', () => {
+  const L = steelBar.length;
+  const loaded: BeamProperties = { ...steelBar, axialLoad: 0 };
+  const eulerLoad = (K: number) => (Math.PI ** 2 * EI) / (K * L) ** 2;
+
+  // Effective length factors K of the first Euler buckling mode
+  const effectiveLengthFactors: [BeamType, number][] = [
+    ['simply-supported', 1],
+    ['cantilever', 2],
+    ['fixed-fixed', 0.5],
+    ['fixed-pinned', 0.699],
+    ['fixed-guided', 1],
+    ['pinned-guided', 2],
+  ];
+
+  it.each(effectiveLengthFactors)('gives a %s column the Euler load π²EI/(KL)² with K = %s', (beamType, K) => {
+    const [first] = calculateBeamAnalysis(beamType, loaded, 1).buckling!;
+    expectRelativelyClose(first.criticalLoad, eulerLoad(K), 2e-3);
+    expect(first.effectiveLengthFactor).toBeCloseTo(K, 3);
+  });
+
+  it('gives the higher buckling modes of a pinned column n²π²EI/L²', () => {
+    const buckling = calculateBeamAnalysis('simply-supported', loaded, 3).buckling!;
+    expect(buckling.length).toBeGreaterThanOrEqual(3);
+    buckling
+      .slice(0, 3)
+      .forEach((mode, index) => expectRelativelyClose(mode.criticalLoad, (index + 1) ** 2 * eulerLoad(1), 1e-3));
+  });
+
+  it('leaves buckling out when no axial load is given or the beam is unrestrained', () => {
+    expect(calculateBeamAnalysis('simply-supported', steelBar, 1).buckling).toBeNull();
+    expect(calculateBeamAnalysis('free-free', loaded, 1).buckling).toBeNull();
+  });
+
+  it('follows ω² = ω₀²(1 + P/Pcr) on the frequency-vs-load curve of a pinned column', () => {
+    const criticalLoad = eulerLoad(1);
+    const [f0] = calculateBeamAnalysis('simply-supported', steelBar, 1).naturalFrequencies;
+    const curve = calculateFrequencyLoadCurve('simply-supported', loaded, 1, {}, criticalLoad);
+    expect(curve[0].axialLoad).toBeCloseTo(-criticalLoad, 6);
+    curve.forEach(({ axialLoad, frequencies: [f] }) => {
+      const expected = f0 ** 2 * (1 + axialLoad / criticalLoad);
+      expect(Math.abs(f ** 2 - expected) / f0 ** 2).toBeLessThan(1e-3);
+    });
+  });
+});
+
+describe('analyseBeam', () => {
+  it('returns the same results as the calculation for valid input', () => {
+    expect(analyseBeam('cantilever', steelBar, 3)).toEqual(calculateBeamAnalysis('cantilever', steelBar, 3));
+  });
+
+  it.each([
+    ['a non-positive length', { length: 0 }],
+    ['a non-positive modulus', { youngsModulus: -1 }],
+    ["a Poisson's ratio of -1", { poissonsRatio: -1 }],
+    ["a Poisson's ratio of 0.5", { poissonsRatio: 0.5 }],
+    ['a zero shear modulus', { shearModulus: 0 }],
+    ['a negative foundation modulus', { foundationModulus: -10 }],
+    ['a required safety factor below 1', { requiredSafetyFactor: 0.5 }],
+  ] as [string, Partial<BeamProperties>][])('rejects %s', (_, change) => {
+    expect(analyseBeam('cantilever', { ...steelBar, ...change }, 3)).toBeNull();
+  });
+});
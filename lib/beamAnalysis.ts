@@ -1,22 +1,85 @@
-export type BeamType = 'cantilever' | 'simply-supported' | 'fixed-fixed' | 'fixed-pinned';
+import {
+  CrossSection,
+  SectionProperties,
+  calculateSectionProperties,
+  calculateShearCorrectionFactor,
+  isValidSection,
+  isValidShearProperties,
+} from './crossSections';
+import { BeamType, EndCondition, endConditions, rigidBodyModeCount } from './boundaryConditions';
+import { interpolate, nullVector4, solveLinearSystem, trapezoid } from './linearAlgebra';
+import { calculateTimoshenkoModes } from './timoshenko';
+import {
+  FiniteElementModel,
+  averageElementProperty,
+  createUniformModel,
+  solveFiniteElementBuckling,
+  solveFiniteElementModes,
+  solveFiniteElementStatic,
+} from './finiteElement';
+import { Load, createDefaultLoadCase, isValidLoad, particularSolution, resultantForce } from './loads';
+import {
+  BeamSegment,
+  SegmentProperties,
+  calculateSegmentProperties,
+  createSegmentedModel,
+  isValidSegments,
+  segmentAt,
+  sectionPropertiesAt,
+} from './segments';
+import { StrengthCheck, calculateStrengthCheck, isValidSafetyFactor } from './strength';
+import { Attachment, isValidAttachment, restrainedRigidBodyLines } from './attachments';
+import { DampingModel, isValidDampingModel, modalDampingRatios } from './damping';
+
+export type { BeamType } from './boundaryConditions';
+
+export type BeamTheory = 'euler-bernoulli' | 'timoshenko';
+
+export type BeamSolver = 'analytical' | 'finite-element';
+
+export interface AnalysisOptions {
+  theory?: BeamTheory; // Defaults to Euler-Bernoulli
+  solver?: BeamSolver; // Defaults to the analytical (closed-form) solution
+  loads?: Load[]; // Static load case; defaults to 1000 N at the free/guided end or at midspan
+}
 
 export interface BeamProperties {
   length: number; // meters
-  width: number; // meters
-  depth: number; // meters
+  section: CrossSection; // Cross-section shape and dimensions
   youngsModulus: number; // Pa
   density: number; // kg/m³
-  dampingRatio?: number; // Damping ratio (ζ), typically 0.01-0.05 for structures (optional)
+  poissonsRatio?: number; // ν, defaults to 0.3 (used for G and the shear correction factor)
+  shearModulus?: number; // G in Pa, defaults to E/(2(1+ν))
+  damping?: DampingModel; // Damping model (optional; undamped without one)
+  yieldStrength?: number; // σy in Pa (optional; enables the strength check)
+  ultimateStrength?: number; // σu in Pa (optional)
+  requiredSafetyFactor?: number; // Safety factor the strength check must reach, defaults to 1
+  segments?: BeamSegment[]; // Non-uniform beam; replaces section and material when present
+  attachments?: Attachment[]; // Point masses and springs attached to the beam
+  foundationModulus?: number; // Winkler elastic foundation under the whole beam in N/m² (optional)
+  axialLoad?: number; // Axial force in N, tension positive (optional; enables the buckling analysis)
 }
 
 export interface BeamResults {
+  theory: BeamTheory; // Theory used for frequencies, mode shapes and static deflection
+  solver: BeamSolver; // Analytical or finite-element solution
   naturalFrequencies: number[]; // Hz
+  eulerBernoulliFrequencies: number[] | null; // Hz, for comparison when theory is Timoshenko
   modeShapes: ModeShape[];
-  flexuralRigidity: number; // EI in N·m²
-  massPerUnitLength: number; // m = ρA in kg/m
-  staticDeflection: StaticDeflection | null; // Static deflection under point load
-  dampingCoefficient: number | null; // c in N·s/m (null if not calculated)
-  dampedResponse: DampedResponse | null; // Damped vibration response (null if no damping)
+  sectionProperties: SectionProperties; // A, I and section modulus of the cross-section (at x = 0 if segmented)
+  segmentProperties: SegmentProperties[] | null; // Section properties along a segmented beam
+  flexuralRigidity: number; // EI in N·m² (length-averaged if segmented)
+  massPerUnitLength: number; // m = ρA in kg/m (length-averaged if segmented)
+  shearRigidity: number | null; // κGA in N (Timoshenko only; length-averaged if segmented)
+  shearCorrectionFactor: number | null; // κ (Timoshenko only; null if segmented, as it varies along the beam)
+  foundationFrequency: number | null; // √(k/ρA)/2π in Hz, a rigid beam bouncing on the foundation (null if none)
+  axialLoad: number; // Axial force the analysis applied in N, tension positive (0 if none or unrestrained)
+  buckling: BucklingMode[] | null; // Buckling modes, lowest load first (null without an axial load input)
+  staticDeflection: StaticDeflection | null; // Static deflection under the load case
+  strengthCheck: StrengthCheck | null; // Stresses against material strength (null without a yield strength)
+  totalMass: number; // Mass of the beam and its attached point masses in kg
+  staticModalCoordinates: number[] | null; // Static deflection resolved into the mode shapes, one per mode
+  modalDamping: ModalDamping[] | null; // Effective damping of each mode (null without a damping model)
 }
 
 export interface ModeShape {
@@ -24,52 +87,129 @@ export interface ModeShape {
   x: number[];
   w: number[];
   bL: number;
+  rigidBody: boolean; // True for zero-frequency rigid-body modes of unrestrained beams
+  modalMass: number; // Generalised mass ∫ρA·w² dx of the shape as normalised, with attached masses, in kg
+  modalStiffness: number; // Generalised stiffness ω²·m of the shape as normalised in N/m
+  massNormalizedW: number[]; // w/√m, the shape scaled to unit generalised mass, in 1/√kg
+  participationFactor: number; // Γ = (∫ρA·w dx + Σ m·w)/m for base excitation in translation
+  effectiveMass: number; // Effective modal mass Γ²·m in kg, independent of how the shape is scaled
+  effectiveMassFraction: number; // Effective modal mass as a fraction of the total mass
+  boundaryResiduals: BoundaryResidual[]; // How well the computed shape satisfies each boundary condition
+}
+
+export interface BucklingMode {
+  mode: number;
+  criticalLoad: number; // Compressive axial force at which the mode buckles in N
+  effectiveLengthFactor: number; // K in P = π²EI/(KL)², for the reference EI
+  x: number[];
+  w: number[]; // Normalised to a peak of +1
 }
 
+export interface FrequencyLoadPoint {
+  axialLoad: number; // N, tension positive
+  frequencies: number[]; // Hz, lowest elastic modes
+}
+
+export interface BoundaryResidual {
+  position: number; // Boundary location in meters (0 or L)
+  condition: string; // Boundary condition, e.g. "w = 0"
+  residual: number; // Dimensionless residual of the condition (0 for an exact mode)
+}
+
+// Internal forces follow M = EI·dθ/dx and V = dM/dx (a positive tip load on a cantilever gives
+// M > 0 and V < 0)
 export interface StaticDeflection {
   x: number[]; // Position along beam
   y: number[]; // Deflection in meters
+  slope: number[]; // Cross-section rotation θ in rad (equal to dy/dx for Euler-Bernoulli)
+  shearForce: number[]; // V in N
+  bendingMoment: number[]; // M in N·m
+  stress: number[]; // Extreme-fibre bending stress σ = M·c/I in Pa
+  shearStress: number[]; // Peak shear stress τ = V·Q/(I·b) at the neutral axis in Pa
   maxDeflection: number; // Maximum deflection in meters
   maxDeflectionLocation: number; // Location of max deflection in meters
+  peakSlope: StaticPeak;
+  peakShearForce: StaticPeak;
+  peakBendingMoment: StaticPeak;
+  peakStress: StaticPeak;
+  peakShearStress: StaticPeak;
+  loads: Load[]; // Load case that produced the deflection
+  totalLoad: number; // Net applied transverse force in N
+  reactions: SupportReaction[]; // Reactions at the restrained ends
+  restraintForce: number; // Net force the springs and foundation exert on the beam in N (0 without them)
+}
+
+export interface ModalDamping {
+  mode: number;
+  dampingRatio: number; // Effective viscous ζ of the mode
+  dampedFrequency: number; // f·√(1-ζ²) in Hz (0 for rigid-body modes and from critical damping on)
+  dampingCoefficient: number; // Modal coefficient c = 2ζω·m in N·s/m, with m the generalised mass
+}
+
+export interface StaticPeak {
+  value: number; // Signed value of the largest magnitude
+  location: number; // Position in meters
 }
 
-export interface DampedResponse {
-  time: number[]; // Time in seconds
-  displacement: number[]; // Displacement in meters
-  envelope: { time: number[]; upper: number[]; lower: number[] }; // Envelope curves
-  dampingRatio: number;
-  naturalFrequency: number; // Hz
-  dampedFrequency: number; // Hz
+// Reactions act on the beam with the same signs as loads, so in equilibrium the reaction forces sum
+// to minus the net load
+export interface SupportReaction {
+  position: number; // Support location in meters (0 or L)
+  condition: EndCondition;
+  force: number | null; // Reaction force in N (null if the end is free to translate)
+  moment: number | null; // Reaction moment in N·m, e.g. the fixed-end moment (null if free to rotate)
 }
 
+// Most modes an analysis returns, rigid-body modes included
+export const MAX_MODES = 30;
+
+// Cumulative effective modal mass that seismic codes typically require the included modes to reach
+export const EFFECTIVE_MASS_TARGET = 0.9;
+
+// An elastic mode as produced by any of the solvers, before numbering
+type ElasticMode = Pick<ModeShape, 'w' | 'bL' | 'modalMass' | 'boundaryResiduals'> & { frequency: number };
+
 /**
- * Solves the characteristic equation for different beam types
+ * Solves the characteristic equation for different beam types.
+ * Each equation is divided through by cosh(bL) (or multiplied by cos(bL) to remove the poles of tan),
+ * so it stays bounded for large bL. Its roots then approach (n + offset)π, and the n-th root is
+ * bracketed within ±π/2 of that asymptotic estimate, where the function has opposite signs.
  */
 function solveCharacteristicEquation(beamType: BeamType, numModes: number = 3): number[] {
   const bLValues: number[] = [];
   
-  // Characteristic equations for different beam types
+  // Scaled characteristic equations for different beam types
   const equations: Record<BeamType, (bL: number) => number> = {
-    'cantilever': (bL: number) => Math.cos(bL) * Math.cosh(bL) + 1,
+    'cantilever': (bL: number) => Math.cos(bL) + 1 / Math.cosh(bL), // cos·cosh + 1 = 0
     'simply-supported': (bL: number) => Math.sin(bL),
-    'fixed-fixed': (bL: number) => Math.cos(bL) * Math.cosh(bL) - 1,
-    'fixed-pinned': (bL: number) => Math.tan(bL) - Math.tanh(bL),
+    'fixed-fixed': (bL: number) => Math.cos(bL) - 1 / Math.cosh(bL), // cos·cosh - 1 = 0
+    'fixed-pinned': (bL: number) => Math.sin(bL) - Math.cos(bL) * Math.tanh(bL), // tan - tanh = 0
+    'free-free': (bL: number) => Math.cos(bL) - 1 / Math.cosh(bL),
+    'pinned-free': (bL: number) => Math.sin(bL) - Math.cos(bL) * Math.tanh(bL),
+    'fixed-guided': (bL: number) => Math.sin(bL) + Math.cos(bL) * Math.tanh(bL), // tan + tanh = 0
+    'pinned-guided': (bL: number) => Math.cos(bL),
   };
 
   const equation = equations[beamType];
   
-  // Initial guesses for bL values (approximate roots)
-  const initialGuesses: Record<BeamType, number[]> = {
-    'cantilever': [1.875, 4.694, 7.855, 10.996, 14.137],
-    'simply-supported': [Math.PI, 2 * Math.PI, 3 * Math.PI, 4 * Math.PI, 5 * Math.PI],
-    'fixed-fixed': [4.730, 7.853, 10.996, 14.137, 17.279],
-    'fixed-pinned': [3.927, 7.069, 10.210, 13.352, 16.493],
+  // Asymptotic root spacing: bL_n ≈ (n + offset)π for n = 1, 2, 3...
+  const asymptoticOffsets: Record<BeamType, number> = {
+    'cantilever': -0.5,
+    'simply-supported': 0,
+    'fixed-fixed': 0.5,
+    'fixed-pinned': 0.25,
+    'free-free': 0.5,
+    'pinned-free': 0.25,
+    'fixed-guided': -0.25,
+    'pinned-guided': -0.5,
   };
 
-  const guesses = initialGuesses[beamType];
+  const offset = asymptoticOffsets[beamType];
+  const count = Math.min(numModes, MAX_MODES);
 
-  for (let i = 0; i < numModes && i < guesses.length; i++) {
-    const bL = findRoot(equation, guesses[i] - 0.5, guesses[i] + 0.5);
+  for (let n = 1; n <= count; n++) {
+    const estimate = (n + offset) * Math.PI;
+    const bL = findRoot(equation, estimate - Math.PI / 2, estimate + Math.PI / 2);
     if (bL !== null) {
       bLValues.push(bL);
     }
@@ -79,343 +219,803 @@ function solveCharacteristicEquation(beamType: BeamType, numModes: number = 3):
 }
 
 /**
- * Newton-Raphson method to find roots
+ * Newton-Raphson method to find roots, safeguarded by bisection so the iterate never leaves
+ * the bracket [lowerBound, upperBound] (the equation must change sign across it)
  */
 function findRoot(
   equation: (x: number) => number,
   lowerBound: number,
   upperBound: number,
-  tolerance: number = 1e-6,
+  tolerance: number = 1e-12,
   maxIterations: number = 100
 ): number | null {
+  let fLower = equation(lowerBound);
+  if (fLower === 0) return lowerBound;
+  if (equation(upperBound) === 0) return upperBound;
+  if (fLower * equation(upperBound) > 0) return null; // Root is not bracketed
+
   let x = (lowerBound + upperBound) / 2;
   
   for (let i = 0; i < maxIterations; i++) {
     const fx = equation(x);
     
-    if (Math.abs(fx) < tolerance) {
+    if (Math.abs(fx) < tolerance || upperBound - lowerBound < tolerance) {
       return x;
     }
 
-    // Numerical derivative
-    const h = 1e-8;
-    const dfx = (equation(x + h) - equation(x - h)) / (2 * h);
-    
-    if (Math.abs(dfx) < 1e-10) {
-      break; // Avoid division by zero
+    // Shrink the bracket around the sign change
+    if (fLower * fx < 0) {
+      upperBound = x;
+    } else {
+      lowerBound = x;
+      fLower = fx;
     }
 
-    const xNew = x - fx / dfx;
+    // Numerical derivative
+    const h = 1e-7;
+    const dfx = (equation(x + h) - equation(x - h)) / (2 * h);
+    const xNew = Math.abs(dfx) > 1e-14 ? x - fx / dfx : NaN;
     
-    if (xNew < lowerBound || xNew > upperBound) {
-      // If out of bounds, use bisection
-      x = (lowerBound + upperBound) / 2;
-      if (equation(lowerBound) * equation(x) < 0) {
-        upperBound = x;
-      } else {
-        lowerBound = x;
-      }
-    } else {
-      x = xNew;
-    }
+    // If Newton jumps out of the bracket (or the slope vanishes), bisect instead
+    x = xNew > lowerBound && xNew < upperBound ? xNew : (lowerBound + upperBound) / 2;
   }
 
-  return Math.abs(equation(x)) < tolerance ? x : null;
+  return Math.abs(equation(x)) < 1e-8 ? x : null;
 }
 
+// Derivative orders of w that must vanish at each kind of end
+const endConditionDerivatives: Record<EndCondition, [number, number]> = {
+  'fixed': [0, 1], // Zero deflection and slope
+  'pinned': [0, 2], // Zero deflection and moment
+  'free': [2, 3], // Zero moment and shear
+  'guided': [1, 3], // Zero slope and shear
+};
+
+const derivativeLabels = ['w', "w'", "w''", "w'''"];
+
 /**
- * Calculates mode shape for a given beam type and bL value
+ * Evaluates the k-th derivative (with respect to bx) of the four stable basis functions
+ *   cos(bx), sin(bx), e^(-bx), e^(-b(L-x))
+ * All four stay within [-1, 1] along the beam, unlike cosh and sinh, which is what avoids the
+ * catastrophic cancellation of the classical (S - Sh) - a(C - Ch) form at high bL.
+ */
+function basisDerivatives(k: number, bx: number, bL: number): [number, number, number, number] {
+  const C = Math.cos(bx);
+  const S = Math.sin(bx);
+  const decayFromStart = Math.exp(-bx);
+  const decayFromEnd = Math.exp(bx - bL);
+  const trig: [number, number][] = [
+    [C, S],
+    [-S, C],
+    [-C, -S],
+    [S, -C],
+  ];
+  return [trig[k][0], trig[k][1], k % 2 === 0 ? decayFromStart : -decayFromStart, decayFromEnd];
+}
+
+/**
+ * Finds the basis coefficients of a mode as the null vector of the 4x4 boundary condition matrix
+ */
+function solveModeCoefficients(beamType: BeamType, bL: number): number[] {
+  const [startEnd, endEnd] = endConditions[beamType];
+  const rows = [
+    ...endConditionDerivatives[startEnd].map((k) => basisDerivatives(k, 0, bL)),
+    ...endConditionDerivatives[endEnd].map((k) => basisDerivatives(k, bL, bL)),
+  ];
+
+  return nullVector4(rows);
+}
+
+/**
+ * Sample positions from 0 to L inclusive with spacing close to dx
+ */
+function samplePositions(length: number, dx: number): number[] {
+  const numPoints = Math.max(1, Math.round(length / dx));
+  return Array.from({ length: numPoints + 1 }, (_, i) => (i * length) / numPoints);
+}
+
+/**
+ * Evaluates the boundary conditions of a beam type for a shape given by its derivative function.
+ * Residuals are dimensionless: the k-th derivative is divided by b^k (or by L^-k for rigid-body
+ * modes) and the shape is normalised to a peak of 1, so an exact mode gives zeros up to round-off.
+ */
+function calculateBoundaryResiduals(
+  beamType: BeamType,
+  length: number,
+  derivative: (k: number, pos: number) => number
+): BoundaryResidual[] {
+  const [startEnd, endEnd] = endConditions[beamType];
+  const ends: [number, EndCondition][] = [[0, startEnd], [length, endEnd]];
+
+  return ends.flatMap(([position, end]) =>
+    endConditionDerivatives[end].map((k) => ({
+      position,
+      condition: `${derivativeLabels[k]} = 0`,
+      residual: derivative(k, position),
+    }))
+  );
+}
+
+/**
+ * Calculates mode shape for a given beam type and bL value using the exponentially rescaled basis
  */
 function calculateModeShape(
   beamType: BeamType,
   bL: number,
   length: number,
   dx: number = 0.01
-): { x: number[]; w: number[] } {
+): { x: number[]; w: number[]; boundaryResiduals: BoundaryResidual[] } {
   const b = bL / length;
-  const x: number[] = [];
-  const w: number[] = [];
+  const coefficients = solveModeCoefficients(beamType, bL);
+  const evaluate = (k: number, pos: number) =>
+    basisDerivatives(k, b * pos, bL).reduce((sum, value, i) => sum + coefficients[i] * value, 0);
 
-  for (let pos = 0; pos <= length; pos += dx) {
-    x.push(pos);
-    
-    const bx = b * pos;
-    const C = Math.cos(bx);
-    const S = Math.sin(bx);
-    const Ch = Math.cosh(bx);
-    const Sh = Math.sinh(bx);
-
-    let modeValue = 0;
-
-    switch (beamType) {
-      case 'cantilever': {
-        const C_bL = Math.cos(bL);
-        const Ch_bL = Math.cosh(bL);
-        const a = (Math.sin(bL) + Math.sinh(bL)) / (C_bL + Ch_bL);
-        modeValue = (S - Sh) - a * (C - Ch);
-        break;
-      }
-      case 'simply-supported': {
-        modeValue = Math.sin(bx);
-        break;
-      }
-      case 'fixed-fixed': {
-        const C_bL = Math.cos(bL);
-        const Ch_bL = Math.cosh(bL);
-        const S_bL = Math.sin(bL);
-        const Sh_bL = Math.sinh(bL);
-        const a = (Ch_bL - C_bL) / (Sh_bL - S_bL);
-        modeValue = (C - Ch) - a * (S - Sh);
-        break;
-      }
-      case 'fixed-pinned': {
-        const a = Math.tanh(bL);
-        modeValue = (S - a * Sh);
-        break;
-      }
-    }
+  const x = samplePositions(length, dx);
+  const w = x.map((pos) => evaluate(0, pos));
 
-    w.push(modeValue);
+  // Normalize mode shape so its largest excursion is +1
+  const peak = w.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+  const scale = peak !== 0 ? 1 / peak : 1;
+  for (let i = 0; i < w.length; i++) {
+    w[i] = w[i] * scale;
   }
 
-  // Normalize mode shape
-  const maxW = Math.max(...w.map(Math.abs));
-  if (maxW > 0) {
-    for (let i = 0; i < w.length; i++) {
-      w[i] = w[i] / maxW;
-    }
-  }
+  const boundaryResiduals = calculateBoundaryResiduals(beamType, length, (k, pos) => scale * evaluate(k, pos));
 
-  return { x, w };
+  return { x, w, boundaryResiduals };
 }
 
 /**
- * Calculates static deflection under a point load at the free end (for cantilever) or center (for simply-supported)
+ * Calculates the rigid-body mode shapes of beams that are not fully restrained by their supports,
+ * springs and foundation, with their generalised masses (including attached masses and their
+ * rotary inertia, which turns with the slope s/L)
+ */
+function calculateRigidBodyModes(
+  beamType: BeamType,
+  length: number,
+  dx: number,
+  massPerLengthAt: (pos: number) => number,
+  attachments: Attachment[] = [],
+  foundationModulus: number = 0
+): { x: number[]; w: number[]; modalMass: number; boundaryResiduals: BoundaryResidual[] }[] {
+  const x = samplePositions(length, dx);
+
+  return restrainedRigidBodyLines(beamType, length, attachments, foundationModulus).map(([a, s]) => {
+    // Derivatives with respect to x/L, matching the dimensionless residuals of the elastic modes
+    const derivative = (k: number, pos: number) => (k === 0 ? a + (s * pos) / length : k === 1 ? s : 0);
+    const w = x.map((pos) => derivative(0, pos));
+    const attachedMass = attachments.reduce((sum, attachment) => {
+      if (attachment.type !== 'mass') return sum;
+      const deflection = derivative(0, attachment.position);
+      return sum + attachment.mass * deflection * deflection + attachment.rotaryInertia * Math.pow(s / length, 2);
+    }, 0);
+    return {
+      x,
+      w,
+      modalMass: trapezoid(x, w.map((value, i) => massPerLengthAt(x[i]) * value * value)) + attachedMass,
+      boundaryResiduals: calculateBoundaryResiduals(beamType, length, derivative),
+    };
+  });
+}
+
+/**
+ * Calculates static deflection of a uniform beam under any combination of loads, exactly, by the
+ * initial-parameter method: the particular solutions of the individual loads are superposed and a
+ * cubic EI·u_h = c0 + c1·x + c2·x²/2 + c3·x³/6 is added to satisfy the two conditions at each end.
+ * Beams with a rigid-body mode cannot carry a general static load, so free-free and pinned-free
+ * return null.
+ * For Timoshenko beams the bending rotation is ψ = u' and the deflection w = u - (EI/κGA)·u''
+ * (the shear deflection, left out for concentrated moments, which add no shear force).
  */
 function calculateStaticDeflection(
   beamType: BeamType,
-  properties: BeamProperties,
-  load: number = 1000 // Default point load in N
+  length: number,
+  flexuralRigidity: number, // EI in N·m²
+  sectionProperties: SectionProperties,
+  loads: Load[],
+  shearRigidity: number = Infinity // κGA in N (Infinity for Euler-Bernoulli)
 ): StaticDeflection | null {
-  const { length, width, depth, youngsModulus } = properties;
-  const I = (width * Math.pow(depth, 3)) / 12; // Moment of inertia
-  const EI = youngsModulus * I; // Flexural rigidity
+  const EI = flexuralRigidity;
   
   if (EI <= 0 || length <= 0) return null;
-  
-  const x: number[] = [];
-  const y: number[] = [];
-  const numPoints = 300; // More points for smoother curve
-  const dx = length / numPoints;
-  
-  let maxDeflection = 0;
-  let maxDeflectionLocation = 0;
-  
-  for (let i = 0; i <= numPoints; i++) {
-    const pos = i * dx;
-    x.push(pos);
-    let deflection = 0;
-    
-    switch (beamType) {
-      case 'cantilever': {
-        // Point load at free end: y(x) = (P/(6EI)) * (3Lx² - x³)
-        // Verified: y(0) = 0, y(L) = PL³/(3EI)
-        if (pos >= 0 && pos <= length) {
-          deflection = (load / (6 * EI)) * (3 * length * pos * pos - pos * pos * pos);
-        }
-        break;
-      }
-      case 'simply-supported': {
-        // Point load at center: y(x) = (P/(48EI)) * (3L²x - 4x³) for x ≤ L/2
-        // Verified: y(0) = 0, y(L/2) = PL³/(48EI), y(L) = 0
-        if (pos <= length / 2) {
-          deflection = (load / (48 * EI)) * (3 * length * length * pos - 4 * pos * pos * pos);
-        } else {
-          // Symmetric for x > L/2: y(x) = y(L-x)
-          const xSym = length - pos;
-          deflection = (load / (48 * EI)) * (3 * length * length * xSym - 4 * xSym * xSym * xSym);
-        }
-        break;
-      }
-      case 'fixed-fixed': {
-        // Point load at center: y(x) = (P/(192EI)) * (3L²x - 4x³) for x ≤ L/2
-        // For fixed-fixed, the formula is similar but with different coefficient
-        if (pos <= length / 2) {
-          deflection = (load / (192 * EI)) * (3 * length * length * pos - 4 * pos * pos * pos);
-        } else {
-          const xSym = length - pos;
-          deflection = (load / (192 * EI)) * (3 * length * length * xSym - 4 * xSym * xSym * xSym);
-        }
-        break;
-      }
-      case 'fixed-pinned': {
-        // Point load at center: approximate using similar formula
-        if (pos <= length / 2) {
-          deflection = (load / (96 * EI)) * (3 * length * length * pos - 4 * pos * pos * pos);
-        } else {
-          const xSym = length - pos;
-          deflection = (load / (96 * EI)) * (3 * length * length * xSym - 4 * xSym * xSym * xSym);
-        }
-        break;
-      }
-    }
-    
-    y.push(deflection);
-    
-    if (Math.abs(deflection) > Math.abs(maxDeflection)) {
-      maxDeflection = deflection;
-      maxDeflectionLocation = pos;
+  if (rigidBodyModeCount[beamType] > 0) return null;
+
+  const s = EI / shearRigidity; // Shear flexibility in m² (0 for Euler-Bernoulli)
+
+  // Superposed particular solution: EI·u_p^(k) and the shear part of EI·w_p
+  const particular = (pos: number, k: number) => loads.reduce((sum, load) => sum + particularSolution(load, pos, k), 0);
+  const particularShear = (pos: number) =>
+    loads.reduce((sum, load) => (load.type === 'moment' ? sum : sum + s * particularSolution(load, pos, 2)), 0);
+
+  // End quantities w, ψ = u', u'' (∝ M) and u''' (∝ V) as [homogeneous row, particular value]
+  const endQuantity = (k: number, pos: number): [number[], number] => {
+    switch (k) {
+      case 0:
+        return [[1, pos, (pos * pos) / 2 - s, (pos * pos * pos) / 6 - s * pos], particular(pos, 0) - particularShear(pos)];
+      case 1:
+        return [[0, 1, pos, (pos * pos) / 2], particular(pos, 1)];
+      case 2:
+        return [[0, 0, 1, pos], particular(pos, 2)];
+      default:
+        return [[0, 0, 0, 1], particular(pos, 3)];
     }
-  }
-  
+  };
+
+  // Loads at x = 0 act just inside the beam, so they do not enter the conditions there
+  const [startEnd, endEnd] = endConditions[beamType];
+  const conditions = [
+    ...endConditionDerivatives[startEnd].map((k): [number[], number] => [endQuantity(k, 0)[0], 0]),
+    ...endConditionDerivatives[endEnd].map((k) => endQuantity(k, length)),
+  ];
+  const coefficients = solveLinearSystem(
+    conditions.map(([row]) => row),
+    conditions.map(([, value]) => -value)
+  );
+  if (!coefficients) return null;
+
+  const evaluate = (k: number, pos: number) => {
+    const [row, value] = endQuantity(k, pos);
+    return row.reduce((sum, r, i) => sum + r * coefficients[i], value) / EI;
+  };
+  const x = staticSamplePositions(length, loads);
+  const y = x.map((pos) => evaluate(0, pos));
+  const slope = x.map((pos) => evaluate(1, pos));
+
+  // The end shear EI·u''' and moment EI·u'' are carried by the supports: at x = 0 before any load
+  // there, at x = L after every load
+  const [, , c2, c3] = coefficients;
+  const reactions = supportReactions(beamType, length, (end) =>
+    end === 0
+      ? { force: c3, moment: -c2 }
+      : { force: -(c3 + particular(length, 3)), moment: c2 + c3 * length + particular(length, 2) }
+  );
+
+  return summariseStaticDeflection(x, y, slope, loads, reactions, () => sectionProperties);
+}
+
+/**
+ * Sample positions for static results: evenly spaced, plus the points where loads act or start and
+ * end, so peaks and kinks under them are not missed
+ */
+function staticSamplePositions(length: number, loads: Load[]): number[] {
+  const loadPositions = loads.flatMap((load) =>
+    load.type === 'point' || load.type === 'moment' ? [load.position] : [load.start, load.end]
+  );
+  const positions = [...samplePositions(length, length / 300), ...loadPositions].sort((a, b) => a - b);
+  return positions.filter((pos, i) => i === 0 || pos - positions[i - 1] > 1e-9 * length);
+}
+
+/**
+ * Lists the reactions at each restrained end: a force where the deflection is held and a moment
+ * where the slope is held
+ */
+function supportReactions(
+  beamType: BeamType,
+  length: number,
+  endReaction: (end: 0 | 1) => { force: number; moment: number }
+): SupportReaction[] {
+  return endConditions[beamType].flatMap((condition, end) => {
+    const held = endConditionDerivatives[condition];
+    if (!held.includes(0) && !held.includes(1)) return [];
+    const { force, moment } = endReaction(end === 0 ? 0 : 1);
+    return [
+      {
+        position: end === 0 ? 0 : length,
+        condition,
+        force: held.includes(0) ? force : null,
+        moment: held.includes(1) ? moment : null,
+      },
+    ];
+  });
+}
+
+/**
+ * Value of largest magnitude in a sampled curve and where it occurs
+ */
+function findPeak(x: number[], values: number[]): StaticPeak {
+  const index = values.reduce((best, value, i) => (Math.abs(value) > Math.abs(values[best]) ? i : best), 0);
+  return { value: values[index], location: x[index] };
+}
+
+/**
+ * Collects the static results of a load case. Shear force and bending moment follow exactly from
+ * the reactions at x = 0 and the loads by statics, whichever solver found the reactions. Springs
+ * and the foundation enter the statics through the forces they exert, given as restraintLoads. An
+ * axial tension N acting on the deflected beam adds N·θ to the shear force and N·(w - w(0)) to the
+ * bending moment, as the reactions are transverse to the undeformed axis.
+ */
+function summariseStaticDeflection(
+  x: number[],
+  y: number[],
+  slope: number[],
+  loads: Load[],
+  reactions: SupportReaction[],
+  sectionAt: (pos: number) => SectionProperties,
+  restraintLoads: Load[] = [],
+  axialLoad: number = 0
+): StaticDeflection {
+  const start = reactions.find((reaction) => reaction.position === 0);
+  const startForce = start?.force ?? 0;
+  const startMoment = start?.moment ?? 0;
+  const acting = [...loads, ...restraintLoads];
+  const shearForce = x.map((pos, i) =>
+    acting.reduce((sum, load) => sum + particularSolution(load, pos, 3), startForce + axialLoad * slope[i])
+  );
+  const bendingMoment = x.map((pos, i) =>
+    acting.reduce(
+      (sum, load) => sum + particularSolution(load, pos, 2),
+      startForce * pos - startMoment + axialLoad * (y[i] - y[0])
+    )
+  );
+  const sections = x.map(sectionAt);
+  const stress = bendingMoment.map((moment, i) => moment / sections[i].sectionModulus);
+  const shearStress = shearForce.map((force, i) => force * sections[i].shearStressFactor);
+  const peakDeflection = findPeak(x, y);
+
   return {
     x,
     y,
-    maxDeflection,
-    maxDeflectionLocation,
+    slope,
+    shearForce,
+    bendingMoment,
+    stress,
+    shearStress,
+    maxDeflection: peakDeflection.value,
+    maxDeflectionLocation: peakDeflection.location,
+    peakSlope: findPeak(x, slope),
+    peakShearForce: findPeak(x, shearForce),
+    peakBendingMoment: findPeak(x, bendingMoment),
+    peakStress: findPeak(x, stress),
+    peakShearStress: findPeak(x, shearStress),
+    loads,
+    totalLoad: loads.reduce((sum, load) => sum + resultantForce(load), 0),
+    reactions,
+    restraintForce: restraintLoads.reduce((sum, load) => sum + resultantForce(load), 0),
   };
 }
 
 /**
- * Calculates damped vibration response over time
- * x(t) = A * e^(-ζω_n*t) * cos(ω_d*t + φ)
+ * Calculates static deflection of a finite-element model under a load case
  */
-function calculateDampedResponse(
-  naturalFrequency: number, // Hz
-  dampingRatio: number,
-  duration: number = 2.0, // seconds
-  initialAmplitude: number = 1.0 // meters
-): DampedResponse | null {
-  if (dampingRatio <= 0 || dampingRatio >= 1) return null; // Invalid damping ratio
-  
-  const omega_n = naturalFrequency * 2 * Math.PI; // Natural frequency in rad/s
-  const omega_d = omega_n * Math.sqrt(1 - dampingRatio * dampingRatio); // Damped frequency
-  const dampedFrequency = omega_d / (2 * Math.PI); // Damped frequency in Hz
-  
-  const time: number[] = [];
-  const displacement: number[] = [];
-  const envelopeTime: number[] = [];
-  const envelopeUpper: number[] = [];
-  const envelopeLower: number[] = [];
-  
-  const numPoints = 1000;
-  const dt = duration / numPoints;
+function calculateFiniteElementStaticDeflection(
+  model: FiniteElementModel,
+  loads: Load[],
+  sectionAt: (pos: number) => SectionProperties
+): StaticDeflection | null {
+  const length = model.nodes[model.nodes.length - 1];
+  const x = staticSamplePositions(length, loads);
+  const solution = solveFiniteElementStatic(model, loads, x);
+  if (!solution) return null;
+
+  const lastNode = model.nodes.length - 1;
+  const reactions = supportReactions(model.beamType, length, (end) => {
+    const node = end === 0 ? 0 : lastNode;
+    return { force: solution.reactions[2 * node], moment: solution.reactions[2 * node + 1] };
+  });
+
+  return summariseStaticDeflection(
+    x,
+    solution.w,
+    solution.rotation,
+    loads,
+    reactions,
+    sectionAt,
+    solution.restraintLoads,
+    model.axialLoad
+  );
+}
+
+/**
+ * Lowest natural frequencies (up to three elastic modes) over a range of axial forces, from tension
+ * of the same size as the critical load (or the applied tension, if larger) down to buckling, where
+ * the fundamental frequency falls to zero. It takes some 25 eigen-solves on the coarsest mesh, which
+ * resolves a few modes well, so it is left out of calculateBeamAnalysis for its chart to request.
+ */
+export function calculateFrequencyLoadCurve(
+  beamType: BeamType,
+  properties: BeamProperties,
+  numModes: number,
+  options: AnalysisOptions,
+  criticalLoad: number,
+  numPoints: number = 24
+): FrequencyLoadPoint[] {
+  const { axialLoad, count, flexuralRigidity, massPerUnitLength, finiteElementModel } = createAnalysisModel(
+    beamType,
+    properties,
+    numModes,
+    options
+  );
+  const model = finiteElementModel(options.theory === 'timoshenko', 40);
+  const maxTension = Math.max(criticalLoad, axialLoad);
+  const axialLoads = Array.from(
+    { length: numPoints + 1 },
+    (_, i) => -criticalLoad + (i * (maxTension + criticalLoad)) / numPoints
+  );
+  if (axialLoad > -criticalLoad && !axialLoads.includes(axialLoad)) axialLoads.push(axialLoad);
+
+  return axialLoads
+    .sort((a, b) => a - b)
+    .map((load) => ({
+      axialLoad: load,
+      frequencies: solveFiniteElementModes(
+        { ...model, axialLoad: load },
+        Math.min(count, 3),
+        [0, properties.length],
+        { flexuralRigidity, massPerUnitLength }
+      ).map((mode) => mode.frequency),
+    }));
+}
+
+// What the analysis and the frequency-vs-load curve share: the solver, how many modes to find and where,
+// the reference properties of the beam and its finite-element model
+interface AnalysisModel {
+  segments: BeamSegment[] | null;
+  attachments: Attachment[];
+  foundationModulus: number;
+  rigidBodyCount: number; // Rigid-body modes the supports, springs and foundation leave free
+  axialLoad: number; // N, tension positive (0 if unrestrained)
+  solver: BeamSolver;
+  count: number; // Elastic modes to find
+  dx: number;
+  x: number[];
+  sectionProperties: SectionProperties;
+  flexuralRigidity: number;
+  massPerUnitLength: number;
+  shearRigidity: number | null;
+  shearCorrectionFactor: number | null;
+  finiteElementModel: (timoshenko: boolean, elements?: number) => FiniteElementModel;
+}
+
+/**
+ * Sets up the analysis of a beam: chooses the solver and sampling, and works out the reference
+ * properties and finite-element model that the solvers share
+ */
+function createAnalysisModel(
+  beamType: BeamType,
+  properties: BeamProperties,
+  numModes: number,
+  options: AnalysisOptions
+): AnalysisModel {
+  const { length, section, youngsModulus, density } = properties;
+  const theory = options.theory ?? 'euler-bernoulli';
+
+  // Non-uniform beams, attached masses or springs, elastic foundations and axial forces can only be
+  // modelled with finite elements. Only a beam held against rigid-body motion can carry an axial
+  // force, so it is ignored otherwise.
+  const segments = properties.segments && properties.segments.length > 0 ? properties.segments : null;
+  const attachments = properties.attachments ?? [];
+  const foundationModulus = properties.foundationModulus ?? 0;
+  const rigidBodyCount = restrainedRigidBodyLines(beamType, length, attachments, foundationModulus).length;
+  const restrained = rigidBodyCount === 0;
+  const axialLoad = restrained ? properties.axialLoad ?? 0 : 0;
+  const solver: BeamSolver =
+    segments || attachments.length > 0 || foundationModulus > 0 || axialLoad !== 0
+      ? 'finite-element'
+      : options.solver ?? 'analytical';
+
+  // Sample finely enough to resolve the highest requested mode (about 20 points per half-wave)
+  const count = Math.min(numModes, MAX_MODES - rigidBodyCount);
+  const dx = length / Math.max(200, 20 * count);
+  const x = samplePositions(length, dx);
+
+  // Finite-element mesh: about four elements per half-wave of the highest mode, and an even
+  // number so that a node sits at midspan of a uniform beam
+  const numElements = 2 * Math.max(20, 2 * count);
+
+  // Calculate geometric properties (at x = 0 for a segmented beam)
+  const sectionProperties = calculateSectionProperties(segments ? segments[0].section : section);
+  const A = sectionProperties.area; // Cross-sectional area
+  const I = sectionProperties.momentOfInertia; // Moment of inertia
   
-  for (let i = 0; i <= numPoints; i++) {
-    const t = i * dt;
-    time.push(t);
-    
-    // Damped response: x(t) = A * e^(-ζω_n*t) * cos(ω_d*t)
-    const decay = Math.exp(-dampingRatio * omega_n * t);
-    const oscillation = Math.cos(omega_d * t);
-    const x = initialAmplitude * decay * oscillation;
-    
-    displacement.push(x);
-    
-    // Envelope curves: ±A * e^(-ζω_n*t)
-    if (i % 10 === 0) { // Sample envelope less frequently
-      envelopeTime.push(t);
-      envelopeUpper.push(initialAmplitude * decay);
-      envelopeLower.push(-initialAmplitude * decay);
+  // Calculate key quantities
+  let flexuralRigidity = youngsModulus * I; // EI in N·m²
+  let massPerUnitLength = density * A; // m = ρA in kg/m
+
+  // Timoshenko theory adds shear deformation and rotary inertia
+  let shearRigidity: number | null = null;
+  let shearCorrectionFactor: number | null = null;
+
+  if (segments) {
+    // Length-averaged values, which also serve as the reference for bL
+    const model = createSegmentedModel(beamType, segments, numElements, theory === 'timoshenko', attachments);
+    flexuralRigidity = averageElementProperty(model, 'flexuralRigidity');
+    massPerUnitLength = averageElementProperty(model, 'massPerUnitLength');
+    if (theory === 'timoshenko') {
+      shearRigidity = averageElementProperty(model, 'shearRigidity');
     }
+  } else if (theory === 'timoshenko') {
+    const poissonsRatio = properties.poissonsRatio ?? 0.3;
+    const shearModulus = properties.shearModulus ?? youngsModulus / (2 * (1 + poissonsRatio));
+    shearCorrectionFactor = calculateShearCorrectionFactor(section, poissonsRatio);
+    shearRigidity = shearCorrectionFactor * shearModulus * A;
   }
-  
+
+  const finiteElementModel = (timoshenko: boolean, elements: number = numElements): FiniteElementModel => ({
+    ...(segments
+      ? createSegmentedModel(beamType, segments, elements, timoshenko, attachments)
+      : createUniformModel(
+          beamType,
+          length,
+          elements,
+          {
+            flexuralRigidity,
+            massPerUnitLength,
+            rotaryInertia: timoshenko ? density * I : 0,
+            shearRigidity: timoshenko && shearRigidity !== null ? shearRigidity : Infinity,
+          },
+          attachments
+        )),
+    foundationModulus,
+    axialLoad,
+  });
+
   return {
-    time,
-    displacement,
-    envelope: {
-      time: envelopeTime,
-      upper: envelopeUpper,
-      lower: envelopeLower,
-    },
-    dampingRatio,
-    naturalFrequency,
-    dampedFrequency,
+    segments,
+    attachments,
+    foundationModulus,
+    rigidBodyCount,
+    axialLoad,
+    solver,
+    count,
+    dx,
+    x,
+    sectionProperties,
+    flexuralRigidity,
+    massPerUnitLength,
+    shearRigidity,
+    shearCorrectionFactor,
+    finiteElementModel,
   };
 }
 
 /**
- * Main function to calculate natural frequencies and mode shapes
+ * Main function to calculate natural frequencies and mode shapes. numModes counts the elastic modes;
+ * the rigid-body modes of an unrestrained beam come first, and the total is capped at MAX_MODES.
  */
 export function calculateBeamAnalysis(
   beamType: BeamType,
   properties: BeamProperties,
-  numModes: number = 3
+  numModes: number = 3,
+  options: AnalysisOptions = {}
 ): BeamResults {
-  const { length, width, depth, youngsModulus, density } = properties;
+  const { length, youngsModulus, density } = properties;
+  const theory = options.theory ?? 'euler-bernoulli';
+  const {
+    segments,
+    attachments,
+    foundationModulus,
+    rigidBodyCount,
+    axialLoad,
+    solver,
+    count,
+    dx,
+    x,
+    sectionProperties,
+    flexuralRigidity,
+    massPerUnitLength,
+    shearRigidity,
+    shearCorrectionFactor,
+    finiteElementModel,
+  } = createAnalysisModel(beamType, properties, numModes, options);
+  const restrained = rigidBodyCount === 0;
+  const A = sectionProperties.area; // Cross-sectional area
+  const I = sectionProperties.momentOfInertia; // Moment of inertia
 
-  // Calculate geometric properties
-  const A = width * depth; // Cross-sectional area
-  const I = (width * Math.pow(depth, 3)) / 12; // Moment of inertia
-  
-  // Calculate key quantities
-  const flexuralRigidity = youngsModulus * I; // EI in N·m²
-  const massPerUnitLength = density * A; // m = ρA in kg/m
+  // Elastic modes from the selected solver (rigid-body modes are added separately below)
+  const calculateElasticModes = (timoshenko: boolean): ElasticMode[] => {
+    if (solver === 'finite-element') {
+      return solveFiniteElementModes(finiteElementModel(timoshenko), count, x, { flexuralRigidity, massPerUnitLength });
+    }
+    if (timoshenko && shearRigidity !== null) {
+      return calculateTimoshenkoModes(
+        beamType,
+        {
+          length,
+          flexuralRigidity,
+          shearRigidity,
+          massPerUnitLength,
+          rotaryInertia: density * I,
+        },
+        count,
+        x
+      );
+    }
+    return solveCharacteristicEquation(beamType, count).map((bL) => {
+      const omegaN = Math.pow(bL, 2) * Math.sqrt((youngsModulus * I) / (density * A * Math.pow(length, 4)));
+      const shape = calculateModeShape(beamType, bL, length, dx);
+      return {
+        frequency: omegaN / (2 * Math.PI), // Convert to Hz
+        bL,
+        w: shape.w,
+        modalMass: massPerUnitLength * trapezoid(shape.x, shape.w.map((value) => value * value)),
+        boundaryResiduals: shape.boundaryResiduals,
+      };
+    });
+  };
 
-  // Solve characteristic equation
-  const bLValues = solveCharacteristicEquation(beamType, numModes);
+  // Rigid-body modes have zero frequency and bL = 0, and come first
+  const massPerLengthAt = (pos: number) =>
+    segments ? segmentAt(segments, pos).density * sectionPropertiesAt(segments, pos).area : massPerUnitLength;
+  const rigidBodyModes = calculateRigidBodyModes(
+    beamType,
+    length,
+    dx,
+    massPerLengthAt,
+    attachments,
+    foundationModulus
+  );
+  const eulerBernoulliModes = calculateElasticModes(false);
+  const elasticModes = theory === 'timoshenko' ? calculateElasticModes(true) : eulerBernoulliModes;
 
-  // Calculate natural frequencies
-  const naturalFrequencies = bLValues.map((bL) => {
-    const omegaN = Math.pow(bL, 2) * Math.sqrt((youngsModulus * I) / (density * A * Math.pow(length, 4)));
-    return omegaN / (2 * Math.PI); // Convert to Hz
-  });
+  const eulerBernoulliFrequencies = [...rigidBodyModes.map(() => 0), ...eulerBernoulliModes.map((m) => m.frequency)];
+  const naturalFrequencies = [...rigidBodyModes.map(() => 0), ...elasticModes.map((m) => m.frequency)];
+
+  // Mass-weighted integral ∫ρA·w·f dx + Σ m·w·f of a mode shape against a deflection f, over the
+  // beam and its attached point masses
+  const massWeighted = (shape: { x: number[]; w: number[] }, deflectionAt: (pos: number) => number) =>
+    trapezoid(shape.x, shape.w.map((value, i) => massPerLengthAt(shape.x[i]) * value * deflectionAt(shape.x[i]))) +
+    attachments.reduce(
+      (sum, attachment) =>
+        attachment.type === 'mass'
+          ? sum +
+            attachment.mass * interpolate(shape.x, shape.w, attachment.position) * deflectionAt(attachment.position)
+          : sum,
+      0
+    );
+  const totalMass = massWeighted({ x, w: x.map(() => 1) }, () => 1);
 
-  // Calculate mode shapes
-  const modeShapes: ModeShape[] = bLValues.map((bL, index) => {
-    const { x, w } = calculateModeShape(beamType, bL, length);
+  // Base excitation in translation moves every point of the beam alike, so each mode takes the share
+  // Γ = L/m of it, with L = ∫ρA·w dx + Σ m·w; its effective mass L²/m sums to the total mass over all
+  // modes of an unsupported beam (less the mass that the supports carry directly otherwise)
+  const modeShapes: ModeShape[] = [
+    ...rigidBodyModes.map((m) => ({ ...m, bL: 0, rigidBody: true })),
+    ...elasticModes.map((m) => ({
+      x,
+      w: m.w,
+      bL: m.bL,
+      rigidBody: false,
+      modalMass: m.modalMass,
+      boundaryResiduals: m.boundaryResiduals,
+    })),
+  ].map((shape, index) => {
+    const omega = 2 * Math.PI * naturalFrequencies[index];
+    const excitation = massWeighted(shape, () => 1);
+    const effectiveMass = (excitation * excitation) / shape.modalMass;
     return {
       mode: index + 1,
-      x,
-      w,
-      bL,
+      ...shape,
+      modalStiffness: omega * omega * shape.modalMass,
+      massNormalizedW: shape.w.map((value) => value / Math.sqrt(shape.modalMass)),
+      participationFactor: excitation / shape.modalMass,
+      effectiveMass,
+      effectiveMassFraction: effectiveMass / totalMass,
     };
   });
+
+  // Buckling under compression (calculateFrequencyLoadCurve follows the frequencies on the way there)
+  const timoshenko = theory === 'timoshenko';
+  const buckling =
+    properties.axialLoad !== undefined && restrained
+      ? solveFiniteElementBuckling(finiteElementModel(timoshenko), count, x).map((m, index) => ({
+          mode: index + 1,
+          criticalLoad: m.load,
+          effectiveLengthFactor: (Math.PI / length) * Math.sqrt(flexuralRigidity / m.load),
+          x,
+          w: m.w,
+        }))
+      : null;
+
+  // Calculate static deflection under the load case (only if every load lies on the beam)
+  const loads = options.loads ?? createDefaultLoadCase(beamType, length);
+  const staticDeflection = !loads.every((load) => isValidLoad(load, length))
+    ? null
+    : solver === 'finite-element'
+      ? calculateFiniteElementStaticDeflection(finiteElementModel(theory === 'timoshenko'), loads, (pos) =>
+          segments ? sectionPropertiesAt(segments, pos) : sectionProperties
+        )
+      : calculateStaticDeflection(
+          beamType,
+          length,
+          flexuralRigidity,
+          sectionProperties,
+          loads,
+          shearRigidity ?? Infinity
+        );
+  const strengthCheck = staticDeflection
+    ? calculateStrengthCheck(
+        staticDeflection,
+        (pos) => (segments ? segmentAt(segments, pos) : properties),
+        properties.requiredSafetyFactor
+      )
+    : null;
   
-  // Calculate static deflection (under 1000N point load)
-  const staticDeflection = calculateStaticDeflection(beamType, properties, 1000);
-  
-  // Calculate damping coefficient if damping ratio is provided
-  // For beam: c ≈ 2ζω_n * m_per_unit_length (approximate for first mode)
-  let dampingCoefficient: number | null = null;
-  let dampedResponse: DampedResponse | null = null;
-  
-  if (properties.dampingRatio !== undefined && properties.dampingRatio > 0 && naturalFrequencies.length > 0) {
-    const omega1 = naturalFrequencies[0] * 2 * Math.PI; // Convert Hz to rad/s
-    const zeta = properties.dampingRatio; // Damping ratio
-    // For distributed system: c ≈ 2ζω_n * m (per unit length)
-    dampingCoefficient = 2 * zeta * omega1 * massPerUnitLength;
-    
-    // Calculate damped response for first mode
-    if (zeta > 0 && zeta < 1) {
-      // Adaptive duration: show at least 15 periods, but minimum 5 seconds
-      // For low frequencies, we need more time to see enough cycles
-      const period = 1 / naturalFrequencies[0]; // Period in seconds
-      const minDuration = 5.0; // Minimum 5 seconds
-      const periodsToShow = 15; // Show at least 15 periods
-      const adaptiveDuration = Math.max(periodsToShow * period, minDuration);
-      
-      // Also ensure we see decay: at least 3 time constants
-      // Time constant τ = 1/(ζω_n)
-      const timeConstant = 1 / (zeta * omega1);
-      const decayDuration = 3 * timeConstant;
-      
-      // Use the maximum of both requirements, but cap at 60 seconds for performance
-      const maxDuration = 60.0; // Maximum 60 seconds
-      const duration = Math.min(Math.max(adaptiveDuration, decayDuration, minDuration), maxDuration);
-      
-      dampedResponse = calculateDampedResponse(naturalFrequencies[0], zeta, duration, 1.0);
-    }
-  }
+  // The static deflection resolved into the modes by the mass-weighted projection
+  // q_r = (∫ρA·φ_r·w dx + Σ m·φ_r·w) / m_r, so that the beam can be released from it into free vibration
+  const staticModalCoordinates = staticDeflection
+    ? modeShapes.map(
+        (shape) =>
+          massWeighted(shape, (pos) => interpolate(staticDeflection.x, staticDeflection.y, pos)) / shape.modalMass
+      )
+    : null;
+
+  // Each mode behaves as a single-degree-of-freedom oscillator of its generalised mass, so its
+  // damping coefficient is discrete and depends on how the shape is scaled (to a peak of 1 here)
+  const dampingRatios = modalDampingRatios(properties.damping, naturalFrequencies);
+  const modalDamping = properties.damping
+    ? modeShapes.map((shape, index) => {
+        const omega = 2 * Math.PI * naturalFrequencies[index];
+        const zeta = dampingRatios[index];
+        return {
+          mode: shape.mode,
+          dampingRatio: zeta,
+          dampedFrequency: zeta < 1 ? naturalFrequencies[index] * Math.sqrt(1 - zeta * zeta) : 0,
+          dampingCoefficient: 2 * zeta * omega * shape.modalMass,
+        };
+      })
+    : null;
 
   return {
+    theory,
+    solver,
     naturalFrequencies,
+    eulerBernoulliFrequencies: theory === 'timoshenko' ? eulerBernoulliFrequencies : null,
     modeShapes,
+    sectionProperties,
+    segmentProperties: segments ? calculateSegmentProperties(segments) : null,
     flexuralRigidity,
     massPerUnitLength,
+    shearRigidity,
+    shearCorrectionFactor,
+    axialLoad,
+    buckling,
+    foundationFrequency:
+      foundationModulus > 0 ? Math.sqrt(foundationModulus / massPerUnitLength) / (2 * Math.PI) : null,
     staticDeflection,
-    dampingCoefficient,
-    dampedResponse,
+    strengthCheck,
+    totalMass,
+    staticModalCoordinates,
+    modalDamping,
   };
 }
 
+/**
+ * Checks the beam inputs that the analysis cannot work with: the length, the section and material (or
+ * every segment), the attachments, the foundation, the damping model and the required safety factor
+ */
+export function isValidBeamProperties(properties: BeamProperties): boolean {
+  const { length, segments, attachments, foundationModulus, damping, requiredSafetyFactor } = properties;
+  const validBeam = segments
+    ? isValidSegments(segments, length)
+    : isValidSection(properties.section) &&
+      properties.youngsModulus > 0 &&
+      properties.density > 0 &&
+      isValidShearProperties(properties.poissonsRatio, properties.shearModulus);
+  return (
+    length > 0 &&
+    validBeam &&
+    (attachments ?? []).every((attachment) => isValidAttachment(attachment, length)) &&
+    (foundationModulus ?? 0) >= 0 &&
+    (!damping || isValidDampingModel(damping)) &&
+    (requiredSafetyFactor === undefined || isValidSafetyFactor(requiredSafetyFactor))
+  );
+}
+
+/**
+ * Validates the inputs and runs the analysis, as the main page and the report both do. Returns null
+ * if the properties are invalid or the calculation fails (the error is logged).
+ */
+export function analyseBeam(
+  beamType: BeamType,
+  properties: BeamProperties,
+  numModes: number,
+  options: AnalysisOptions = {}
+): BeamResults | null {
+  if (!isValidBeamProperties(properties)) return null;
+  try {
+    return calculateBeamAnalysis(beamType, properties, numModes, options);
+  } catch (error) {
+    console.error('Calculation error:', error);
+    return null;
+  }
+}
+
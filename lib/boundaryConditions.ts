@@ -0,0 +1,47 @@
+export type BeamType =
+  | 'cantilever'
+  | 'simply-supported'
+  | 'fixed-fixed'
+  | 'fixed-pinned'
+  | 'free-free'
+  | 'pinned-free'
+  | 'fixed-guided'
+  | 'pinned-guided';
+
+export type EndCondition = 'fixed' | 'pinned' | 'free' | 'guided';
+
+// Support at x = 0 and x = L for each beam type
+export const endConditions: Record<BeamType, [EndCondition, EndCondition]> = {
+  'cantilever': ['fixed', 'free'],
+  'simply-supported': ['pinned', 'pinned'],
+  'fixed-fixed': ['fixed', 'fixed'],
+  'fixed-pinned': ['fixed', 'pinned'],
+  'free-free': ['free', 'free'],
+  'pinned-free': ['pinned', 'free'],
+  'fixed-guided': ['fixed', 'guided'],
+  'pinned-guided': ['pinned', 'guided'],
+};
+
+// Number of zero-frequency rigid-body modes for each beam type
+export const rigidBodyModeCount: Record<BeamType, number> = {
+  'cantilever': 0,
+  'simply-supported': 0,
+  'fixed-fixed': 0,
+  'fixed-pinned': 0,
+  'free-free': 2, // Translation and rotation about the centre
+  'pinned-free': 1, // Rotation about the pin
+  'fixed-guided': 0,
+  'pinned-guided': 0,
+};
+
+// Rigid-body modes as straight lines w = a + s·(x/L), given as [a, s]
+export const rigidBodyLines: Record<BeamType, [number, number][]> = {
+  'cantilever': [],
+  'simply-supported': [],
+  'fixed-fixed': [],
+  'fixed-pinned': [],
+  'free-free': [[1, 0], [-1, 2]], // Heave, and pitch about the centre
+  'pinned-free': [[0, 1]], // Rotation about the pin at x = 0
+  'fixed-guided': [],
+  'pinned-guided': [],
+};
@@ -0,0 +1,356 @@
+import type { Quantity } from './units';
+
+export type SectionType =
+  | 'rectangle'
+  | 'hollow-rectangle'
+  | 'circle'
+  | 'tube'
+  | 'i-beam'
+  | 'channel'
+  | 't-section'
+  | 'angle'
+  | 'custom';
+
+// All dimensions in meters. Bending is about the horizontal axis, so `depth`
+// is always the overall height of the section in the plane of vibration.
+export type CrossSection =
+  | { type: 'rectangle'; width: number; depth: number }
+  | { type: 'hollow-rectangle'; width: number; depth: number; thickness: number }
+  | { type: 'circle'; diameter: number }
+  | { type: 'tube'; diameter: number; thickness: number }
+  | { type: 'i-beam'; width: number; depth: number; flangeThickness: number; webThickness: number }
+  | { type: 'channel'; width: number; depth: number; flangeThickness: number; webThickness: number }
+  | { type: 't-section'; width: number; depth: number; flangeThickness: number; webThickness: number }
+  | { type: 'angle'; width: number; depth: number; thickness: number }
+  | { type: 'custom'; area: number; momentOfInertia: number; extremeFibreDistance: number };
+
+export interface SectionProperties {
+  area: number; // A in m²
+  momentOfInertia: number; // I in m⁴ about the horizontal centroidal axis
+  centroid: number; // Distance of the neutral axis from the bottom fibre in meters
+  extremeFibreDistance: number; // c = largest distance from neutral axis to a fibre in meters
+  sectionModulus: number; // Z = I/c in m³
+  shearStressFactor: number; // Q/(I·b) at the neutral axis in 1/m², so the peak shear stress is τ = V·Q/(I·b)
+}
+
+export interface SectionField {
+  key: string;
+  label: string; // Without the unit, which depends on the unit system
+  quantity: Quantity;
+}
+
+export const sectionTypes: { value: SectionType; label: string }[] = [
+  { value: 'rectangle', label: 'Rectangle' },
+  { value: 'hollow-rectangle', label: 'Hollow Rectangle' },
+  { value: 'circle', label: 'Round Bar' },
+  { value: 'tube', label: 'Round Tube' },
+  { value: 'i-beam', label: 'I / H Beam' },
+  { value: 'channel', label: 'Channel' },
+  { value: 't-section', label: 'T-Section' },
+  { value: 'angle', label: 'Angle' },
+  { value: 'custom', label: 'Custom (A, I)' },
+];
+
+// Input fields for each section type, in display order
+export const sectionFields: Record<SectionType, SectionField[]> = {
+  'rectangle': [
+    { key: 'width', label: 'Width', quantity: 'dimension' },
+    { key: 'depth', label: 'Depth', quantity: 'dimension' },
+  ],
+  'hollow-rectangle': [
+    { key: 'width', label: 'Width', quantity: 'dimension' },
+    { key: 'depth', label: 'Depth', quantity: 'dimension' },
+    { key: 'thickness', label: 'Wall Thickness', quantity: 'dimension' },
+  ],
+  'circle': [
+    { key: 'diameter', label: 'Diameter', quantity: 'dimension' },
+  ],
+  'tube': [
+    { key: 'diameter', label: 'Outer Diameter', quantity: 'dimension' },
+    { key: 'thickness', label: 'Wall Thickness', quantity: 'dimension' },
+  ],
+  'i-beam': [
+    { key: 'width', label: 'Flange Width', quantity: 'dimension' },
+    { key: 'depth', label: 'Overall Depth', quantity: 'dimension' },
+    { key: 'flangeThickness', label: 'Flange Thickness', quantity: 'dimension' },
+    { key: 'webThickness', label: 'Web Thickness', quantity: 'dimension' },
+  ],
+  'channel': [
+    { key: 'width', label: 'Flange Width', quantity: 'dimension' },
+    { key: 'depth', label: 'Overall Depth', quantity: 'dimension' },
+    { key: 'flangeThickness', label: 'Flange Thickness', quantity: 'dimension' },
+    { key: 'webThickness', label: 'Web Thickness', quantity: 'dimension' },
+  ],
+  't-section': [
+    { key: 'width', label: 'Flange Width', quantity: 'dimension' },
+    { key: 'depth', label: 'Overall Depth', quantity: 'dimension' },
+    { key: 'flangeThickness', label: 'Flange Thickness', quantity: 'dimension' },
+    { key: 'webThickness', label: 'Stem Thickness', quantity: 'dimension' },
+  ],
+  'angle': [
+    { key: 'width', label: 'Horizontal Leg', quantity: 'dimension' },
+    { key: 'depth', label: 'Vertical Leg', quantity: 'dimension' },
+    { key: 'thickness', label: 'Leg Thickness', quantity: 'dimension' },
+  ],
+  'custom': [
+    { key: 'area', label: 'Area A', quantity: 'area' },
+    { key: 'momentOfInertia', label: 'Moment of Inertia I', quantity: 'momentOfInertia' },
+    { key: 'extremeFibreDistance', label: 'Extreme Fibre Distance c', quantity: 'dimension' },
+  ],
+};
+
+/**
+ * Returns a reasonable starting section of the given type
+ */
+export function createDefaultSection(type: SectionType): CrossSection {
+  switch (type) {
+    case 'rectangle':
+      return { type, width: 0.1, depth: 0.3 };
+    case 'hollow-rectangle':
+      return { type, width: 0.1, depth: 0.2, thickness: 0.008 };
+    case 'circle':
+      return { type, diameter: 0.05 };
+    case 'tube':
+      return { type, diameter: 0.06, thickness: 0.004 };
+    case 'i-beam':
+      return { type, width: 0.1, depth: 0.2, flangeThickness: 0.0085, webThickness: 0.0056 };
+    case 'channel':
+      return { type, width: 0.075, depth: 0.2, flangeThickness: 0.0115, webThickness: 0.0085 };
+    case 't-section':
+      return { type, width: 0.1, depth: 0.1, flangeThickness: 0.011, webThickness: 0.011 };
+    case 'angle':
+      return { type, width: 0.08, depth: 0.08, thickness: 0.008 };
+    case 'custom':
+      return { type, area: 3.0e-3, momentOfInertia: 2.0e-5, extremeFibreDistance: 0.1 };
+  }
+}
+
+/**
+ * Checks that every dimension is positive and that walls, flanges and webs fit inside the outline
+ */
+export function isValidSection(section: CrossSection): boolean {
+  const values = sectionFields[section.type].map((field) => getSectionValue(section, field.key));
+  if (values.some((value) => !(value > 0))) return false;
+
+  switch (section.type) {
+    case 'hollow-rectangle':
+      return 2 * section.thickness < Math.min(section.width, section.depth);
+    case 'tube':
+      return 2 * section.thickness < section.diameter;
+    case 'i-beam':
+    case 'channel':
+      return 2 * section.flangeThickness < section.depth && section.webThickness <= section.width;
+    case 't-section':
+      return section.flangeThickness < section.depth && section.webThickness <= section.width;
+    case 'angle':
+      return section.thickness < Math.min(section.width, section.depth);
+    default:
+      return true;
+  }
+}
+
+/**
+ * Reads a dimension of a section by field key (0 if the section has no such field)
+ */
+export function getSectionValue(section: CrossSection, key: string): number {
+  const value = (section as unknown as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Returns a copy of the section with one dimension replaced
+ */
+export function setSectionValue(section: CrossSection, key: string, value: number): CrossSection {
+  return { ...section, [key]: value } as CrossSection;
+}
+
+/**
+ * Overall depth of a section in the plane of bending (twice the extreme fibre distance for custom sections)
+ */
+export function getSectionDepth(section: CrossSection): number {
+  switch (section.type) {
+    case 'circle':
+    case 'tube':
+      return section.diameter;
+    case 'custom':
+      return 2 * section.extremeFibreDistance;
+    default:
+      return section.depth;
+  }
+}
+
+// Rectangle used to build up thin-walled sections: width b, height h, centroid height yc
+interface RectanglePart {
+  b: number;
+  h: number;
+  yc: number;
+}
+
+/**
+ * Combines rectangular parts (negative b for cut-outs) using the parallel axis theorem
+ */
+function compositeProperties(parts: RectanglePart[], depth: number): SectionProperties {
+  const area = parts.reduce((sum, p) => sum + p.b * p.h, 0);
+  const centroid = parts.reduce((sum, p) => sum + p.b * p.h * p.yc, 0) / area;
+  const momentOfInertia = parts.reduce(
+    (sum, p) => sum + (p.b * Math.pow(p.h, 3)) / 12 + p.b * p.h * Math.pow(p.yc - centroid, 2),
+    0
+  );
+  const extremeFibreDistance = Math.max(centroid, depth - centroid);
+
+  // First moment Q of the area above the neutral axis, and the width b cut by the axis
+  const firstMoment = parts.reduce((sum, p) => {
+    const bottom = Math.max(p.yc - p.h / 2, centroid);
+    const top = p.yc + p.h / 2;
+    return top > bottom ? sum + p.b * (top - bottom) * ((top + bottom) / 2 - centroid) : sum;
+  }, 0);
+  const width = parts.reduce(
+    (sum, p) => (p.yc - p.h / 2 <= centroid && centroid < p.yc + p.h / 2 ? sum + p.b : sum),
+    0
+  );
+
+  return {
+    area,
+    momentOfInertia,
+    centroid,
+    extremeFibreDistance,
+    sectionModulus: momentOfInertia / extremeFibreDistance,
+    shearStressFactor: firstMoment / (momentOfInertia * width),
+  };
+}
+
+/**
+ * Calculates area, second moment of area and section modulus for bending about the horizontal axis.
+ * Angles are treated about their geometric (not principal) axis. The shear stress factor follows
+ * Jourawski's formula at the neutral axis; custom sections assume the 1.5·V/A of a solid rectangle.
+ */
+export function calculateSectionProperties(section: CrossSection): SectionProperties {
+  switch (section.type) {
+    case 'rectangle': {
+      const { width, depth } = section;
+      return compositeProperties([{ b: width, h: depth, yc: depth / 2 }], depth);
+    }
+    case 'hollow-rectangle': {
+      const { width, depth, thickness } = section;
+      return compositeProperties(
+        [
+          { b: width, h: depth, yc: depth / 2 },
+          { b: -(width - 2 * thickness), h: depth - 2 * thickness, yc: depth / 2 },
+        ],
+        depth
+      );
+    }
+    case 'circle': {
+      const r = section.diameter / 2;
+      const momentOfInertia = (Math.PI * Math.pow(r, 4)) / 4;
+      return {
+        area: Math.PI * r * r,
+        momentOfInertia,
+        centroid: r,
+        extremeFibreDistance: r,
+        sectionModulus: momentOfInertia / r,
+        shearStressFactor: 4 / (3 * Math.PI * r * r),
+      };
+    }
+    case 'tube': {
+      const ro = section.diameter / 2;
+      const ri = ro - section.thickness;
+      const momentOfInertia = (Math.PI * (Math.pow(ro, 4) - Math.pow(ri, 4))) / 4;
+      return {
+        area: Math.PI * (ro * ro - ri * ri),
+        momentOfInertia,
+        centroid: ro,
+        extremeFibreDistance: ro,
+        sectionModulus: momentOfInertia / ro,
+        shearStressFactor: ((2 / 3) * (Math.pow(ro, 3) - Math.pow(ri, 3))) / (momentOfInertia * 2 * section.thickness),
+      };
+    }
+    case 'i-beam':
+    case 'channel': {
+      // A channel has the same second moment about the horizontal axis as an I-beam
+      const { width, depth, flangeThickness: tf, webThickness: tw } = section;
+      return compositeProperties(
+        [
+          { b: width, h: tf, yc: tf / 2 },
+          { b: tw, h: depth - 2 * tf, yc: depth / 2 },
+          { b: width, h: tf, yc: depth - tf / 2 },
+        ],
+        depth
+      );
+    }
+    case 't-section': {
+      const { width, depth, flangeThickness: tf, webThickness: tw } = section;
+      return compositeProperties(
+        [
+          { b: tw, h: depth - tf, yc: (depth - tf) / 2 },
+          { b: width, h: tf, yc: depth - tf / 2 },
+        ],
+        depth
+      );
+    }
+    case 'angle': {
+      const { width, depth, thickness: t } = section;
+      return compositeProperties(
+        [
+          { b: width, h: t, yc: t / 2 },
+          { b: t, h: depth - t, yc: t + (depth - t) / 2 },
+        ],
+        depth
+      );
+    }
+    case 'custom': {
+      const { area, momentOfInertia, extremeFibreDistance } = section;
+      return {
+        area,
+        momentOfInertia,
+        centroid: extremeFibreDistance,
+        extremeFibreDistance,
+        sectionModulus: momentOfInertia / extremeFibreDistance,
+        shearStressFactor: 1.5 / area, // As for a solid rectangle
+      };
+    }
+  }
+}
+
+/**
+ * Checks the shear properties used by Timoshenko theory: Poisson's ratio must lie in (-1, 0.5) so that
+ * the default G = E/(2(1+ν)) is positive, and a given shear modulus must be positive
+ */
+export function isValidShearProperties(poissonsRatio?: number, shearModulus?: number): boolean {
+  return (
+    (poissonsRatio === undefined || (poissonsRatio > -1 && poissonsRatio < 0.5)) &&
+    (shearModulus === undefined || shearModulus > 0)
+  );
+}
+
+/**
+ * Timoshenko shear correction factor κ (shear area = κA).
+ * Solid and round sections use Cowper's expressions in terms of Poisson's ratio; thin-walled open
+ * and box sections assume the web(s) carry all of the shear. Custom sections use 5/6.
+ */
+export function calculateShearCorrectionFactor(section: CrossSection, poissonsRatio: number): number {
+  const nu = poissonsRatio;
+  const { area } = calculateSectionProperties(section);
+
+  switch (section.type) {
+    case 'rectangle':
+      return (10 * (1 + nu)) / (12 + 11 * nu);
+    case 'circle':
+      return (6 * (1 + nu)) / (7 + 6 * nu);
+    case 'tube': {
+      const m = (section.diameter - 2 * section.thickness) / section.diameter; // Inner/outer radius
+      const m2 = m * m;
+      return (6 * (1 + nu) * Math.pow(1 + m2, 2)) / ((7 + 6 * nu) * Math.pow(1 + m2, 2) + (20 + 12 * nu) * m2);
+    }
+    case 'hollow-rectangle':
+      return (2 * section.thickness * section.depth) / area;
+    case 'i-beam':
+    case 'channel':
+    case 't-section':
+      return (section.webThickness * section.depth) / area;
+    case 'angle':
+      return (section.thickness * section.depth) / area;
+    case 'custom':
+      return 5 / 6;
+  }
+}
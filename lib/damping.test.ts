@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { isValidDampingModel, modalDampingRatios } from './damping';
+
+describe('modal damping ratios', () => {
+  const frequencies = [0, 0, 5, 20, 80]; // Hz, two rigid-body modes first
+
+  it('gives ζ = α/(2ω) + βω/2 for Rayleigh damping', () => {
+    const alpha = 0.8;
+    const beta = 2e-4;
+    const ratios = modalDampingRatios({ type: 'rayleigh', alpha, beta }, frequencies);
+    frequencies.slice(2).forEach((frequency, index) => {
+      const omega = 2 * Math.PI * frequency;
+      expect(ratios[index + 2]).toBeCloseTo(alpha / (2 * omega) + (beta * omega) / 2, 12);
+    });
+  });
+
+  it('makes mass-proportional damping fall and stiffness-proportional damping rise with frequency', () => {
+    const massProportional = modalDampingRatios({ type: 'rayleigh', alpha: 1, beta: 0 }, frequencies).slice(2);
+    const stiffnessProportional = modalDampingRatios({ type: 'rayleigh', alpha: 0, beta: 1e-4 }, frequencies).slice(2);
+    expect(massProportional[0] / massProportional[1]).toBeCloseTo(4, 12);
+    expect(stiffnessProportional[1] / stiffnessProportional[0]).toBeCloseTo(4, 12);
+  });
+
+  it('reproduces two target ratios with α and β fitted to them', () => {
+    // ζ = 2% at 5 Hz and 80 Hz: α = 2ζω₁ω₂/(ω₁ + ω₂), β = 2ζ/(ω₁ + ω₂)
+    const [omega1, omega2] = [5, 80].map((frequency) => 2 * Math.PI * frequency);
+    const alpha = (2 * 0.02 * omega1 * omega2) / (omega1 + omega2);
+    const beta = (2 * 0.02) / (omega1 + omega2);
+    const ratios = modalDampingRatios({ type: 'rayleigh', alpha, beta }, frequencies);
+    expect(ratios[2]).toBeCloseTo(0.02, 12);
+    expect(ratios[4]).toBeCloseTo(0.02, 12);
+    expect(ratios[3]).toBeLessThan(0.02);
+  });
+
+  it('leaves rigid-body modes undamped', () => {
+    const models = [
+      { type: 'modal', dampingRatio: 0.05 },
+      { type: 'rayleigh', alpha: 1, beta: 1e-3 },
+      { type: 'hysteretic', lossFactor: 0.1 },
+    ] as const;
+    models.forEach((model) => expect(modalDampingRatios(model, frequencies).slice(0, 2)).toEqual([0, 0]));
+  });
+
+  it('carries the last per-mode ratio on to the higher modes', () => {
+    const ratios = modalDampingRatios({ type: 'per-mode', dampingRatios: [0.01, 0.03] }, [5, 20, 80, 150]);
+    expect(ratios).toEqual([0.01, 0.03, 0.03, 0.03]);
+  });
+
+  it('gives ζ = η/2 for a hysteretic loss factor and no damping without a model', () => {
+    expect(modalDampingRatios({ type: 'hysteretic', lossFactor: 0.04 }, [5, 20])).toEqual([0.02, 0.02]);
+    expect(modalDampingRatios(undefined, [5, 20])).toEqual([0, 0]);
+  });
+
+  it('rejects negative coefficients and an empty per-mode list', () => {
+    expect(isValidDampingModel({ type: 'rayleigh', alpha: -0.1, beta: 0 })).toBe(false);
+    expect(isValidDampingModel({ type: 'per-mode', dampingRatios: [] })).toBe(false);
+    expect(isValidDampingModel({ type: 'rayleigh', alpha: 0, beta: 0 })).toBe(true);
+  });
+});
@@ -0,0 +1,161 @@
+export type DampingModelType = 'modal' | 'per-mode' | 'rayleigh' | 'hysteretic';
+
+// How the beam dissipates energy. Every model is reduced to an effective damping ratio per mode,
+// which the dynamic calculations use; the hysteretic model also keeps its exact frequency response.
+export type DampingModel =
+  | { type: 'modal'; dampingRatio: number } // The same ζ in every mode
+  | { type: 'per-mode'; dampingRatios: number[] } // ζ of modes 1, 2, …; the last entry carries on for higher modes
+  | { type: 'rayleigh'; alpha: number; beta: number } // C = α·M + β·K, with α in 1/s and β in s
+  | { type: 'hysteretic'; lossFactor: number }; // Structural damping: complex stiffness K·(1 + iη)
+
+export const dampingModelTypes: { value: DampingModelType; label: string; description: string }[] = [
+  { value: 'modal', label: 'Constant Modal ζ', description: 'The same damping ratio in every mode' },
+  { value: 'per-mode', label: 'Per-Mode ζ', description: 'A damping ratio for each mode, e.g. from a modal test' },
+  {
+    value: 'rayleigh',
+    label: 'Rayleigh (α, β)',
+    description: 'Damping matrix proportional to mass and stiffness, ζ = α/(2ω) + βω/2',
+  },
+  {
+    value: 'hysteretic',
+    label: 'Hysteretic (η)',
+    description: 'Loss factor of the material, independent of frequency; ζ = η/2 at resonance',
+  },
+];
+
+/**
+ * Returns a reasonable starting damping model of the given type, about 2% in the lower modes
+ */
+export function createDefaultDampingModel(type: DampingModelType): DampingModel {
+  switch (type) {
+    case 'modal':
+      return { type, dampingRatio: 0.02 };
+    case 'per-mode':
+      return { type, dampingRatios: [0.02, 0.02, 0.02] };
+    case 'rayleigh':
+      return { type, alpha: 0, beta: 0 };
+    case 'hysteretic':
+      return { type, lossFactor: 0.04 };
+  }
+}
+
+/**
+ * Checks that a damping model has no negative coefficients and at least one per-mode entry
+ */
+export function isValidDampingModel(model: DampingModel): boolean {
+  switch (model.type) {
+    case 'modal':
+      return model.dampingRatio >= 0;
+    case 'per-mode':
+      return model.dampingRatios.length > 0 && model.dampingRatios.every((ratio) => ratio >= 0);
+    case 'rayleigh':
+      return model.alpha >= 0 && model.beta >= 0;
+    case 'hysteretic':
+      return model.lossFactor >= 0;
+  }
+}
+
+/**
+ * Effective viscous damping ratio of each mode from its natural frequency in Hz. Rigid-body modes
+ * store no strain energy and are left undamped; a hysteretic loss factor η gives ζ = η/2, which
+ * dissipates the same energy per cycle at resonance. Without a model every mode is undamped.
+ */
+export function modalDampingRatios(model: DampingModel | undefined, naturalFrequencies: number[]): number[] {
+  return naturalFrequencies.map((frequency, index) => {
+    if (!model || frequency <= 0) return 0;
+    switch (model.type) {
+      case 'modal':
+        return model.dampingRatio;
+      case 'per-mode':
+        return model.dampingRatios[Math.min(index, model.dampingRatios.length - 1)];
+      case 'rayleigh': {
+        const omega = 2 * Math.PI * frequency;
+        return model.alpha / (2 * omega) + (model.beta * omega) / 2;
+      }
+      case 'hysteretic':
+        return model.lossFactor / 2;
+    }
+  });
+}
+
+/**
+ * Short description of a damping model, e.g. "Rayleigh, α = 0.5 1/s, β = 1e-5 s"
+ */
+export function describeDampingModel(model: DampingModel | undefined): string {
+  if (!model) return 'Undamped';
+  switch (model.type) {
+    case 'modal':
+      return `Constant ζ = ${(model.dampingRatio * 100).toFixed(2)}%`;
+    case 'per-mode':
+      return `Per-mode ζ = ${model.dampingRatios.map((ratio) => `${(ratio * 100).toFixed(2)}%`).join(', ')}`;
+    case 'rayleigh':
+      return `Rayleigh, α = ${model.alpha} 1/s, β = ${model.beta} s`;
+    case 'hysteretic':
+      return `Hysteretic, η = ${model.lossFactor}`;
+  }
+}
+
+export type DampingRegime = 'undamped' | 'underdamped' | 'critically-damped' | 'overdamped';
+
+export const dampingRegimeLabels: Record<DampingRegime, string> = {
+  undamped: 'Undamped',
+  underdamped: 'Underdamped',
+  'critically-damped': 'Critically Damped',
+  overdamped: 'Overdamped',
+};
+
+/**
+ * Regime of a mode with the given damping ratio: it oscillates only below ζ = 1
+ */
+export function dampingRegime(dampingRatio: number): DampingRegime {
+  if (dampingRatio <= 0) return 'undamped';
+  if (dampingRatio < 1) return 'underdamped';
+  return dampingRatio === 1 ? 'critically-damped' : 'overdamped';
+}
+
+/**
+ * Time constants in seconds of the exponential decay of a mode of natural frequency ω (rad/s).
+ * An underdamped or critically damped mode decays as e^(-t/τ) with τ = 1/(ζω); an overdamped mode
+ * is the sum of a slow and a fast exponential, τ = 1/(ω·(ζ ∓ √(ζ² − 1))), slow first. An undamped
+ * or rigid-body mode never decays and has none.
+ */
+export function decayTimeConstants(omega: number, dampingRatio: number): number[] {
+  if (omega <= 0 || dampingRatio <= 0) return [];
+  if (dampingRatio <= 1) return [1 / (dampingRatio * omega)];
+  const root = Math.sqrt(dampingRatio * dampingRatio - 1);
+  return [(dampingRatio + root) / omega, 1 / ((dampingRatio + root) * omega)];
+}
+
+/**
+ * Displacement h(t) and velocity h'(t) of a unit-mass oscillator q̈ + 2ζωq̇ + ω²q = 0 set moving
+ * with q(0) = 0 and q̇(0) = 1 (its unit impulse response), for any damping ratio ζ ≥ 0. A rigid-body
+ * mode (ω = 0) drifts as h = t. The overdamped form is written with expm1 so it neither overflows
+ * for large ζωt nor loses accuracy just above ζ = 1.
+ */
+export function impulseResponse(
+  omega: number,
+  dampingRatio: number,
+  time: number
+): { displacement: number; velocity: number } {
+  if (omega === 0) return { displacement: time, velocity: 1 };
+  if (dampingRatio < 1) {
+    const omegaD = omega * Math.sqrt(1 - dampingRatio * dampingRatio);
+    const decay = Math.exp(-dampingRatio * omega * time);
+    const sin = Math.sin(omegaD * time);
+    return {
+      displacement: (decay * sin) / omegaD,
+      velocity: decay * (Math.cos(omegaD * time) - ((dampingRatio * omega) / omegaD) * sin),
+    };
+  }
+  if (dampingRatio === 1) {
+    const decay = Math.exp(-omega * time);
+    return { displacement: time * decay, velocity: decay * (1 - omega * time) };
+  }
+  // Two real roots s₁ = −ω/(ζ + √(ζ² − 1)) (slow) and s₂ = −ω·(ζ + √(ζ² − 1)) (fast):
+  // h = (e^(s₁t) − e^(s₂t))/(s₁ − s₂) and h' = s₁·h + e^(s₂t)
+  const root = Math.sqrt(dampingRatio * dampingRatio - 1);
+  const slow = -omega / (dampingRatio + root);
+  const fast = -omega * (dampingRatio + root);
+  const displacement = (-Math.exp(slow * time) * Math.expm1(-2 * omega * root * time)) / (2 * omega * root);
+  return { displacement, velocity: slow * displacement + Math.exp(fast * time) };
+}
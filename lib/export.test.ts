@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { addPngText } from './export';
+
+// A 1×1 greyscale PNG: signature, IHDR, IDAT and IEND
+const png = Uint8Array.from(
+  atob('iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAAAAAA6fptVAAAACklEQVR4nGNgAAAAAgABSK+kcQAAAABJRU5ErkJggg=='),
+  (character) => character.charCodeAt(0)
+);
+const IHDR_END = 33;
+
+interface Chunk {
+  type: string;
+  data: Uint8Array;
+  crc: number;
+}
+
+function readChunks(file: Uint8Array): Chunk[] {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength);
+  const chunks: Chunk[] = [];
+  for (let offset = 8; offset < file.length; ) {
+    const length = view.getUint32(offset);
+    const type = String.fromCharCode(...file.subarray(offset + 4, offset + 8));
+    const data = file.subarray(offset + 8, offset + 8 + length);
+    chunks.push({ type, data, crc: view.getUint32(offset + 8 + length) });
+    offset += 12 + length;
+  }
+  return chunks;
+}
+
+describe('PNG text metadata', () => {
+  it('puts the tEXt chunks right after IHDR and leaves the image untouched', () => {
+    const tagged = addPngText(png, [
+      ['Title', 'Mode 1 at 12.5 Hz'],
+      ['Software', 'Beam Analysis'],
+    ]);
+    expect(readChunks(tagged).map((chunk) => chunk.type)).toEqual(['IHDR', 'tEXt', 'tEXt', 'IDAT', 'IEND']);
+    expect(tagged.subarray(0, IHDR_END)).toEqual(png.subarray(0, IHDR_END));
+    expect(tagged.subarray(tagged.length - (png.length - IHDR_END))).toEqual(png.subarray(IHDR_END));
+  });
+
+  it('writes the keyword and text separated by a null byte, with the CRC of the chunk', () => {
+    const [, text] = readChunks(addPngText(png, [['Title', 'Mode 1 at 12.5 Hz']]));
+    expect(new TextDecoder('latin1').decode(text.data)).toBe('Title\0Mode 1 at 12.5 Hz');
+    expect(text.crc).toBe(0xeedcddb0); // zlib.crc32 of "tEXt" and the data
+  });
+
+  it('keeps Latin-1 characters and replaces the others with "?"', () => {
+    const [, micro, omega] = readChunks(addPngText(png, [['Units', 'µm'], ['Frequency', 'ω in rad/s']]));
+    expect(Array.from(micro.data.subarray(6))).toEqual([0xb5, 0x6d]);
+    expect(micro.crc).toBe(0xcad707c1);
+    expect(new TextDecoder('latin1').decode(omega.data)).toBe('Frequency\0? in rad/s');
+  });
+
+  it('returns the file unchanged without entries', () => {
+    expect(addPngText(png, [])).toEqual(png);
+  });
+});
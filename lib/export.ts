@@ -0,0 +1,392 @@
+import type {
+  AnalysisOptions,
+  BeamProperties,
+  BeamResults,
+  BeamType,
+  ModeShape,
+  StaticDeflection,
+} from './beamAnalysis';
+import { FreeVibrationResponse, superposeModes } from './freeVibration';
+
+// The inputs behind an export, written at the top of every file so that it describes itself
+export interface ExportHeader {
+  beamType: BeamType;
+  properties: BeamProperties;
+  numModes: number;
+  options: AnalysisOptions;
+}
+
+export interface CsvColumn {
+  label: string; // Column heading, with the SI unit in brackets
+  values: (number | string)[];
+}
+
+export interface KeyQuantity {
+  name: string;
+  value: number;
+  unit: string; // SI unit
+}
+
+export interface LegendEntry {
+  label: string;
+  color: string;
+}
+
+/**
+ * Lines describing the export: what it is, when it was made, its units and the inputs as JSON
+ */
+export function headerLines(header: ExportHeader, exportedAt: Date = new Date()): string[] {
+  const { beamType, properties, numModes, options } = header;
+  return [
+    `Beam Analysis Tool export, ${exportedAt.toISOString()}`,
+    'Units: SI (m, kg, s, N, Pa, rad, Hz)',
+    `beamType: ${beamType}`,
+    `properties: ${JSON.stringify(properties)}`,
+    `analysis: ${JSON.stringify({ numModes, ...options })}`,
+  ];
+}
+
+function csvCell(value: number | string): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Writes columns as CSV under the header, each header line commented out with "# ". Shorter
+ * columns leave their remaining cells empty.
+ */
+export function toCsv(header: ExportHeader, columns: CsvColumn[]): string {
+  const rows = Math.max(0, ...columns.map((column) => column.values.length));
+  return [
+    ...headerLines(header).map((line) => `# ${line}`),
+    columns.map((column) => csvCell(column.label)).join(','),
+    ...Array.from({ length: rows }, (_, i) =>
+      columns.map((column) => (i < column.values.length ? csvCell(column.values[i]) : '')).join(',')
+    ),
+  ].join('\n');
+}
+
+/**
+ * Writes a result as indented JSON, with the inputs that produced it alongside
+ */
+export function toJson(header: ExportHeader, data: Record<string, unknown>): string {
+  const { beamType, properties, numModes, options } = header;
+  return JSON.stringify(
+    {
+      exportedAt: new Date().toISOString(),
+      units: 'SI',
+      beamType,
+      properties,
+      analysis: { numModes, ...options },
+      ...data,
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * The headline numbers of an analysis, in SI units
+ */
+export function keyQuantities(results: BeamResults): KeyQuantity[] {
+  const { sectionProperties, staticDeflection, strengthCheck, buckling } = results;
+  const fundamental = results.naturalFrequencies.findIndex((frequency) => frequency > 0);
+  const quantities: (KeyQuantity | null)[] = [
+    fundamental >= 0
+      ? { name: 'Fundamental frequency', value: results.naturalFrequencies[fundamental], unit: 'Hz' }
+      : null,
+    { name: 'Area (A)', value: sectionProperties.area, unit: 'm²' },
+    { name: 'Moment of inertia (I)', value: sectionProperties.momentOfInertia, unit: 'm⁴' },
+    { name: 'Section modulus (Z)', value: sectionProperties.sectionModulus, unit: 'm³' },
+    { name: 'Flexural rigidity (EI)', value: results.flexuralRigidity, unit: 'N·m²' },
+    { name: 'Mass per unit length (ρA)', value: results.massPerUnitLength, unit: 'kg/m' },
+    { name: 'Total mass', value: results.totalMass, unit: 'kg' },
+    results.shearRigidity !== null ? { name: 'Shear rigidity (κGA)', value: results.shearRigidity, unit: 'N' } : null,
+    results.foundationFrequency !== null
+      ? { name: 'Foundation frequency', value: results.foundationFrequency, unit: 'Hz' }
+      : null,
+    results.axialLoad !== 0 ? { name: 'Axial load', value: results.axialLoad, unit: 'N' } : null,
+    buckling && buckling.length > 0
+      ? { name: 'Critical buckling load', value: buckling[0].criticalLoad, unit: 'N' }
+      : null,
+    staticDeflection ? { name: 'Maximum deflection', value: staticDeflection.maxDeflection, unit: 'm' } : null,
+    staticDeflection
+      ? { name: 'Maximum deflection location', value: staticDeflection.maxDeflectionLocation, unit: 'm' }
+      : null,
+    staticDeflection
+      ? { name: 'Peak bending moment', value: staticDeflection.peakBendingMoment.value, unit: 'N·m' }
+      : null,
+    staticDeflection ? { name: 'Peak bending stress', value: staticDeflection.peakStress.value, unit: 'Pa' } : null,
+    strengthCheck ? { name: 'Safety factor', value: strengthCheck.safetyFactor, unit: '' } : null,
+    fundamental >= 0 && results.modalDamping
+      ? {
+          name: 'Fundamental damping coefficient',
+          value: results.modalDamping[fundamental].dampingCoefficient,
+          unit: 'N·s/m',
+        }
+      : null,
+  ];
+  return quantities.filter((quantity): quantity is KeyQuantity => quantity !== null);
+}
+
+export function keyQuantityColumns(results: BeamResults): CsvColumn[] {
+  const quantities = keyQuantities(results);
+  return [
+    { label: 'Quantity', values: quantities.map((quantity) => quantity.name) },
+    { label: 'Value', values: quantities.map((quantity) => quantity.value) },
+    { label: 'Unit', values: quantities.map((quantity) => quantity.unit) },
+  ];
+}
+
+/**
+ * Natural frequencies with the modal properties and damping of each mode
+ */
+export function modalColumns(results: BeamResults): CsvColumn[] {
+  const { modeShapes, modalDamping } = results;
+  return [
+    { label: 'Mode', values: modeShapes.map((shape) => shape.mode) },
+    { label: 'Frequency (Hz)', values: results.naturalFrequencies },
+    { label: 'bL', values: modeShapes.map((shape) => shape.bL) },
+    { label: 'Rigid body', values: modeShapes.map((shape) => (shape.rigidBody ? 'yes' : 'no')) },
+    { label: 'Modal mass (kg)', values: modeShapes.map((shape) => shape.modalMass) },
+    { label: 'Modal stiffness (N/m)', values: modeShapes.map((shape) => shape.modalStiffness) },
+    { label: 'Participation factor', values: modeShapes.map((shape) => shape.participationFactor) },
+    { label: 'Effective mass (kg)', values: modeShapes.map((shape) => shape.effectiveMass) },
+    { label: 'Effective mass fraction', values: modeShapes.map((shape) => shape.effectiveMassFraction) },
+    ...(modalDamping
+      ? [
+          { label: 'Damping ratio', values: modalDamping.map((damping) => damping.dampingRatio) },
+          { label: 'Damped frequency (Hz)', values: modalDamping.map((damping) => damping.dampedFrequency) },
+        ]
+      : []),
+  ];
+}
+
+/**
+ * The summary of an analysis for JSON export: frequencies, modal properties and key quantities,
+ * leaving out the sampled curves, which go to CSV
+ */
+export function resultsSummary(results: BeamResults): Record<string, unknown> {
+  return {
+    theory: results.theory,
+    solver: results.solver,
+    modes: results.modeShapes.map((shape, index) => ({
+      mode: shape.mode,
+      frequency: results.naturalFrequencies[index],
+      bL: shape.bL,
+      rigidBody: shape.rigidBody,
+      modalMass: shape.modalMass,
+      modalStiffness: shape.modalStiffness,
+      participationFactor: shape.participationFactor,
+      effectiveMass: shape.effectiveMass,
+      effectiveMassFraction: shape.effectiveMassFraction,
+      ...(results.modalDamping && {
+        dampingRatio: results.modalDamping[index].dampingRatio,
+        dampedFrequency: results.modalDamping[index].dampedFrequency,
+      }),
+    })),
+    keyQuantities: keyQuantities(results),
+    sectionProperties: results.sectionProperties,
+    buckling: results.buckling?.map(({ mode, criticalLoad, effectiveLengthFactor }) => ({
+      mode,
+      criticalLoad,
+      effectiveLengthFactor,
+    })),
+    supportReactions: results.staticDeflection?.reactions,
+    strengthCheck: results.strengthCheck,
+  };
+}
+
+/**
+ * Mode shapes as plotted (peak of 1), one column per mode
+ */
+export function modeShapeColumns(modeShapes: ModeShape[]): CsvColumn[] {
+  if (modeShapes.length === 0) return [];
+  return [
+    { label: 'x (m)', values: modeShapes[0].x },
+    ...modeShapes.map((shape) => ({ label: `Mode ${shape.mode}`, values: shape.w })),
+  ];
+}
+
+export function staticDeflectionColumns(staticDeflection: StaticDeflection): CsvColumn[] {
+  return [
+    { label: 'x (m)', values: staticDeflection.x },
+    { label: 'Deflection (m)', values: staticDeflection.y },
+    { label: 'Slope (rad)', values: staticDeflection.slope },
+    { label: 'Shear force (N)', values: staticDeflection.shearForce },
+    { label: 'Bending moment (N·m)', values: staticDeflection.bendingMoment },
+    { label: 'Bending stress (Pa)', values: staticDeflection.stress },
+    { label: 'Shear stress (Pa)', values: staticDeflection.shearStress },
+  ];
+}
+
+/**
+ * Free vibration at the response point: the sum of the included modes, its envelope and the
+ * contribution of each included mode
+ */
+export function freeVibrationColumns(response: FreeVibrationResponse, included: number[]): CsvColumn[] {
+  const sum = superposeModes(response, included);
+  return [
+    { label: 't (s)', values: response.time },
+    { label: `Displacement at x = ${response.position} m (m)`, values: sum.displacement },
+    { label: 'Envelope upper (m)', values: sum.upper },
+    { label: 'Envelope lower (m)', values: sum.lower },
+    ...response.modes
+      .filter((mode) => included.includes(mode.mode))
+      .map((mode) => ({ label: `Mode ${mode.mode} (m)`, values: mode.displacement })),
+  ];
+}
+
+const SVG_NAMESPACE = 'http://www.w3.org/2000/svg';
+const LEGEND_ROW_HEIGHT = 18;
+
+/**
+ * Standalone SVG document of a chart: a white background, the legend (which charts draw outside
+ * their SVG) below the plot, and the header as a comment and as JSON metadata
+ */
+export function chartSvg(svg: SVGSVGElement, header: ExportHeader, legend: LegendEntry[] = []): string {
+  const width = svg.clientWidth || Number(svg.getAttribute('width')) || 800;
+  const plotHeight = svg.clientHeight || Number(svg.getAttribute('height')) || 400;
+  const legendHeight = legend.length > 0 ? Math.ceil(legend.length / 4) * LEGEND_ROW_HEIGHT + 8 : 0;
+  const height = plotHeight + legendHeight;
+
+  const copy = svg.cloneNode(true) as SVGSVGElement;
+  copy.setAttribute('xmlns', SVG_NAMESPACE);
+  copy.setAttribute('width', String(width));
+  copy.setAttribute('height', String(height));
+  copy.setAttribute('viewBox', `0 0 ${width} ${height}`);
+
+  const element = (name: string, attributes: Record<string, string | number>, text?: string) => {
+    const node = document.createElementNS(SVG_NAMESPACE, name);
+    Object.entries(attributes).forEach(([key, value]) => node.setAttribute(key, String(value)));
+    if (text !== undefined) node.textContent = text;
+    return node;
+  };
+
+  const metadata = element('metadata', {}, JSON.stringify(header));
+  const background = element('rect', { x: 0, y: 0, width, height, fill: 'white' });
+  copy.insertBefore(background, copy.firstChild);
+  copy.insertBefore(metadata, copy.firstChild);
+
+  const columnWidth = width / 4;
+  legend.forEach((entry, i) => {
+    const x = (i % 4) * columnWidth + 16;
+    const y = plotHeight + Math.floor(i / 4) * LEGEND_ROW_HEIGHT + 12;
+    copy.appendChild(element('line', { x1: x, y1: y, x2: x + 16, y2: y, stroke: entry.color, 'stroke-width': 2 }));
+    copy.appendChild(
+      element(
+        'text',
+        { x: x + 22, y: y + 4, 'font-size': 12, 'font-family': 'sans-serif', fill: '#374151' },
+        entry.label
+      )
+    );
+  });
+
+  const comment = headerLines(header)
+    .map((line) => line.replace(/--/g, '- -'))
+    .join('\n');
+  const body = new XMLSerializer().serializeToString(copy);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n<!--\n${comment}\n-->\n${body}`;
+}
+
+/**
+ * Entries of a Recharts legend rendered inside a container, with their colours
+ */
+export function chartLegend(container: HTMLElement): LegendEntry[] {
+  return Array.from(container.querySelectorAll<HTMLElement>('.recharts-legend-item-text')).map((item) => ({
+    label: item.textContent ?? '',
+    color: item.style.color || '#374151',
+  }));
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+function crc32(bytes: Uint8Array): number {
+  let crc = 0xffffffff;
+  bytes.forEach((byte) => {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  });
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Adds tEXt chunks to a PNG file right after its IHDR chunk, so that image viewers and tools show
+ * them as the file's metadata. Characters outside Latin-1, which tEXt cannot hold, become "?".
+ */
+export function addPngText(png: Uint8Array, entries: [string, string][]): Uint8Array {
+  const IHDR_END = 8 + 4 + 4 + 13 + 4; // Signature, then length, type, data and CRC of IHDR
+  const chunks = entries.map(([keyword, text]) => {
+    const data = Uint8Array.from(`${keyword}\0${text}`, (character) => {
+      const code = character.charCodeAt(0);
+      return code < 256 ? code : 0x3f; // "?" for characters outside Latin-1
+    });
+    const chunk = new Uint8Array(12 + data.length);
+    const view = new DataView(chunk.buffer);
+    view.setUint32(0, data.length);
+    chunk.set([0x74, 0x45, 0x58, 0x74], 4); // "tEXt"
+    chunk.set(data, 8);
+    view.setUint32(8 + data.length, crc32(chunk.subarray(4, 8 + data.length)));
+    return chunk;
+  });
+  const size = png.length + chunks.reduce((sum, chunk) => sum + chunk.length, 0);
+  const result = new Uint8Array(size);
+  result.set(png.subarray(0, IHDR_END), 0);
+  let offset = IHDR_END;
+  chunks.forEach((chunk) => {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  });
+  result.set(png.subarray(IHDR_END), offset);
+  return result;
+}
+
+/**
+ * Renders an SVG document to a PNG at twice its size, with the header as PNG text metadata
+ */
+export async function svgToPng(svgText: string, header: ExportHeader): Promise<Blob> {
+  const url = URL.createObjectURL(new Blob([svgText], { type: 'image/svg+xml' }));
+  try {
+    const image = new Image();
+    await new Promise<void>((resolve, reject) => {
+      image.onload = () => resolve();
+      image.onerror = () => reject(new Error('The chart could not be drawn as an image'));
+      image.src = url;
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = image.width * 2;
+    canvas.height = image.height * 2;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error('Canvas is not available');
+    context.scale(2, 2);
+    context.drawImage(image, 0, 0);
+    const blob = await new Promise<Blob | null>((resolve) => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error('The chart could not be encoded as PNG');
+
+    const lines = headerLines(header);
+    const png = addPngText(new Uint8Array(await blob.arrayBuffer()), [
+      ['Title', lines[0]],
+      ['Description', lines.slice(1).join('\n')],
+    ]);
+    return new Blob([new Uint8Array(png)], { type: 'image/png' });
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/**
+ * Saves text or a blob as a file through the browser's download. The object URL is released only
+ * after the click has been handled, since some browsers start the download asynchronously.
+ */
+export function downloadFile(fileName: string, content: string | Blob, type: string = 'text/plain'): void {
+  const blob = typeof content === 'string' ? new Blob([content], { type }) : content;
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,606 @@
+import { BeamType, EndCondition, endConditions } from './boundaryConditions';
+import { generalizedSymmetricEigen, solveSymmetric, zeroMatrix } from './linearAlgebra';
+import { Load, loadIntensity } from './loads';
+import { Attachment, restrainedRigidBodyLines } from './attachments';
+import type { BoundaryResidual } from './beamAnalysis';
+
+// Properties of a single two-node beam element (constant along the element)
+export interface BeamElement {
+  length: number; // ℓ in meters
+  flexuralRigidity: number; // EI in N·m²
+  massPerUnitLength: number; // ρA in kg/m
+  rotaryInertia: number; // ρI in kg·m (0 neglects rotary inertia)
+  shearRigidity: number; // κGA in N (Infinity for Euler-Bernoulli)
+}
+
+// Each node has two degrees of freedom, deflection w and rotation θ, numbered [w0, θ0, w1, θ1, ...]
+export interface FiniteElementModel {
+  beamType: BeamType;
+  nodes: number[]; // Node positions in meters, ascending from 0 to L
+  elements: BeamElement[]; // Element i joins nodes i and i + 1
+  attachments: Attachment[]; // Point masses and springs, each at a node
+  foundationModulus?: number; // Winkler foundation under the whole beam in N/m² (none if absent)
+  axialLoad?: number; // Axial force carried along the whole beam in N, tension positive (none if absent)
+}
+
+export interface FiniteElementBucklingMode {
+  load: number; // Critical compressive axial force in N
+  w: number[]; // Normalised to a peak of +1
+}
+
+export interface FiniteElementMode {
+  frequency: number; // Hz
+  bL: number; // Equivalent uniform-beam parameter: ω = (bL)²·√(EI/(ρAL⁴)) for the reference EI and ρA
+  w: number[]; // Normalised to a peak of +1
+  modalMass: number; // Generalised mass uᵀ·M·u of the normalised shape in kg
+  boundaryResiduals: BoundaryResidual[];
+}
+
+// Nodal quantities at each kind of end: deflection w and rotation θ are constrained degrees of
+// freedom; moment M and shear V are natural conditions, met only approximately by the mesh
+const endConditionQuantities: Record<EndCondition, [number, number]> = {
+  'fixed': [0, 1], // Zero deflection and rotation
+  'pinned': [0, 2], // Zero deflection and moment
+  'free': [2, 3], // Zero moment and shear
+  'guided': [1, 3], // Zero rotation and shear
+};
+
+const quantityLabels = ['w = 0', 'θ = 0', 'M = 0', 'V = 0'];
+
+/**
+ * Node positions from start to end (inclusive) for about numElements elements, with a node at each
+ * breakpoint in between. Every span between breakpoints is divided evenly, into at least one element.
+ */
+export function meshNodes(start: number, end: number, numElements: number, breakpoints: number[] = []): number[] {
+  const tolerance = 1e-9 * (end - start);
+  const inside = breakpoints.filter((pos) => pos > start + tolerance && pos < end - tolerance).sort((a, b) => a - b);
+  const stops = [start, ...inside.filter((pos, i) => i === 0 || pos - inside[i - 1] > tolerance), end];
+
+  const nodes = [start];
+  stops.slice(1).forEach((stop, i) => {
+    const from = stops[i];
+    const count = Math.max(1, Math.round((numElements * (stop - from)) / (end - start)));
+    for (let j = 1; j <= count; j++) {
+      nodes.push(j === count ? stop : from + (j * (stop - from)) / count);
+    }
+  });
+  return nodes;
+}
+
+/**
+ * Builds a model of a uniform beam divided into equal elements (split where items are attached)
+ */
+export function createUniformModel(
+  beamType: BeamType,
+  length: number,
+  numElements: number,
+  properties: Omit<BeamElement, 'length'>,
+  attachments: Attachment[] = []
+): FiniteElementModel {
+  const nodes = meshNodes(0, length, numElements, attachments.map((attachment) => attachment.position));
+  return {
+    beamType,
+    nodes,
+    elements: nodes.slice(1).map((end, i) => ({ ...properties, length: end - nodes[i] })),
+    attachments,
+  };
+}
+
+/**
+ * Shear flexibility relative to bending, φ = 12EI/(κGAℓ²) (0 for Euler-Bernoulli elements)
+ */
+function shearParameter(element: BeamElement): number {
+  return (12 * element.flexuralRigidity) / (element.shearRigidity * element.length * element.length);
+}
+
+/**
+ * Length-weighted average of an element property over the whole model
+ */
+export function averageElementProperty(
+  model: FiniteElementModel,
+  key: Exclude<keyof BeamElement, 'length'>
+): number {
+  const length = model.nodes[model.nodes.length - 1] - model.nodes[0];
+  return model.elements.reduce((sum, element) => sum + element[key] * element.length, 0) / length;
+}
+
+/**
+ * Element stiffness and consistent mass matrices for the degrees of freedom [w1, θ1, w2, θ2].
+ * Shear deformation enters through φ (Przemieniecki); with φ = 0 and ρI = 0 these
+ * reduce to the classical Hermite-cubic Euler-Bernoulli matrices. An elastic foundation resists
+ * deflection just as the translational inertia does, so its consistent stiffness is the
+ * translational mass matrix with k in place of ρA. An axial force adds its geometric stiffness.
+ */
+function elementMatrices(
+  element: BeamElement,
+  foundationModulus: number = 0,
+  axialLoad: number = 0
+): { stiffness: number[][]; mass: number[][] } {
+  const { length: l, flexuralRigidity: EI, massPerUnitLength: rhoA, rotaryInertia: rhoI } = element;
+  const phi = shearParameter(element);
+  const p2 = phi * phi;
+
+  const k = EI / ((1 + phi) * l * l * l);
+  const bending = [
+    [12 * k, 6 * l * k, -12 * k, 6 * l * k],
+    [6 * l * k, (4 + phi) * l * l * k, -6 * l * k, (2 - phi) * l * l * k],
+    [-12 * k, -6 * l * k, 12 * k, -6 * l * k],
+    [6 * l * k, (2 - phi) * l * l * k, -6 * l * k, (4 + phi) * l * l * k],
+  ];
+
+  // Translational inertia, per unit ρA
+  const t = l / Math.pow(1 + phi, 2);
+  const m1 = 13 / 35 + (7 * phi) / 10 + p2 / 3;
+  const m2 = (11 / 210 + (11 * phi) / 120 + p2 / 24) * l;
+  const m3 = 9 / 70 + (3 * phi) / 10 + p2 / 6;
+  const m4 = (13 / 420 + (3 * phi) / 40 + p2 / 24) * l;
+  const m5 = (1 / 105 + phi / 60 + p2 / 120) * l * l;
+  const m6 = (1 / 140 + phi / 60 + p2 / 120) * l * l;
+
+  // Rotary inertia
+  const r = rhoI / (Math.pow(1 + phi, 2) * l);
+  const r1 = 6 / 5;
+  const r2 = (1 / 10 - phi / 2) * l;
+  const r3 = (2 / 15 + phi / 6 + p2 / 3) * l * l;
+  const r4 = (-1 / 30 - phi / 6 + p2 / 6) * l * l;
+
+  const translational = [
+    [t * m1, t * m2, t * m3, -t * m4],
+    [t * m2, t * m5, t * m4, -t * m6],
+    [t * m3, t * m4, t * m1, -t * m2],
+    [-t * m4, -t * m6, -t * m2, t * m5],
+  ];
+  const rotary = [
+    [r * r1, r * r2, -r * r1, r * r2],
+    [r * r2, r * r3, -r * r2, r * r4],
+    [-r * r1, -r * r2, r * r1, -r * r2],
+    [r * r2, r * r4, -r * r2, r * r3],
+  ];
+
+  const geometric = axialLoad !== 0 ? geometricStiffness(element) : zeroMatrix(4);
+  const stiffness = bending.map((row, i) =>
+    row.map((kij, j) => kij + foundationModulus * translational[i][j] + axialLoad * geometric[i][j])
+  );
+  const mass = translational.map((row, i) => row.map((tij, j) => rhoA * tij + rotary[i][j]));
+
+  return { stiffness, mass };
+}
+
+/**
+ * Index of the node nearest a position
+ */
+function nearestNode(model: FiniteElementModel, position: number): number {
+  return model.nodes.reduce(
+    (best, node, i) => (Math.abs(node - position) < Math.abs(model.nodes[best] - position) ? i : best),
+    0
+  );
+}
+
+/**
+ * Stiffness and mass an attachment adds to the deflection and rotation of its node, as
+ * [stiffness w, stiffness θ, mass w, mass θ]
+ */
+function attachmentTerms(attachment: Attachment): [number, number, number, number] {
+  switch (attachment.type) {
+    case 'mass':
+      return [0, 0, attachment.mass, attachment.rotaryInertia];
+    case 'spring':
+      return [attachment.stiffness, 0, 0, 0];
+    case 'rotational-spring':
+      return [0, attachment.stiffness, 0, 0];
+  }
+}
+
+/**
+ * Assembles the global stiffness and mass matrices, including the attached masses and springs, the
+ * foundation and the axial force, together with the geometric stiffness per unit axial tension
+ */
+function assemble(model: FiniteElementModel): { stiffness: number[][]; mass: number[][]; geometric: number[][] } {
+  const size = 2 * model.nodes.length;
+  const stiffness = zeroMatrix(size);
+  const mass = zeroMatrix(size);
+  const geometric = zeroMatrix(size);
+
+  model.elements.forEach((element, e) => {
+    const local = elementMatrices(element, model.foundationModulus, model.axialLoad);
+    const localGeometric = geometricStiffness(element);
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) {
+        stiffness[2 * e + i][2 * e + j] += local.stiffness[i][j];
+        mass[2 * e + i][2 * e + j] += local.mass[i][j];
+        geometric[2 * e + i][2 * e + j] += localGeometric[i][j];
+      }
+    }
+  });
+
+  model.attachments.forEach((attachment) => {
+    const dof = 2 * nearestNode(model, attachment.position);
+    const [kw, ktheta, mw, mtheta] = attachmentTerms(attachment);
+    stiffness[dof][dof] += kw;
+    stiffness[dof + 1][dof + 1] += ktheta;
+    mass[dof][dof] += mw;
+    mass[dof + 1][dof + 1] += mtheta;
+  });
+
+  return { stiffness, mass, geometric };
+}
+
+/**
+ * Degrees of freedom left after removing those fixed by the supports
+ */
+function freeDofs(model: FiniteElementModel): number[] {
+  const [startEnd, endEnd] = endConditions[model.beamType];
+  const lastNode = model.nodes.length - 1;
+  const constrained = new Set([
+    ...endConditionQuantities[startEnd].filter((q) => q < 2),
+    ...endConditionQuantities[endEnd].filter((q) => q < 2).map((q) => 2 * lastNode + q),
+  ]);
+
+  return Array.from({ length: 2 * model.nodes.length }, (_, dof) => dof).filter((dof) => !constrained.has(dof));
+}
+
+/**
+ * Restricts a matrix to the given degrees of freedom
+ */
+function reduce(matrix: number[][], dofs: number[]): number[][] {
+  return dofs.map((i) => dofs.map((j) => matrix[i][j]));
+}
+
+/**
+ * Expands a reduced vector back to all degrees of freedom (constrained ones are zero)
+ */
+function expand(values: number[], dofs: number[], size: number): number[] {
+  const full = new Array(size).fill(0);
+  dofs.forEach((dof, i) => {
+    full[dof] = values[i];
+  });
+  return full;
+}
+
+/**
+ * vᵀ·A·v
+ */
+function quadraticForm(a: number[][], v: number[]): number {
+  return a.reduce((sum, row, i) => sum + v[i] * row.reduce((rowSum, aij, j) => rowSum + aij * v[j], 0), 0);
+}
+
+/**
+ * Finds the element containing a position and the local coordinate ξ ∈ [0, 1] within it
+ */
+function locate(model: FiniteElementModel, position: number): { element: number; xi: number } {
+  const { nodes } = model;
+  let element = 0;
+  while (element < nodes.length - 2 && position > nodes[element + 1]) {
+    element++;
+  }
+  const xi = (position - nodes[element]) / (nodes[element + 1] - nodes[element]);
+  return { element, xi: Math.min(Math.max(xi, 0), 1) };
+}
+
+/**
+ * Deflection shape functions of an element at local coordinate ξ. These are the Hermite cubics
+ * plus the linear shear terms that go with φ, so they interpolate exactly the deflection that the
+ * element stiffness assumes (and reduce to plain Hermite cubics for Euler-Bernoulli elements).
+ */
+function shapeFunctions(xi: number, element: BeamElement): [number, number, number, number] {
+  const { length: l } = element;
+  const phi = shearParameter(element);
+  const xi2 = xi * xi;
+  const xi3 = xi2 * xi;
+  const c = 1 / (1 + phi);
+  return [
+    c * (1 - 3 * xi2 + 2 * xi3 + phi * (1 - xi)),
+    c * l * (xi - 2 * xi2 + xi3 + (phi / 2) * (xi - xi2)),
+    c * (3 * xi2 - 2 * xi3 + phi * xi),
+    c * l * (xi3 - xi2 - (phi / 2) * (xi - xi2)),
+  ];
+}
+
+/**
+ * Rotation (ψ) shape functions of an element at local coordinate ξ; for Euler-Bernoulli elements
+ * these are the slopes of the deflection shape functions
+ */
+function rotationShapeFunctions(xi: number, element: BeamElement): [number, number, number, number] {
+  const { length: l } = element;
+  const phi = shearParameter(element);
+  const c = 1 / (1 + phi);
+  return [
+    ((6 * c) / l) * (xi * xi - xi),
+    c * (1 - 4 * xi + 3 * xi * xi + phi * (1 - xi)),
+    ((-6 * c) / l) * (xi * xi - xi),
+    c * (3 * xi * xi - 2 * xi + phi * xi),
+  ];
+}
+
+// Three-point Gauss-Legendre rule on [-1, 1]; exact for the cubic shape functions times a linear load
+const gaussPoints: [number, number][] = [
+  [-Math.sqrt(3 / 5), 5 / 9],
+  [0, 8 / 9],
+  [Math.sqrt(3 / 5), 5 / 9],
+];
+
+/**
+ * Slopes dw/dx of the deflection shape functions of an element at local coordinate ξ
+ */
+function shapeFunctionSlopes(xi: number, element: BeamElement): [number, number, number, number] {
+  const { length: l } = element;
+  const phi = shearParameter(element);
+  const c = 1 / (1 + phi);
+  return [
+    (c / l) * (6 * xi * xi - 6 * xi - phi),
+    c * (1 - 4 * xi + 3 * xi * xi + (phi / 2) * (1 - 2 * xi)),
+    (c / l) * (6 * xi - 6 * xi * xi + phi),
+    c * (3 * xi * xi - 2 * xi - (phi / 2) * (1 - 2 * xi)),
+  ];
+}
+
+/**
+ * Geometric stiffness of an element per unit axial tension, ∫N'ᵀ·N' dx over the deflection shape
+ * functions (the classical P/(30ℓ) matrix for Euler-Bernoulli elements). The slopes are quadratic,
+ * so the three-point rule integrates it exactly.
+ */
+function geometricStiffness(element: BeamElement): number[][] {
+  const matrix = zeroMatrix(4);
+  gaussPoints.forEach(([point, weight]) => {
+    const slopes = shapeFunctionSlopes((point + 1) / 2, element);
+    for (let i = 0; i < 4; i++) {
+      for (let j = 0; j < 4; j++) {
+        matrix[i][j] += (weight * element.length * slopes[i] * slopes[j]) / 2;
+      }
+    }
+  });
+  return matrix;
+}
+
+/**
+ * Work-equivalent nodal forces and moments of a load case
+ */
+function equivalentNodalLoads(model: FiniteElementModel, loads: Load[]): number[] {
+  const force = new Array(2 * model.nodes.length).fill(0);
+  const addToElement = (element: number, values: number[], scale: number) => {
+    values.forEach((value, i) => {
+      force[2 * element + i] += scale * value;
+    });
+  };
+
+  loads.forEach((load) => {
+    if (load.type === 'point' || load.type === 'moment') {
+      const { element, xi } = locate(model, load.position);
+      const functions = load.type === 'point' ? shapeFunctions : rotationShapeFunctions;
+      addToElement(element, functions(xi, model.elements[element]), load.magnitude);
+      return;
+    }
+
+    // Distributed loads are integrated over the part of each element they cover
+    model.elements.forEach((element, e) => {
+      const lower = Math.max(load.start, model.nodes[e]);
+      const upper = Math.min(load.end, model.nodes[e + 1]);
+      if (upper <= lower) return;
+
+      gaussPoints.forEach(([point, weight]) => {
+        const position = (lower + upper) / 2 + (point * (upper - lower)) / 2;
+        const xi = (position - model.nodes[e]) / element.length;
+        addToElement(e, shapeFunctions(xi, element), (weight * (upper - lower) * loadIntensity(load, position)) / 2);
+      });
+    });
+  });
+
+  return force;
+}
+
+/**
+ * Interpolates the deflection between nodes from the nodal deflections and rotations
+ */
+function interpolateDeflection(model: FiniteElementModel, u: number[], x: number[]): number[] {
+  return x.map((position) => {
+    const { element, xi } = locate(model, position);
+    const N = shapeFunctions(xi, model.elements[element]);
+    return N.reduce((sum, n, i) => sum + n * u[2 * element + i], 0);
+  });
+}
+
+/**
+ * Number of rigid-body modes the supports, springs and foundation of a model leave free
+ */
+function rigidBodyModes(model: FiniteElementModel): number {
+  return restrainedRigidBodyLines(
+    model.beamType,
+    model.nodes[model.nodes.length - 1],
+    model.attachments,
+    model.foundationModulus
+  ).length;
+}
+
+/**
+ * Calculates the elastic natural frequencies and mode shapes of a finite-element model by solving
+ * K·u = ω²·M·u. Rigid-body modes of unrestrained beams are skipped, so the results line up with
+ * the analytical solutions. The reference EI and ρA are used only to express each frequency as an
+ * equivalent bL and to make the boundary residuals dimensionless.
+ */
+export function solveFiniteElementModes(
+  model: FiniteElementModel,
+  numModes: number,
+  x: number[],
+  reference: { flexuralRigidity: number; massPerUnitLength: number }
+): FiniteElementMode[] {
+  const { stiffness, mass } = assemble(model);
+  const dofs = freeDofs(model);
+  const size = stiffness.length;
+  const reducedStiffness = reduce(stiffness, dofs);
+  const reducedMass = reduce(mass, dofs);
+  const solution = generalizedSymmetricEigen(reducedStiffness, reducedMass);
+  if (!solution) return [];
+
+  const L = model.nodes[model.nodes.length - 1];
+  const frequencyScale = Math.sqrt(reference.flexuralRigidity / (reference.massPerUnitLength * Math.pow(L, 4)));
+  const skip = rigidBodyModes(model);
+  const count = Math.min(numModes, solution.values.length - skip);
+  const [startEnd, endEnd] = endConditions[model.beamType];
+
+  return solution.vectors.slice(skip, skip + count).map((vector) => {
+    // The Rayleigh quotient recovers the digits of the lowest eigenvalues that the transformation
+    // to standard form loses when the spread of the spectrum is large
+    const eigenvalue = quadraticForm(reducedStiffness, vector) / quadraticForm(reducedMass, vector);
+    const omega = Math.sqrt(Math.max(eigenvalue, 0));
+    const bL = Math.sqrt(omega / frequencyScale);
+    const u = expand(vector, dofs, size);
+
+    const w = interpolateDeflection(model, u, x);
+    const peak = w.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+    const scale = peak !== 0 ? 1 / peak : 1;
+
+    // End forces of the first and last elements, (K_e - ω²M_e)·u_e, give the moment and shear
+    // carried at each end, less what any spring or mass attached there takes. Like the analytical
+    // residuals, the k-th derivative quantity is divided by b^k (b = bL/L), with M/EI and V/EI
+    // standing in for w'' and w'''.
+    const b = bL / L;
+    const endValues = (element: number, node: 0 | 1): number[] => {
+      const local = elementMatrices(model.elements[element], model.foundationModulus, model.axialLoad);
+      const ue = u.slice(2 * element, 2 * element + 4);
+      const forces = local.stiffness.map((row, i) =>
+        row.reduce((sum, kij, j) => sum + (kij - omega * omega * local.mass[i][j]) * ue[j], 0)
+      );
+      const globalNode = element + node;
+      model.attachments
+        .filter((attachment) => nearestNode(model, attachment.position) === globalNode)
+        .forEach((attachment) => {
+          const [kw, ktheta, mw, mtheta] = attachmentTerms(attachment);
+          forces[2 * node] += (kw - omega * omega * mw) * ue[2 * node];
+          forces[2 * node + 1] += (ktheta - omega * omega * mtheta) * ue[2 * node + 1];
+        });
+      const EI = model.elements[element].flexuralRigidity;
+      return [
+        ue[2 * node],
+        ue[2 * node + 1] / b,
+        forces[2 * node + 1] / (EI * b * b),
+        forces[2 * node] / (EI * b * b * b),
+      ];
+    };
+
+    const ends: [number, EndCondition, number[]][] = [
+      [0, startEnd, endValues(0, 0)],
+      [L, endEnd, endValues(model.elements.length - 1, 1)],
+    ];
+    const boundaryResiduals = ends.flatMap(([position, end, values]) =>
+      endConditionQuantities[end].map((q) => ({
+        position,
+        condition: quantityLabels[q],
+        residual: values[q] * scale,
+      }))
+    );
+
+    return {
+      frequency: omega / (2 * Math.PI),
+      bL,
+      w: w.map((value) => value * scale),
+      modalMass: quadraticForm(reducedMass, vector) * scale * scale,
+      boundaryResiduals,
+    };
+  });
+}
+
+/**
+ * Calculates the critical compressive axial loads and buckling mode shapes of a finite-element model
+ * from K·u = P·K_G·u, where K is the stiffness without any axial force and K_G the geometric
+ * stiffness per unit compression. K is positive definite once the beam is restrained, so the
+ * problem is solved as K_G·u = (1/P)·K·u and the largest eigenvalues give the lowest loads. Returns
+ * an empty list if the supports, springs and foundation leave a rigid-body mechanism.
+ */
+export function solveFiniteElementBuckling(
+  model: FiniteElementModel,
+  numModes: number,
+  x: number[]
+): FiniteElementBucklingMode[] {
+  if (rigidBodyModes(model) > 0) return [];
+
+  const { stiffness, geometric } = assemble({ ...model, axialLoad: 0 });
+  const dofs = freeDofs(model);
+  const reducedStiffness = reduce(stiffness, dofs);
+  const reducedGeometric = reduce(geometric, dofs);
+  const solution = generalizedSymmetricEigen(reducedGeometric, reducedStiffness);
+  if (!solution) return [];
+
+  // Eigenvalues come in ascending order; modes without any slope (1/P = 0) never buckle
+  const largest = solution.values.map((value, i) => ({ value, vector: solution.vectors[i] })).reverse();
+  return largest
+    .filter(({ value }) => value > 1e-12 * Math.abs(largest[0].value))
+    .slice(0, numModes)
+    .map(({ vector }) => {
+      const load = quadraticForm(reducedStiffness, vector) / quadraticForm(reducedGeometric, vector);
+      const w = interpolateDeflection(model, expand(vector, dofs, stiffness.length), x);
+      const peak = w.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+      return { load, w: w.map((value) => (peak !== 0 ? value / peak : value)) };
+    });
+}
+
+export interface FiniteElementStaticSolution {
+  w: number[]; // Deflection at the requested positions in meters
+  rotation: number[]; // Cross-section rotation ψ at the requested positions in rad
+  reactions: number[]; // Nodal support reactions K·u - f by degree of freedom (0 where unconstrained)
+  restraintLoads: Load[]; // Forces and moments the springs and foundation exert on the beam
+}
+
+/**
+ * Calculates the static deflection of a finite-element model under a load case, each load applied
+ * through its work-equivalent nodal forces and moments, together with the support reactions.
+ * Returns null if the supports and springs leave a rigid-body mechanism, since the stiffness matrix
+ * is then singular.
+ */
+export function solveFiniteElementStatic(
+  model: FiniteElementModel,
+  loads: Load[],
+  x: number[]
+): FiniteElementStaticSolution | null {
+  if (rigidBodyModes(model) > 0) return null;
+
+  const { stiffness } = assemble(model);
+  const dofs = freeDofs(model);
+  const force = equivalentNodalLoads(model, loads);
+
+  const reduced = solveSymmetric(
+    reduce(stiffness, dofs),
+    dofs.map((dof) => force[dof])
+  );
+  if (!reduced) return null;
+
+  const u = expand(reduced, dofs, stiffness.length);
+  const free = new Set(dofs);
+  const reactions = stiffness.map((row, dof) =>
+    free.has(dof) ? 0 : row.reduce((sum, k, j) => sum + k * u[j], 0) - force[dof]
+  );
+
+  const rotation = x.map((position) => {
+    const { element, xi } = locate(model, position);
+    const N = rotationShapeFunctions(xi, model.elements[element]);
+    return N.reduce((sum, n, i) => sum + n * u[2 * element + i], 0);
+  });
+
+  const w = interpolateDeflection(model, u, x);
+  const springLoads = model.attachments.flatMap((attachment): Load[] => {
+    const node = nearestNode(model, attachment.position);
+    const { position } = attachment;
+    switch (attachment.type) {
+      case 'mass':
+        return [];
+      case 'spring':
+        return [{ type: 'point', position, magnitude: -attachment.stiffness * u[2 * node] }];
+      case 'rotational-spring':
+        return [{ type: 'moment', position, magnitude: -attachment.stiffness * u[2 * node + 1] }];
+    }
+  });
+
+  // The foundation pushes back with -k·w, taken as linear between the requested positions
+  const foundationModulus = model.foundationModulus ?? 0;
+  const foundationLoads: Load[] =
+    foundationModulus > 0
+      ? x.slice(1).map((end, i) => ({
+          type: 'linear',
+          start: x[i],
+          end,
+          startMagnitude: -foundationModulus * w[i],
+          endMagnitude: -foundationModulus * w[i + 1],
+        }))
+      : [];
+
+  return { w, rotation, reactions, restraintLoads: [...springLoads, ...foundationLoads] };
+}
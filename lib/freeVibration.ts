@@ -0,0 +1,147 @@
+import type { ModeShape } from './beamAnalysis';
+import { DampingRegime, dampingRegime, decayTimeConstants, impulseResponse } from './damping';
+import { modeValueAt } from './frequencyResponse';
+
+export type InitialStateType = 'static-deflection' | 'impact';
+
+export const initialStateTypes: { value: InitialStateType; label: string; description: string }[] = [
+  {
+    value: 'static-deflection',
+    label: 'Released from Static Deflection',
+    description: 'The beam is held in its deflected shape under the static load case and let go at t = 0',
+  },
+  {
+    value: 'impact',
+    label: 'Impact',
+    description: 'The beam starts at rest and is struck at t = 0, giving it a velocity field',
+  },
+];
+
+// Free vibration of one mode as seen at the response point
+export interface ModalFreeVibration {
+  mode: number;
+  frequency: number; // Natural frequency in Hz
+  dampingRatio: number;
+  regime: DampingRegime; // Whether the mode oscillates as it decays
+  dampedFrequency: number; // Hz, zero for a mode that does not oscillate
+  timeConstants: number[]; // Decay time constants in s, slowest first (none for undamped and rigid-body modes)
+  initialDisplacement: number; // Modal coordinate q(0)
+  initialVelocity: number; // Modal velocity q̇(0)
+  displacement: number[]; // Contribution φ(x)·q(t) at the response point in meters
+  amplitude: number[]; // Envelope of the contribution in meters (its magnitude if it does not oscillate)
+}
+
+export interface FreeVibrationResponse {
+  time: number[]; // Time in seconds
+  position: number; // Response point in meters
+  modes: ModalFreeVibration[];
+}
+
+export interface FreeVibrationSum {
+  displacement: number[]; // meters
+  upper: number[]; // Envelope bounding the sum of the included modes
+  lower: number[];
+}
+
+/**
+ * Initial modal velocities after an impulse I at a point, q̇_r(0) = φ_r(a)·I/m_r
+ */
+export function impactVelocities(modeShapes: ModeShape[], position: number, impulse: number): number[] {
+  return modeShapes.map((shape) => (modeValueAt(shape, position) * impulse) / shape.modalMass);
+}
+
+/**
+ * Default length of a free-vibration record: at least 15 periods of the fundamental elastic mode
+ * and three of its decay time constants 1/(ζω₁), capped at 60 s. A fundamental that does not
+ * oscillate is followed for five of its slowest time constants instead.
+ */
+export function defaultFreeVibrationDuration(naturalFrequencies: number[], dampingRatios: number[]): number {
+  const index = naturalFrequencies.findIndex((frequency) => frequency > 0);
+  if (index < 0) return 1;
+  const fundamental = naturalFrequencies[index];
+  const zeta = dampingRatios[index] ?? 0;
+  const [slowest] = decayTimeConstants(2 * Math.PI * fundamental, zeta);
+  if (zeta >= 1) return Math.min(5 * slowest, 60);
+  const periods = 15 / fundamental;
+  const decay = zeta > 0 ? 3 * slowest : 0;
+  return Math.min(Math.max(periods, decay), 60);
+}
+
+/**
+ * Free vibration at a point from initial modal displacements and velocities, one per mode.
+ * Each mode moves as q(t) = q₀·(h'(t) + 2ζω·h(t)) + q̇₀·h(t), with h its unit impulse response for
+ * its own damping ratio: a decaying oscillation below ζ = 1, a return to rest that crosses zero at
+ * most once at or above it, and a drift q₀ + q̇₀·t for a rigid-body mode. Returns null unless
+ * every damping ratio is non-negative and the duration is positive.
+ */
+export function calculateFreeVibration(
+  modeShapes: ModeShape[],
+  naturalFrequencies: number[],
+  dampingRatios: number[],
+  initialDisplacements: number[],
+  initialVelocities: number[],
+  position: number,
+  duration: number,
+  numPoints: number = 4000
+): FreeVibrationResponse | null {
+  if (!(duration > 0) || dampingRatios.some((ratio) => ratio < 0)) return null;
+
+  const time = Array.from({ length: numPoints + 1 }, (_, i) => (i * duration) / numPoints);
+  const modes = modeShapes.map((shape, index) => {
+    const omega = 2 * Math.PI * naturalFrequencies[index];
+    const dampingRatio = omega > 0 ? (dampingRatios[index] ?? 0) : 0;
+    const shapeValue = modeValueAt(shape, position);
+    const q0 = initialDisplacements[index] ?? 0;
+    const v0 = initialVelocities[index] ?? 0;
+    const displacement = time.map((t) => {
+      const h = impulseResponse(omega, dampingRatio, t);
+      return shapeValue * (q0 * (h.velocity + 2 * dampingRatio * omega * h.displacement) + v0 * h.displacement);
+    });
+    const oscillates = omega > 0 && dampingRatio < 1;
+    const omegaD = oscillates ? omega * Math.sqrt(1 - dampingRatio * dampingRatio) : 0;
+    // An oscillating mode stays within A·e^(-ζωt); one that does not oscillate bounds itself
+    const peak = oscillates ? Math.abs(shapeValue) * Math.hypot(q0, (v0 + dampingRatio * omega * q0) / omegaD) : 0;
+
+    return {
+      mode: shape.mode,
+      frequency: naturalFrequencies[index],
+      dampingRatio,
+      regime: omega > 0 ? dampingRegime(dampingRatio) : 'undamped',
+      dampedFrequency: omegaD / (2 * Math.PI),
+      timeConstants: decayTimeConstants(omega, dampingRatio),
+      initialDisplacement: q0,
+      initialVelocity: v0,
+      displacement,
+      amplitude: oscillates
+        ? time.map((t) => peak * Math.exp(-dampingRatio * omega * t))
+        : displacement.map((value) => (omega > 0 ? Math.abs(value) : 0)),
+    };
+  });
+
+  return { time, position, modes };
+}
+
+/**
+ * Sum of the contributions of the included modes, with the envelope ±Σ A_r·e^(-ζω_r·t) about the
+ * rigid-body motion
+ */
+export function superposeModes(response: FreeVibrationResponse, included: number[]): FreeVibrationSum {
+  const modes = response.modes.filter((mode) => included.includes(mode.mode));
+  const displacement = response.time.map(() => 0);
+  const drift = response.time.map(() => 0);
+  const amplitude = response.time.map(() => 0);
+  modes.forEach((mode) => {
+    mode.displacement.forEach((value, i) => {
+      displacement[i] += value;
+      if (mode.frequency === 0) drift[i] += value;
+    });
+    mode.amplitude.forEach((value, i) => {
+      amplitude[i] += value;
+    });
+  });
+  return {
+    displacement,
+    upper: drift.map((value, i) => value + amplitude[i]),
+    lower: drift.map((value, i) => value - amplitude[i]),
+  };
+}
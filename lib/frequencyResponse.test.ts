@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { BeamProperties, ModeShape, calculateBeamAnalysis } from './beamAnalysis';
+import { calculateSectionProperties } from './crossSections';
+import { DampingModel } from './damping';
+import { calculateFrequencyResponse } from './frequencyResponse';
+
+// A single mode of unit shape along the beam: a mass-spring-damper oscillator of mass m
+function uniformShape(modalMass: number): ModeShape {
+  return { mode: 1, x: [0, 1], w: [1, 1], modalMass } as ModeShape;
+}
+
+const mass = 2; // kg
+const frequency = 3; // Hz
+const stiffness = (2 * Math.PI * frequency) ** 2 * mass;
+
+function oscillatorFrf(damping: DampingModel) {
+  return calculateFrequencyResponse([uniformShape(mass)], [frequency], damping, 0.5, 0.5, 'receptance');
+}
+
+describe('frequency response', () => {
+  it('peaks at 1/(2ζk) in quadrature with the force at a viscously damped resonance', () => {
+    const zeta = 0.02;
+    const [resonance] = oscillatorFrf({ type: 'modal', dampingRatio: zeta }).resonances;
+    expect(resonance.frequency).toBeCloseTo(frequency, 12);
+    expect(resonance.real).toBeCloseTo(0, 12);
+    expect(resonance.imaginary * 2 * zeta * stiffness).toBeCloseTo(-1, 12);
+  });
+
+  it('peaks at 1/(ηk) with hysteretic damping', () => {
+    const [resonance] = oscillatorFrf({ type: 'hysteretic', lossFactor: 0.05 }).resonances;
+    expect(resonance.magnitude * 0.05 * stiffness).toBeCloseTo(1, 12);
+  });
+
+  it('samples every natural frequency and lags by 90° there', () => {
+    const response = oscillatorFrf({ type: 'modal', dampingRatio: 0.02 });
+    const index = response.frequency.indexOf(frequency);
+    expect(index).toBeGreaterThan(0);
+    expect(response.phase[index]).toBeCloseTo(-90, 9);
+    expect(response.phase[0]).toBeCloseTo(0, 0);
+  });
+
+  it('makes mobility iω and accelerance −ω² times the receptance', () => {
+    const damping: DampingModel = { type: 'modal', dampingRatio: 0.05 };
+    const frfs = (['receptance', 'mobility', 'accelerance'] as const).map((type) =>
+      calculateFrequencyResponse([uniformShape(mass)], [frequency], damping, 0.5, 0.5, type)
+    );
+    const [receptance, mobility, accelerance] = frfs;
+    receptance.frequency.forEach((f, i) => {
+      const omega = 2 * Math.PI * f;
+      expect(mobility.real[i]).toBeCloseTo(-omega * receptance.imaginary[i], 12);
+      expect(mobility.imaginary[i]).toBeCloseTo(omega * receptance.real[i], 12);
+      expect(accelerance.magnitude[i]).toBeCloseTo(omega * omega * receptance.magnitude[i], 9);
+    });
+  });
+
+  describe('of a cantilever', () => {
+    const beam: BeamProperties = {
+      length: 1,
+      section: { type: 'rectangle', width: 0.05, depth: 0.01 },
+      youngsModulus: 2.1e11,
+      density: 7850,
+    };
+    const EI = beam.youngsModulus * calculateSectionProperties(beam.section).momentOfInertia;
+    const { modeShapes, naturalFrequencies } = calculateBeamAnalysis('cantilever', beam, 10);
+    const damping: DampingModel = { type: 'modal', dampingRatio: 0.01 };
+
+    it('approaches the static flexibility L³/3EI at the tip well below the first resonance', () => {
+      const response = calculateFrequencyResponse(modeShapes, naturalFrequencies, damping, 1, 1, 'receptance');
+      // The sweep starts at a tenth of the first natural frequency, where the response is 1% above static
+      expect(response.real[0] / (beam.length ** 3 / (3 * EI))).toBeCloseTo(1.01, 2);
+    });
+
+    it('is reciprocal between the drive and response points', () => {
+      const forward = calculateFrequencyResponse(modeShapes, naturalFrequencies, damping, 0.4, 1, 'receptance');
+      const backward = calculateFrequencyResponse(modeShapes, naturalFrequencies, damping, 1, 0.4, 'receptance');
+      forward.magnitude.forEach((magnitude, i) => expect(backward.magnitude[i] / magnitude).toBeCloseTo(1, 12));
+    });
+  });
+});
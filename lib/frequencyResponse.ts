@@ -0,0 +1,138 @@
+import type { ModeShape } from './beamAnalysis';
+import { DampingModel, modalDampingRatios } from './damping';
+import { interpolate } from './linearAlgebra';
+import { Quantity } from './units';
+
+export type FrfType = 'receptance' | 'mobility' | 'accelerance';
+
+export const frfTypes: { value: FrfType; label: string; description: string }[] = [
+  { value: 'receptance', label: 'Receptance', description: 'Displacement per unit force' },
+  { value: 'mobility', label: 'Mobility', description: 'Velocity per unit force' },
+  { value: 'accelerance', label: 'Accelerance', description: 'Acceleration per unit force' },
+];
+
+// Each FRF type has a unit quantity of the same name
+export const frfQuantities: Record<FrfType, Quantity> = {
+  receptance: 'receptance',
+  mobility: 'mobility',
+  accelerance: 'accelerance',
+};
+
+export interface Resonance {
+  mode: number; // Mode number as listed in the results
+  frequency: number; // Natural frequency in Hz
+  real: number; // FRF at the natural frequency
+  imaginary: number;
+  magnitude: number;
+}
+
+// Complex FRF sampled over excitation frequency, in SI units of the FRF type
+export interface FrequencyResponse {
+  type: FrfType;
+  frequency: number[]; // Hz
+  real: number[];
+  imaginary: number[];
+  magnitude: number[];
+  phase: number[]; // Degrees, in (-180, 180]
+  resonances: Resonance[]; // Peaks of the modes that both points take part in
+}
+
+/**
+ * Value of a mode shape at a position, interpolated linearly between its samples
+ */
+export function modeValueAt(shape: ModeShape, position: number): number {
+  return interpolate(shape.x, shape.w, position);
+}
+
+/**
+ * Excitation frequencies for a sweep: logarithmically spaced from a tenth of the first elastic
+ * frequency to half as much again as the highest, with every natural frequency included so that
+ * no peak falls between samples
+ */
+function sweepFrequencies(naturalFrequencies: number[], numPoints: number): number[] {
+  const elastic = naturalFrequencies.filter((frequency) => frequency > 0);
+  if (elastic.length === 0) return [];
+  const low = Math.log10(elastic[0] / 10);
+  const high = Math.log10(elastic[elastic.length - 1] * 1.5);
+  const sweep = Array.from({ length: numPoints }, (_, i) => Math.pow(10, low + ((high - low) * i) / (numPoints - 1)));
+  return [...sweep, ...elastic].sort((a, b) => a - b);
+}
+
+/**
+ * Frequency response between a drive point and a response point by modal superposition over all
+ * the given modes. Each mode adds φ(drive)·φ(response) / (m·(ω_r² - ω² + 2iζ_r·ω_r·ω)) to the
+ * receptance, with m its generalised mass and ζ_r its damping ratio (rigid-body modes, at ω_r = 0,
+ * give the mass line); hysteretic damping replaces 2ζ_r·ω_r·ω with η·ω_r². Mobility and accelerance
+ * are iω and -ω² times the receptance. Positions are in meters; undamped modes respond infinitely at
+ * their natural frequencies.
+ */
+export function calculateFrequencyResponse(
+  modeShapes: ModeShape[],
+  naturalFrequencies: number[],
+  damping: DampingModel,
+  drivePoint: number,
+  responsePoint: number,
+  type: FrfType,
+  numPoints: number = 600
+): FrequencyResponse {
+  // Shapes without a deflection (such as a pure thickness-shear mode) cannot be driven
+  const dampingRatios = modalDampingRatios(damping, naturalFrequencies);
+  const modes = modeShapes
+    .map((shape, i) => {
+      const product = modeValueAt(shape, drivePoint) * modeValueAt(shape, responsePoint);
+      const omega = 2 * Math.PI * naturalFrequencies[i];
+      return { mode: shape.mode, omega, zeta: dampingRatios[i], product, residue: product / shape.modalMass };
+    })
+    .filter((mode) => Number.isFinite(mode.residue) && mode.residue !== 0);
+
+  const evaluate = (frequency: number): [number, number] => {
+    const omega = 2 * Math.PI * frequency;
+    let re = 0;
+    let im = 0;
+    modes.forEach((mode) => {
+      const a = mode.omega * mode.omega - omega * omega;
+      const b =
+        damping.type === 'hysteretic'
+          ? damping.lossFactor * mode.omega * mode.omega
+          : 2 * mode.zeta * mode.omega * omega;
+      const denominator = a * a + b * b;
+      re += (mode.residue * a) / denominator;
+      im -= (mode.residue * b) / denominator;
+    });
+    switch (type) {
+      case 'receptance':
+        return [re, im];
+      case 'mobility':
+        return [-omega * im, omega * re];
+      case 'accelerance':
+        return [-omega * omega * re, -omega * omega * im];
+    }
+  };
+
+  const frequency = sweepFrequencies(naturalFrequencies, numPoints);
+  const values = frequency.map(evaluate);
+
+  // A mode whose shape nearly vanishes at either point leaves no visible peak
+  const resonances = modes
+    .filter((mode) => mode.omega > 0 && Math.abs(mode.product) > 1e-3)
+    .map((mode) => {
+      const [re, im] = evaluate(mode.omega / (2 * Math.PI));
+      return {
+        mode: mode.mode,
+        frequency: mode.omega / (2 * Math.PI),
+        real: re,
+        imaginary: im,
+        magnitude: Math.hypot(re, im),
+      };
+    });
+
+  return {
+    type,
+    frequency,
+    real: values.map(([re]) => re),
+    imaginary: values.map(([, im]) => im),
+    magnitude: values.map(([re, im]) => Math.hypot(re, im)),
+    phase: values.map(([re, im]) => (Math.atan2(im, re) * 180) / Math.PI),
+    resonances,
+  };
+}
@@ -0,0 +1,382 @@
+export function determinant3(m: number[][]): number {
+  return (
+    m[0][0] * (m[1][1] * m[2][2] - m[1][2] * m[2][1]) -
+    m[0][1] * (m[1][0] * m[2][2] - m[1][2] * m[2][0]) +
+    m[0][2] * (m[1][0] * m[2][1] - m[1][1] * m[2][0])
+  );
+}
+
+/**
+ * Determinant of a 4x4 matrix by cofactor expansion along the first row
+ */
+export function determinant4(m: number[][]): number {
+  return [0, 1, 2, 3].reduce((sum, column) => {
+    const minor = m.slice(1).map((row) => row.filter((_, index) => index !== column));
+    return sum + (column % 2 === 0 ? 1 : -1) * m[0][column] * determinant3(minor);
+  }, 0);
+}
+
+/**
+ * Finds the null vector of a singular 4x4 matrix (rank 3).
+ * The cofactors of any three independent rows span the null space; the row set with the
+ * largest cofactor vector is the best conditioned choice.
+ */
+export function nullVector4(rows: number[][]): number[] {
+  let best: number[] = [0, 0, 0, 0];
+  let bestNorm = 0;
+
+  for (let skip = 0; skip < 4; skip++) {
+    const kept = rows.filter((_, index) => index !== skip);
+    const cofactors = [0, 1, 2, 3].map((column) => {
+      const minor = kept.map((row) => row.filter((_, index) => index !== column));
+      return (column % 2 === 0 ? 1 : -1) * determinant3(minor);
+    });
+    const norm = Math.hypot(...cofactors);
+    if (norm > bestNorm) {
+      best = cofactors;
+      bestNorm = norm;
+    }
+  }
+
+  return best;
+}
+
+export function zeroMatrix(rows: number, columns: number = rows): number[][] {
+  return Array.from({ length: rows }, () => new Array(columns).fill(0));
+}
+
+/**
+ * Cholesky factorisation A = L·Lᵀ of a symmetric positive definite matrix.
+ * Returns the lower triangle L, or null if A is not positive definite.
+ */
+export function choleskyDecompose(a: number[][]): number[][] | null {
+  const n = a.length;
+  const l = zeroMatrix(n);
+
+  for (let j = 0; j < n; j++) {
+    let diagonal = a[j][j];
+    for (let k = 0; k < j; k++) {
+      diagonal -= l[j][k] * l[j][k];
+    }
+    if (!(diagonal > 0)) return null;
+    l[j][j] = Math.sqrt(diagonal);
+
+    for (let i = j + 1; i < n; i++) {
+      let sum = a[i][j];
+      for (let k = 0; k < j; k++) {
+        sum -= l[i][k] * l[j][k];
+      }
+      l[i][j] = sum / l[j][j];
+    }
+  }
+
+  return l;
+}
+
+/**
+ * Solves L·y = b for lower triangular L
+ */
+export function forwardSubstitute(l: number[][], b: number[]): number[] {
+  const y = new Array(b.length).fill(0);
+  for (let i = 0; i < b.length; i++) {
+    let sum = b[i];
+    for (let k = 0; k < i; k++) {
+      sum -= l[i][k] * y[k];
+    }
+    y[i] = sum / l[i][i];
+  }
+  return y;
+}
+
+/**
+ * Solves Lᵀ·x = y for lower triangular L
+ */
+export function backSubstitute(l: number[][], y: number[]): number[] {
+  const n = y.length;
+  const x = new Array(n).fill(0);
+  for (let i = n - 1; i >= 0; i--) {
+    let sum = y[i];
+    for (let k = i + 1; k < n; k++) {
+      sum -= l[k][i] * x[k];
+    }
+    x[i] = sum / l[i][i];
+  }
+  return x;
+}
+
+/**
+ * Solves A·x = b for symmetric positive definite A (null if A is singular or indefinite)
+ */
+export function solveSymmetric(a: number[][], b: number[]): number[] | null {
+  const l = choleskyDecompose(a);
+  if (!l) return null;
+  return backSubstitute(l, forwardSubstitute(l, b));
+}
+
+/**
+ * Eigenvalues and eigenvectors of a real symmetric matrix by Householder reduction to tridiagonal
+ * form followed by the implicit QL algorithm (EISPACK tred2/tql2, as in JAMA).
+ * Eigenvalues are sorted ascending; vectors[k] is the unit eigenvector for values[k].
+ */
+export function symmetricEigen(a: number[][]): { values: number[]; vectors: number[][] } {
+  const n = a.length;
+  const V = a.map((row) => [...row]);
+  const d = new Array(n).fill(0);
+  const e = new Array(n).fill(0);
+
+  if (n === 0) return { values: [], vectors: [] };
+
+  // Householder tridiagonalisation
+  for (let j = 0; j < n; j++) {
+    d[j] = V[n - 1][j];
+  }
+
+  for (let i = n - 1; i > 0; i--) {
+    let scale = 0;
+    let h = 0;
+    for (let k = 0; k < i; k++) {
+      scale += Math.abs(d[k]);
+    }
+
+    if (scale === 0) {
+      e[i] = d[i - 1];
+      for (let j = 0; j < i; j++) {
+        d[j] = V[i - 1][j];
+        V[i][j] = 0;
+        V[j][i] = 0;
+      }
+    } else {
+      for (let k = 0; k < i; k++) {
+        d[k] /= scale;
+        h += d[k] * d[k];
+      }
+      let f = d[i - 1];
+      let g = Math.sqrt(h);
+      if (f > 0) g = -g;
+      e[i] = scale * g;
+      h -= f * g;
+      d[i - 1] = f - g;
+      for (let j = 0; j < i; j++) {
+        e[j] = 0;
+      }
+
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        V[j][i] = f;
+        g = e[j] + V[j][j] * f;
+        for (let k = j + 1; k <= i - 1; k++) {
+          g += V[k][j] * d[k];
+          e[k] += V[k][j] * f;
+        }
+        e[j] = g;
+      }
+
+      f = 0;
+      for (let j = 0; j < i; j++) {
+        e[j] /= h;
+        f += e[j] * d[j];
+      }
+      const hh = f / (h + h);
+      for (let j = 0; j < i; j++) {
+        e[j] -= hh * d[j];
+      }
+      for (let j = 0; j < i; j++) {
+        f = d[j];
+        g = e[j];
+        for (let k = j; k <= i - 1; k++) {
+          V[k][j] -= f * e[k] + g * d[k];
+        }
+        d[j] = V[i - 1][j];
+        V[i][j] = 0;
+      }
+    }
+    d[i] = h;
+  }
+
+  // Accumulate the transformations
+  for (let i = 0; i < n - 1; i++) {
+    V[n - 1][i] = V[i][i];
+    V[i][i] = 1;
+    const h = d[i + 1];
+    if (h !== 0) {
+      for (let k = 0; k <= i; k++) {
+        d[k] = V[k][i + 1] / h;
+      }
+      for (let j = 0; j <= i; j++) {
+        let g = 0;
+        for (let k = 0; k <= i; k++) {
+          g += V[k][i + 1] * V[k][j];
+        }
+        for (let k = 0; k <= i; k++) {
+          V[k][j] -= g * d[k];
+        }
+      }
+    }
+    for (let k = 0; k <= i; k++) {
+      V[k][i + 1] = 0;
+    }
+  }
+  for (let j = 0; j < n; j++) {
+    d[j] = V[n - 1][j];
+    V[n - 1][j] = 0;
+  }
+  V[n - 1][n - 1] = 1;
+  e[0] = 0;
+
+  // Implicit QL iterations on the tridiagonal matrix
+  for (let i = 1; i < n; i++) {
+    e[i - 1] = e[i];
+  }
+  e[n - 1] = 0;
+
+  let f = 0;
+  let tst1 = 0;
+  const eps = Math.pow(2, -52);
+
+  for (let l = 0; l < n; l++) {
+    tst1 = Math.max(tst1, Math.abs(d[l]) + Math.abs(e[l]));
+    let m = l;
+    while (m < n) {
+      if (Math.abs(e[m]) <= eps * tst1) break;
+      m++;
+    }
+
+    if (m > l) {
+      do {
+        let g = d[l];
+        let p = (d[l + 1] - g) / (2 * e[l]);
+        let r = Math.hypot(p, 1);
+        if (p < 0) r = -r;
+        d[l] = e[l] / (p + r);
+        d[l + 1] = e[l] * (p + r);
+        const dl1 = d[l + 1];
+        let h = g - d[l];
+        for (let i = l + 2; i < n; i++) {
+          d[i] -= h;
+        }
+        f += h;
+
+        p = d[m];
+        let c = 1;
+        let c2 = c;
+        let c3 = c;
+        const el1 = e[l + 1];
+        let s = 0;
+        let s2 = 0;
+        for (let i = m - 1; i >= l; i--) {
+          c3 = c2;
+          c2 = c;
+          s2 = s;
+          g = c * e[i];
+          h = c * p;
+          r = Math.hypot(p, e[i]);
+          e[i + 1] = s * r;
+          s = e[i] / r;
+          c = p / r;
+          p = c * d[i] - s * g;
+          d[i + 1] = h + s * (c * g + s * d[i]);
+          for (let k = 0; k < n; k++) {
+            h = V[k][i + 1];
+            V[k][i + 1] = s * V[k][i] + c * h;
+            V[k][i] = c * V[k][i] - s * h;
+          }
+        }
+        p = (-s * s2 * c3 * el1 * e[l]) / dl1;
+        e[l] = s * p;
+        d[l] = c * p;
+      } while (Math.abs(e[l]) > eps * tst1);
+    }
+    d[l] += f;
+    e[l] = 0;
+  }
+
+  const order = d.map((_, index) => index).sort((i, j) => d[i] - d[j]);
+  return {
+    values: order.map((index) => d[index]),
+    vectors: order.map((index) => V.map((row) => row[index])),
+  };
+}
+
+/**
+ * Solves the generalized symmetric eigenproblem K·φ = λ·M·φ with M positive definite.
+ * With M = L·Lᵀ it becomes the standard problem (L⁻¹·K·L⁻ᵀ)·y = λ·y, and φ = L⁻ᵀ·y, which
+ * makes the eigenvectors mass-normalised (φᵀ·M·φ = 1). Returns null if M is not positive definite.
+ */
+export function generalizedSymmetricEigen(
+  k: number[][],
+  m: number[][]
+): { values: number[]; vectors: number[][] } | null {
+  const l = choleskyDecompose(m);
+  if (!l) return null;
+
+  const n = k.length;
+  // Y = L⁻¹·K column by column, then C = L⁻¹·Yᵀ (= L⁻¹·K·L⁻ᵀ since K is symmetric)
+  const yColumns = Array.from({ length: n }, (_, j) => forwardSubstitute(l, k.map((row) => row[j])));
+  const cColumns = Array.from({ length: n }, (_, j) => forwardSubstitute(l, yColumns.map((column) => column[j])));
+  const c = zeroMatrix(n);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < n; j++) {
+      c[i][j] = 0.5 * (cColumns[j][i] + cColumns[i][j]);
+    }
+  }
+
+  const { values, vectors } = symmetricEigen(c);
+  return {
+    values,
+    vectors: vectors.map((y) => backSubstitute(l, y)),
+  };
+}
+
+/**
+ * Solves A·x = b by Gaussian elimination with partial pivoting (null if A is singular)
+ */
+export function solveLinearSystem(a: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+  const scale = Math.max(...a.flat().map(Math.abs)) || 1;
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) <= 1e-14 * scale) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) {
+        m[row][k] -= factor * m[col][k];
+      }
+    }
+  }
+
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) {
+      sum -= m[row][k] * x[k];
+    }
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+/**
+ * Integrates sampled values over their (ascending) positions by the trapezoidal rule
+ */
+export function trapezoid(x: number[], values: number[]): number {
+  return x.slice(1).reduce((sum, end, i) => sum + ((end - x[i]) * (values[i] + values[i + 1])) / 2, 0);
+}
+
+/**
+ * Value of sampled data at a position, interpolated linearly between the (ascending) sample
+ * positions and held constant beyond the first and last
+ */
+export function interpolate(x: number[], values: number[], position: number): number {
+  if (position <= x[0]) return values[0];
+  const i = x.findIndex((pos) => pos >= position);
+  if (i < 0) return values[values.length - 1];
+  const t = (position - x[i - 1]) / (x[i] - x[i - 1]);
+  return values[i - 1] + t * (values[i] - values[i - 1]);
+}
@@ -0,0 +1,199 @@
+import { BeamType, endConditions } from './boundaryConditions';
+import { Quantity, UnitSystem, formatNumber, formatQuantity, toDisplay } from './units';
+
+export type LoadType = 'point' | 'moment' | 'uniform' | 'linear';
+
+// Forces act in the direction of positive deflection; a positive moment turns the beam towards
+// positive slope. Positions are in meters from x = 0.
+export type Load =
+  | { type: 'point'; position: number; magnitude: number } // N
+  | { type: 'moment'; position: number; magnitude: number } // N·m
+  | { type: 'uniform'; start: number; end: number; magnitude: number } // N/m
+  | { type: 'linear'; start: number; end: number; startMagnitude: number; endMagnitude: number }; // N/m
+
+export interface LoadField {
+  key: string;
+  label: string; // Without the unit, which depends on the unit system
+  quantity: Quantity;
+}
+
+export const loadTypes: { value: LoadType; label: string }[] = [
+  { value: 'point', label: 'Point Load' },
+  { value: 'moment', label: 'Applied Moment' },
+  { value: 'uniform', label: 'Uniform Distributed' },
+  { value: 'linear', label: 'Linearly Varying' },
+];
+
+// Input fields for each load type, in display order
+export const loadFields: Record<LoadType, LoadField[]> = {
+  'point': [
+    { key: 'position', label: 'Position', quantity: 'length' },
+    { key: 'magnitude', label: 'Force', quantity: 'force' },
+  ],
+  'moment': [
+    { key: 'position', label: 'Position', quantity: 'length' },
+    { key: 'magnitude', label: 'Moment', quantity: 'moment' },
+  ],
+  'uniform': [
+    { key: 'start', label: 'Start', quantity: 'length' },
+    { key: 'end', label: 'End', quantity: 'length' },
+    { key: 'magnitude', label: 'Intensity', quantity: 'distributedLoad' },
+  ],
+  'linear': [
+    { key: 'start', label: 'Start', quantity: 'length' },
+    { key: 'end', label: 'End', quantity: 'length' },
+    { key: 'startMagnitude', label: 'Start Intensity', quantity: 'distributedLoad' },
+    { key: 'endMagnitude', label: 'End Intensity', quantity: 'distributedLoad' },
+  ],
+};
+
+/**
+ * The load case used when none is given: 1000 N at the free or guided end (cantilever, fixed-guided,
+ * pinned-guided) or at the center (other beam types)
+ */
+export function createDefaultLoadCase(beamType: BeamType, length: number): Load[] {
+  const endEnd = endConditions[beamType][1];
+  const position = endEnd === 'free' || endEnd === 'guided' ? length : length / 2;
+  return [{ type: 'point', position, magnitude: 1000 }];
+}
+
+/**
+ * Returns a reasonable starting load of the given type on a beam of the given length
+ */
+export function createDefaultLoad(type: LoadType, length: number): Load {
+  switch (type) {
+    case 'point':
+      return { type, position: length / 2, magnitude: 1000 };
+    case 'moment':
+      return { type, position: length / 2, magnitude: 100 };
+    case 'uniform':
+      return { type, start: 0, end: length, magnitude: 500 };
+    case 'linear':
+      return { type, start: 0, end: length, startMagnitude: 0, endMagnitude: 1000 };
+  }
+}
+
+/**
+ * Checks that a load lies on the beam (distributed loads need end > start)
+ */
+export function isValidLoad(load: Load, length: number): boolean {
+  const onBeam = (position: number) => position >= 0 && position <= length;
+  switch (load.type) {
+    case 'point':
+    case 'moment':
+      return onBeam(load.position) && Number.isFinite(load.magnitude);
+    case 'uniform':
+      return onBeam(load.start) && onBeam(load.end) && load.end > load.start && Number.isFinite(load.magnitude);
+    case 'linear':
+      return (
+        onBeam(load.start) &&
+        onBeam(load.end) &&
+        load.end > load.start &&
+        Number.isFinite(load.startMagnitude) &&
+        Number.isFinite(load.endMagnitude)
+      );
+  }
+}
+
+/**
+ * Reads a value of a load by field key (0 if the load has no such field)
+ */
+export function getLoadValue(load: Load, key: string): number {
+  const value = (load as unknown as Record<string, unknown>)[key];
+  return typeof value === 'number' ? value : 0;
+}
+
+/**
+ * Returns a copy of the load with one value replaced
+ */
+export function setLoadValue(load: Load, key: string, value: number): Load {
+  return { ...load, [key]: value } as Load;
+}
+
+/**
+ * Net transverse force of a load (0 for a moment)
+ */
+export function resultantForce(load: Load): number {
+  switch (load.type) {
+    case 'point':
+      return load.magnitude;
+    case 'moment':
+      return 0;
+    case 'uniform':
+      return load.magnitude * (load.end - load.start);
+    case 'linear':
+      return ((load.startMagnitude + load.endMagnitude) / 2) * (load.end - load.start);
+  }
+}
+
+/**
+ * Distributed load intensity q(x) in N/m (0 for concentrated loads)
+ */
+export function loadIntensity(load: Load, x: number): number {
+  if (load.type === 'point' || load.type === 'moment' || x < load.start || x > load.end) return 0;
+  if (load.type === 'uniform') return load.magnitude;
+  return load.startMagnitude + ((load.endMagnitude - load.startMagnitude) * (x - load.start)) / (load.end - load.start);
+}
+
+/**
+ * Macaulay bracket term <x - a>^n / n!, taken as zero for x < a
+ */
+function macaulay(x: number, a: number, n: number): number {
+  if (x < a) return 0;
+  let value = 1;
+  for (let i = 1; i <= n; i++) {
+    value *= (x - a) / i;
+  }
+  return value;
+}
+
+/**
+ * k-th derivative (k = 0..3) of the particular bending solution EI·u(x) of EI·u'''' = q for a single
+ * load, built from singular functions so that it vanishes (with its derivatives) ahead of the load.
+ * A concentrated moment contributes nothing to u''' (its shear is an impulse that the couple itself
+ * balances).
+ */
+export function particularSolution(load: Load, x: number, k: number): number {
+  switch (load.type) {
+    case 'point':
+      return load.magnitude * macaulay(x, load.position, 3 - k);
+    case 'moment':
+      return k <= 2 ? -load.magnitude * macaulay(x, load.position, 2 - k) : 0;
+    case 'uniform':
+      return load.magnitude * (macaulay(x, load.start, 4 - k) - macaulay(x, load.end, 4 - k));
+    case 'linear': {
+      // q = q1·<x - a>⁰ + s·<x - a>¹ - q2·<x - b>⁰ - s·<x - b>¹ with slope s
+      const { start: a, end: b, startMagnitude: q1, endMagnitude: q2 } = load;
+      const slope = (q2 - q1) / (b - a);
+      return (
+        q1 * macaulay(x, a, 4 - k) +
+        slope * macaulay(x, a, 5 - k) -
+        q2 * macaulay(x, b, 4 - k) -
+        slope * macaulay(x, b, 5 - k)
+      );
+    }
+  }
+}
+
+/**
+ * Describes a load in a few words, e.g. "1000 N at 2.000 m"
+ */
+export function describeLoad(load: Load, system: UnitSystem = 'si'): string {
+  const at = (position: number) => formatQuantity(position, 'length', system);
+  const span = (start: number, end: number) =>
+    `from ${formatNumber(toDisplay(start, 'length', system))} to ${at(end)}`;
+  switch (load.type) {
+    case 'point':
+      return `${formatQuantity(load.magnitude, 'force', system)} at ${at(load.position)}`;
+    case 'moment':
+      return `${formatQuantity(load.magnitude, 'moment', system)} at ${at(load.position)}`;
+    case 'uniform':
+      return `${formatQuantity(load.magnitude, 'distributedLoad', system)} ${span(load.start, load.end)}`;
+    case 'linear':
+      return `${formatNumber(toDisplay(load.startMagnitude, 'distributedLoad', system))} → ${formatQuantity(
+        load.endMagnitude,
+        'distributedLoad',
+        system
+      )} ${span(load.start, load.end)}`;
+  }
+}
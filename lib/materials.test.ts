@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import {
+  Material,
+  isDuplicateName,
+  mergeMaterials,
+  parseMaterials,
+  presetMaterials,
+  serializeMaterials,
+  usableMaterials,
+} from './materials';
+
+const titanium: Material = {
+  name: 'Ti-6Al-4V',
+  youngsModulus: 1.14e11,
+  density: 4430,
+  poissonsRatio: 0.34,
+  yieldStrength: 8.8e8,
+  ultimateStrength: 9.5e8,
+};
+
+const brass: Material = { name: 'Brass', youngsModulus: 1e11, density: 8500, poissonsRatio: 0.34, yieldStrength: 2e8 };
+
+describe('material import and export', () => {
+  it('reads back the materials it writes', () => {
+    expect(parseMaterials(serializeMaterials([titanium, brass]))).toEqual([titanium, brass]);
+  });
+
+  it('reads a single material as a list of one', () => {
+    expect(parseMaterials(JSON.stringify(brass))).toEqual([brass]);
+  });
+
+  it('trims names and drops unknown properties', () => {
+    const parsed = parseMaterials(JSON.stringify([{ ...brass, name: '  Brass ', colour: 'yellow' }]));
+    expect(parsed).toEqual([brass]);
+  });
+
+  it.each([
+    ['text that is not JSON', '{ name: Brass'],
+    ['a material without a name', JSON.stringify({ ...brass, name: ' ' })],
+    ['a non-positive modulus', JSON.stringify({ ...brass, youngsModulus: 0 })],
+    ['a Poisson ratio of 0.5', JSON.stringify({ ...brass, poissonsRatio: 0.5 })],
+    ['a non-numeric density', JSON.stringify({ ...brass, density: '8500' })],
+    ['one bad entry among good ones', JSON.stringify([titanium, { ...brass, yieldStrength: -1 }])],
+  ])('rejects %s', (_, json) => {
+    expect(parseMaterials(json)).toBeNull();
+  });
+
+  it('replaces materials of the same name on import, the last of a name winning', () => {
+    const softBrass = { ...brass, yieldStrength: 1e8 };
+    const merged = mergeMaterials([brass, titanium], [{ ...brass, yieldStrength: 1.5e8 }, softBrass]);
+    expect(merged).toEqual([titanium, softBrass]);
+  });
+
+  it('keeps only valid materials with unique names for saving and picking', () => {
+    const materials = [brass, { ...titanium, density: -1 }, { ...brass, name: 'Brass ' }, titanium];
+    expect(isDuplicateName(materials, 2)).toBe(true);
+    expect(isDuplicateName(materials, 3)).toBe(false);
+    expect(usableMaterials(materials)).toEqual([brass, titanium]);
+  });
+
+  it('ships presets that are all valid and uniquely named', () => {
+    expect(usableMaterials(presetMaterials)).toEqual(presetMaterials);
+  });
+});
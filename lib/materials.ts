@@ -0,0 +1,198 @@
+export interface Material {
+  name: string;
+  youngsModulus: number; // E in Pa
+  density: number; // ρ in kg/m³
+  poissonsRatio: number; // ν
+  yieldStrength: number; // σy in Pa (tensile strength for brittle materials)
+  ultimateStrength?: number; // σu in Pa
+}
+
+// Material fields shared by a uniform beam and by each segment of a non-uniform one
+export interface MaterialValues {
+  youngsModulus: number;
+  density: number;
+  poissonsRatio?: number;
+  shearModulus?: number;
+  yieldStrength?: number;
+  ultimateStrength?: number;
+}
+
+// Typical room-temperature values; check a datasheet before relying on them for design
+export const presetMaterials: Material[] = [
+  { name: 'Steel (AISI 1020)', youngsModulus: 2.1e11, density: 7850, poissonsRatio: 0.29, yieldStrength: 3.5e8, ultimateStrength: 4.2e8 },
+  { name: 'Steel (AISI 4140)', youngsModulus: 2.05e11, density: 7850, poissonsRatio: 0.29, yieldStrength: 6.55e8, ultimateStrength: 1.02e9 },
+  { name: 'Stainless Steel (304)', youngsModulus: 1.93e11, density: 8000, poissonsRatio: 0.29, yieldStrength: 2.15e8, ultimateStrength: 5.05e8 },
+  { name: 'Cast Iron (Grey)', youngsModulus: 1.1e11, density: 7200, poissonsRatio: 0.26, yieldStrength: 2.0e8, ultimateStrength: 2.0e8 },
+  { name: 'Aluminium (6061-T6)', youngsModulus: 6.9e10, density: 2700, poissonsRatio: 0.33, yieldStrength: 2.76e8, ultimateStrength: 3.1e8 },
+  { name: 'Aluminium (7075-T6)', youngsModulus: 7.17e10, density: 2810, poissonsRatio: 0.33, yieldStrength: 5.03e8, ultimateStrength: 5.72e8 },
+  { name: 'Magnesium (AZ31B)', youngsModulus: 4.5e10, density: 1770, poissonsRatio: 0.35, yieldStrength: 2.0e8, ultimateStrength: 2.6e8 },
+  { name: 'Titanium (Ti-6Al-4V)', youngsModulus: 1.14e11, density: 4430, poissonsRatio: 0.34, yieldStrength: 8.8e8, ultimateStrength: 9.5e8 },
+  { name: 'Brass', youngsModulus: 1.0e11, density: 8500, poissonsRatio: 0.34, yieldStrength: 2.0e8, ultimateStrength: 3.5e8 },
+  { name: 'Copper', youngsModulus: 1.2e11, density: 8960, poissonsRatio: 0.34, yieldStrength: 7.0e7, ultimateStrength: 2.2e8 },
+  { name: 'Carbon Fibre (Typical)', youngsModulus: 1.5e11, density: 1600, poissonsRatio: 0.3, yieldStrength: 6.0e8, ultimateStrength: 6.0e8 },
+  { name: 'Glass Fibre (GFRP)', youngsModulus: 2.5e10, density: 1900, poissonsRatio: 0.28, yieldStrength: 2.5e8, ultimateStrength: 2.5e8 },
+  { name: 'Concrete (Normal)', youngsModulus: 3.0e10, density: 2400, poissonsRatio: 0.2, yieldStrength: 3.0e6, ultimateStrength: 3.0e6 },
+  { name: 'Wood (Oak)', youngsModulus: 1.1e10, density: 750, poissonsRatio: 0.35, yieldStrength: 5.0e7, ultimateStrength: 9.0e7 },
+  { name: 'Polymer (ABS)', youngsModulus: 2.3e9, density: 1050, poissonsRatio: 0.35, yieldStrength: 4.0e7, ultimateStrength: 4.4e7 },
+  { name: 'Polymer (Nylon 6)', youngsModulus: 2.7e9, density: 1140, poissonsRatio: 0.39, yieldStrength: 7.0e7, ultimateStrength: 8.0e7 },
+];
+
+const STORAGE_KEY = 'beam-analysis-materials';
+
+/**
+ * Checks that a value is a material with a name and positive properties (ν between 0 and 0.5)
+ */
+export function isValidMaterial(value: unknown): value is Material {
+  if (typeof value !== 'object' || value === null) return false;
+  const material = value as Record<string, unknown>;
+  const positive = (key: string) => typeof material[key] === 'number' && (material[key] as number) > 0;
+  return (
+    typeof material.name === 'string' &&
+    material.name.trim() !== '' &&
+    positive('youngsModulus') &&
+    positive('density') &&
+    positive('yieldStrength') &&
+    typeof material.poissonsRatio === 'number' &&
+    material.poissonsRatio >= 0 &&
+    material.poissonsRatio < 0.5 &&
+    (material.ultimateStrength === undefined || positive('ultimateStrength'))
+  );
+}
+
+/**
+ * Reads materials from JSON, either an array or a single material. Returns null if the text is
+ * not valid JSON or any entry is not a valid material.
+ */
+export function parseMaterials(json: string): Material[] | null {
+  let value: unknown;
+  try {
+    value = JSON.parse(json);
+  } catch {
+    return null;
+  }
+  const entries = Array.isArray(value) ? value : [value];
+  if (!entries.every(isValidMaterial)) return null;
+
+  return entries.map(normaliseMaterial);
+}
+
+/**
+ * Copies only the known properties of a material, with its name trimmed
+ */
+function normaliseMaterial(material: Material): Material {
+  const { name, youngsModulus, density, poissonsRatio, yieldStrength, ultimateStrength } = material;
+  return {
+    name: name.trim(),
+    youngsModulus,
+    density,
+    poissonsRatio,
+    yieldStrength,
+    ...(ultimateStrength !== undefined && { ultimateStrength }),
+  };
+}
+
+/**
+ * Writes materials as indented JSON, in the form parseMaterials reads
+ */
+export function serializeMaterials(materials: Material[]): string {
+  return JSON.stringify(materials, null, 2);
+}
+
+/**
+ * Loads the user's materials from localStorage, skipping any that are unreadable
+ */
+export function loadCustomMaterials(): Material[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? '[]');
+    return Array.isArray(stored) ? usableMaterials(stored.filter(isValidMaterial).map(normaliseMaterial)) : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Checks whether a material repeats the name of a valid one earlier in the list (one that is not
+ * valid yet cannot be saved, so it does not claim its name)
+ */
+export function isDuplicateName(materials: Material[], index: number): boolean {
+  const name = materials[index].name.trim();
+  return materials.slice(0, index).some((material) => isValidMaterial(material) && material.name.trim() === name);
+}
+
+/**
+ * The materials that can be saved and picked: the valid ones, less any that repeat an earlier name
+ * (names identify materials in the picker)
+ */
+export function usableMaterials(materials: Material[]): Material[] {
+  return materials.filter((material, index) => isValidMaterial(material) && !isDuplicateName(materials, index));
+}
+
+/**
+ * Saves the user's usable materials to localStorage (silently skipped if storage is unavailable), so
+ * one left half-edited or named like another does not spoil the rest
+ */
+export function saveCustomMaterials(materials: Material[]): void {
+  if (typeof window === 'undefined') return;
+  try {
+    window.localStorage.setItem(STORAGE_KEY, serializeMaterials(usableMaterials(materials)));
+  } catch {
+    // Private browsing or a full quota; the materials last for this session only
+  }
+}
+
+/**
+ * Adds materials to a list, replacing any with the same name (of the added materials, the last of a
+ * name wins)
+ */
+export function mergeMaterials(materials: Material[], added: Material[]): Material[] {
+  const unique = added.filter((material, index) => !added.slice(index + 1).some((m) => m.name === material.name));
+  const names = new Set(unique.map((material) => material.name));
+  return [...materials.filter((material) => !names.has(material.name)), ...unique];
+}
+
+/**
+ * Finds the material whose properties the values match exactly (a shear modulus entered by hand
+ * counts as a custom material)
+ */
+export function findMaterial(materials: Material[], values: MaterialValues): Material | undefined {
+  if (values.shearModulus !== undefined) return undefined;
+  return materials.find(
+    (material) =>
+      material.youngsModulus === values.youngsModulus &&
+      material.density === values.density &&
+      material.poissonsRatio === (values.poissonsRatio ?? 0.3) &&
+      material.yieldStrength === values.yieldStrength &&
+      material.ultimateStrength === values.ultimateStrength
+  );
+}
+
+/**
+ * Copies a material's properties onto a beam or segment (G reverts to E/(2(1+ν)))
+ */
+export function applyMaterial<T extends MaterialValues>(target: T, material: Material): T {
+  return {
+    ...target,
+    youngsModulus: material.youngsModulus,
+    density: material.density,
+    poissonsRatio: material.poissonsRatio,
+    shearModulus: undefined,
+    yieldStrength: material.yieldStrength,
+    ultimateStrength: material.ultimateStrength,
+  };
+}
+
+/**
+ * A material holding the current values of a beam or segment, to save under a new name
+ */
+export function materialFromValues(name: string, values: MaterialValues): Material | null {
+  const material = {
+    name: name.trim(),
+    youngsModulus: values.youngsModulus,
+    density: values.density,
+    poissonsRatio: values.poissonsRatio ?? 0.3,
+    yieldStrength: values.yieldStrength,
+    ...(values.ultimateStrength !== undefined && { ultimateStrength: values.ultimateStrength }),
+  };
+  return isValidMaterial(material) ? material : null;
+}
@@ -0,0 +1,53 @@
+import type { ModeShape } from './beamAnalysis';
+
+// Deflections below this fraction of a shape's peak count as zero when finding nodes
+const NODE_TOLERANCE = 1e-6;
+
+/**
+ * Positions in meters where a mode shape has no deflection: the supports that hold the beam still
+ * and the interior points where the shape changes sign (found by linear interpolation)
+ */
+export function findNodes(shape: Pick<ModeShape, 'x' | 'w'>): number[] {
+  const { x, w } = shape;
+  const tolerance = NODE_TOLERANCE * Math.max(...w.map(Math.abs));
+  const nodes: number[] = [];
+  w.forEach((value, i) => {
+    if (Math.abs(value) <= tolerance) {
+      nodes.push(x[i]);
+    } else if (i > 0 && Math.abs(w[i - 1]) > tolerance && Math.sign(value) !== Math.sign(w[i - 1])) {
+      nodes.push(x[i - 1] + ((x[i] - x[i - 1]) * w[i - 1]) / (w[i - 1] - value));
+    }
+  });
+  // A zero that spans several samples is one node
+  return nodes.filter((position, i) => i === 0 || position - nodes[i - 1] > (x[1] - x[0]) * 1.5);
+}
+
+/**
+ * Positions in meters where a mode shape swings furthest: the local peaks of |w|, including a free
+ * or guided end that moves more than its neighbour
+ */
+export function findAntinodes(shape: Pick<ModeShape, 'x' | 'w'>): number[] {
+  const { x, w } = shape;
+  const magnitude = w.map(Math.abs);
+  const tolerance = NODE_TOLERANCE * Math.max(...magnitude);
+  return x.filter(
+    (_, i) =>
+      magnitude[i] > tolerance &&
+      (i === 0 || magnitude[i] > magnitude[i - 1]) &&
+      (i === x.length - 1 || magnitude[i] >= magnitude[i + 1])
+  );
+}
+
+/**
+ * Deflected shape of a set of modes oscillating together, Σ w_r(x)·cos(θ_r), each as normalised to a
+ * peak of 1, and divided by the largest Σ|w_r(x)| so that the result never exceeds 1
+ */
+export function superposeShapes(shapes: Pick<ModeShape, 'w'>[], phases: number[]): number[] {
+  if (shapes.length === 0) return [];
+  const bound = Math.max(
+    ...shapes[0].w.map((_, i) => shapes.reduce((sum, shape) => sum + Math.abs(shape.w[i]), 0))
+  );
+  return shapes[0].w.map(
+    (_, i) => shapes.reduce((sum, shape, r) => sum + shape.w[i] * Math.cos(phases[r]), 0) / (bound || 1)
+  );
+}
@@ -0,0 +1,291 @@
+import { BeamResults, BeamType, EFFECTIVE_MASS_TARGET } from './beamAnalysis';
+import { endConditions } from './boundaryConditions';
+import { getSectionDepth } from './crossSections';
+import type { ExportHeader } from './export';
+import { UnitSystem, formatNumber, formatQuantity, units } from './units';
+
+// The analysis a report is printed from, handed over from the main page
+export interface ReportInputs extends ExportHeader {
+  unitSystem: UnitSystem;
+  createdAt: string; // ISO date and time the report was requested
+}
+
+const STORAGE_KEY = 'beam-analysis-report';
+
+// An Euler-Bernoulli beam shorter than this many depths loses accuracy in all but its lowest modes
+const SLENDERNESS_LIMIT = 10;
+
+// A static deflection beyond this fraction of the length strains the small-deflection assumption
+const LARGE_DEFLECTION_RATIO = 0.05;
+
+// Axial compression above this fraction of the critical load is close to buckling
+const BUCKLING_MARGIN = 0.8;
+
+// A mode shape whose boundary residual exceeds this may be inaccurate
+const RESIDUAL_LIMIT = 1e-3;
+
+/**
+ * Checks that a value has the shape of report inputs (the analysis itself validates the properties)
+ */
+function isReportInputs(value: unknown): value is ReportInputs {
+  if (typeof value !== 'object' || value === null) return false;
+  const inputs = value as Partial<ReportInputs>;
+  return (
+    typeof inputs.beamType === 'string' &&
+    inputs.beamType in endConditions &&
+    typeof inputs.properties === 'object' &&
+    inputs.properties !== null &&
+    typeof inputs.properties.length === 'number' &&
+    typeof inputs.numModes === 'number' &&
+    typeof inputs.options === 'object' &&
+    inputs.options !== null &&
+    typeof inputs.unitSystem === 'string' &&
+    inputs.unitSystem in units &&
+    typeof inputs.createdAt === 'string'
+  );
+}
+
+/**
+ * Saves the analysis for the report page to pick up (silently skipped if storage is unavailable)
+ */
+export function saveReportInputs(header: ExportHeader, unitSystem: UnitSystem): void {
+  if (typeof window === 'undefined') return;
+  const inputs: ReportInputs = { ...header, unitSystem, createdAt: new Date().toISOString() };
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(inputs));
+  } catch {
+    // Private browsing or a full quota; the report page will find nothing to show
+  }
+}
+
+/**
+ * Loads the analysis saved for the report, or null if there is none or it is unreadable
+ */
+export function loadReportInputs(): ReportInputs | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored: unknown = JSON.parse(window.localStorage.getItem(STORAGE_KEY) ?? 'null');
+    return isReportInputs(stored) ? stored : null;
+  } catch {
+    return null;
+  }
+}
+
+// Characteristic equation of each uniform Euler-Bernoulli beam type, and the same equation with a
+// root substituted, showing the value of each term
+interface CharacteristicEquation {
+  equation: string;
+  substitute: (bL: string, value: number) => string; // bL as printed and its exact value
+}
+
+const characteristicEquations: Record<BeamType, CharacteristicEquation> = {
+  'cantilever': {
+    equation: 'cos(bL)·cosh(bL) + 1 = 0',
+    substitute: (bL, value) =>
+      `cos(${bL})·cosh(${bL}) + 1 = (${term(Math.cos(value))})·(${term(Math.cosh(value))}) + 1`,
+  },
+  'simply-supported': {
+    equation: 'sin(bL) = 0',
+    substitute: (bL, value) => `sin(${bL}) = ${term(Math.sin(value))}`,
+  },
+  'fixed-fixed': {
+    equation: 'cos(bL)·cosh(bL) − 1 = 0',
+    substitute: (bL, value) =>
+      `cos(${bL})·cosh(${bL}) − 1 = (${term(Math.cos(value))})·(${term(Math.cosh(value))}) − 1`,
+  },
+  'fixed-pinned': {
+    equation: 'tan(bL) − tanh(bL) = 0',
+    substitute: (bL, value) => `tan(${bL}) − tanh(${bL}) = ${term(Math.tan(value))} − ${term(Math.tanh(value))}`,
+  },
+  'free-free': {
+    equation: 'cos(bL)·cosh(bL) − 1 = 0',
+    substitute: (bL, value) =>
+      `cos(${bL})·cosh(${bL}) − 1 = (${term(Math.cos(value))})·(${term(Math.cosh(value))}) − 1`,
+  },
+  'pinned-free': {
+    equation: 'tan(bL) − tanh(bL) = 0',
+    substitute: (bL, value) => `tan(${bL}) − tanh(${bL}) = ${term(Math.tan(value))} − ${term(Math.tanh(value))}`,
+  },
+  'fixed-guided': {
+    equation: 'tan(bL) + tanh(bL) = 0',
+    substitute: (bL, value) => `tan(${bL}) + tanh(${bL}) = ${term(Math.tan(value))} + ${term(Math.tanh(value))}`,
+  },
+  'pinned-guided': {
+    equation: 'cos(bL) = 0',
+    substitute: (bL, value) => `cos(${bL}) = ${term(Math.cos(value))}`,
+  },
+};
+
+function term(value: number): string {
+  return formatNumber(value, 6);
+}
+
+/**
+ * The characteristic (frequency) equation whose roots bL give the natural frequencies of a uniform
+ * Euler-Bernoulli beam
+ */
+export function characteristicEquation(beamType: BeamType): string {
+  return characteristicEquations[beamType].equation;
+}
+
+/**
+ * A root of the characteristic equation substituted back into it, e.g.
+ * "cos(1.87510)·cosh(1.87510) + 1 = (-0.296355)·(3.37455) + 1 ≈ 0"
+ */
+export function substituteCharacteristicEquation(beamType: BeamType, bL: number): string {
+  return `${characteristicEquations[beamType].substitute(bL.toFixed(5), bL)} ≈ 0`;
+}
+
+/**
+ * The frequency of a mode from its bL with the numbers substituted, in SI:
+ * ω = (bL)²·√(EI/(ρA·L⁴)) and f = ω/2π
+ */
+export function substituteFrequency(bL: number, results: BeamResults, length: number): string {
+  const omega = bL * bL * Math.sqrt(results.flexuralRigidity / (results.massPerUnitLength * Math.pow(length, 4)));
+  return (
+    `ω = (${bL.toFixed(5)})²·√(${formatNumber(results.flexuralRigidity, 5)} / ` +
+    `(${formatNumber(results.massPerUnitLength, 5)}·${formatNumber(length, 5)}⁴)) = ` +
+    `${formatNumber(omega, 6)} rad/s, f = ω/2π = ${formatNumber(omega / (2 * Math.PI), 6)} Hz`
+  );
+}
+
+/**
+ * The equations of motion the analysis solves, with the terms for an axial load and a foundation
+ * only when they are present
+ */
+export function governingEquations(header: ExportHeader): string[] {
+  const { properties, options } = header;
+  const axialLoad = (properties.axialLoad ?? 0) !== 0;
+  const foundation = (properties.foundationModulus ?? 0) > 0;
+  if (options.theory === 'timoshenko') {
+    const extraTerms = `${axialLoad ? ' + P·∂²w/∂x²' : ''}${foundation ? ' − k·w' : ''}`;
+    return [
+      `κGA·(∂²w/∂x² − ∂φ/∂x)${extraTerms} = ρA·∂²w/∂t²`,
+      'EI·∂²φ/∂x² + κGA·(∂w/∂x − φ) = ρI·∂²φ/∂t²',
+    ];
+  }
+  const extraTerms = `${axialLoad ? ' − P·∂²w/∂x²' : ''}${foundation ? ' + k·w' : ''}`;
+  return [`EI·∂⁴w/∂x⁴${extraTerms} + ρA·∂²w/∂t² = 0`];
+}
+
+/**
+ * The modelling assumptions behind an analysis, for the report
+ */
+export function reportAssumptions(header: ExportHeader, results: BeamResults): string[] {
+  const { properties } = header;
+  const assumptions: (string | null)[] = [
+    results.theory === 'timoshenko'
+      ? 'Timoshenko beam theory: shear deformation and rotary inertia are included, with the shear ' +
+        'correction factor κ of the section'
+      : 'Euler-Bernoulli beam theory: plane sections remain plane and normal to the neutral axis; shear ' +
+        'deformation and rotary inertia are neglected',
+    'Small deflections and rotations: the equations are linear, so responses superpose and the static ' +
+      'deflection is proportional to the load',
+    'Linear elastic, homogeneous and isotropic material, with E and ρ constant within each segment',
+    'Bending in one plane about the horizontal centroidal axis of the section; torsion, axial vibration and ' +
+      'out-of-plane bending are not considered',
+    'Ideal supports: fixed and pinned ends are perfectly rigid, and free and guided ends offer no restraint ' +
+      'in the released directions',
+    results.solver === 'finite-element'
+      ? 'Hermite-cubic finite elements with consistent mass; the frequencies converge from above as the mesh is refined'
+      : 'Closed-form solution of the characteristic equation for a uniform beam',
+    (properties.axialLoad ?? 0) !== 0
+      ? 'The axial load is constant along the beam and keeps its direction as the beam deflects'
+      : null,
+    (properties.foundationModulus ?? 0) > 0
+      ? 'Winkler foundation: independent springs under the beam that act in tension as well as compression'
+      : null,
+    properties.damping
+      ? 'Classical (proportional) damping: each mode keeps its undamped shape and decays with its own damping ratio'
+      : 'No damping: resonant responses are unbounded',
+  ];
+  return assumptions.filter((assumption): assumption is string => assumption !== null);
+}
+
+// "Mode 2" or "Modes 2, 3"
+function describeModes(modes: number[]): string {
+  return `${modes.length > 1 ? 'Modes' : 'Mode'} ${modes.join(', ')}`;
+}
+
+/**
+ * Conditions under which the results of an analysis should be treated with care
+ */
+export function reportWarnings(header: ExportHeader, results: BeamResults, unitSystem: UnitSystem): string[] {
+  const { properties } = header;
+  const { staticDeflection, strengthCheck, buckling } = results;
+  const warnings: string[] = [];
+
+  const sections = properties.segments
+    ? properties.segments.flatMap((segment) => [segment.section, ...(segment.endSection ? [segment.endSection] : [])])
+    : [properties.section];
+  const slenderness = properties.length / Math.max(...sections.map(getSectionDepth));
+  if (results.theory === 'euler-bernoulli' && slenderness < SLENDERNESS_LIMIT) {
+    warnings.push(
+      `The length is only ${slenderness.toFixed(1)} times the section depth: shear deformation and rotary inertia ` +
+        'lower the frequencies noticeably, especially of the higher modes, so consider Timoshenko theory'
+    );
+  }
+
+  if (staticDeflection && Math.abs(staticDeflection.maxDeflection) > LARGE_DEFLECTION_RATIO * properties.length) {
+    warnings.push(
+      `The maximum static deflection of ${formatQuantity(staticDeflection.maxDeflection, 'deflection', unitSystem)} ` +
+        `is ${((Math.abs(staticDeflection.maxDeflection) / properties.length) * 100).toFixed(1)}% of the length, ` +
+        'beyond the range of small-deflection theory'
+    );
+  }
+
+  if (strengthCheck && !strengthCheck.passed) {
+    const location = formatQuantity(strengthCheck.criticalLocation, 'length', unitSystem);
+    warnings.push(
+      `The safety factor of ${strengthCheck.safetyFactor.toFixed(2)} against yield in ` +
+        `${strengthCheck.criticalStress} at x = ${location} ` +
+        `is below the required ${strengthCheck.requiredSafetyFactor.toFixed(2)}`
+    );
+  }
+
+  if (buckling && buckling.length > 0 && results.axialLoad < 0) {
+    const ratio = -results.axialLoad / buckling[0].criticalLoad;
+    if (ratio >= 1) {
+      warnings.push(
+        'The axial compression exceeds the critical buckling load of ' +
+          `${formatQuantity(buckling[0].criticalLoad, 'force', unitSystem)}: ` +
+          'the beam is unstable and the vibration and static results do not apply'
+      );
+    } else if (ratio >= BUCKLING_MARGIN) {
+      warnings.push(
+        `The axial compression is ${(ratio * 100).toFixed(0)}% of the critical buckling load, so the results are ` +
+          'sensitive to the load and to imperfections in the beam'
+      );
+    }
+  }
+
+  const inaccurate = results.modeShapes
+    .filter((shape) => Math.max(0, ...shape.boundaryResiduals.map((r) => Math.abs(r.residual))) > RESIDUAL_LIMIT)
+    .map((shape) => shape.mode);
+  if (inaccurate.length > 0) {
+    warnings.push(
+      `${describeModes(inaccurate)} ${inaccurate.length > 1 ? 'do' : 'does'} not meet the boundary conditions to ` +
+        `within ${RESIDUAL_LIMIT}, so ${inaccurate.length > 1 ? 'their shapes' : 'its shape'} may be inaccurate`
+    );
+  }
+
+  const captured = results.modeShapes.reduce((sum, shape) => sum + shape.effectiveMassFraction, 0);
+  if (captured < EFFECTIVE_MASS_TARGET) {
+    warnings.push(
+      `The ${results.modeShapes.length} computed modes capture ${(captured * 100).toFixed(1)}% of the total mass; ` +
+        `compute more modes if a base-excitation response needs ${EFFECTIVE_MASS_TARGET * 100}%`
+    );
+  }
+
+  const heavilyDamped = (results.modalDamping ?? [])
+    .filter((damping) => damping.dampingRatio >= 1)
+    .map((damping) => damping.mode);
+  if (heavilyDamped.length > 0) {
+    warnings.push(
+      `${describeModes(heavilyDamped)} ${heavilyDamped.length > 1 ? 'are' : 'is'} critically damped or overdamped ` +
+        'and will not oscillate'
+    );
+  }
+
+  return warnings;
+}
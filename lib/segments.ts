@@ -0,0 +1,177 @@
+import {
+  CrossSection,
+  SectionProperties,
+  sectionFields,
+  calculateSectionProperties,
+  calculateShearCorrectionFactor,
+  getSectionValue,
+  isValidSection,
+  isValidShearProperties,
+  setSectionValue,
+} from './crossSections';
+import { BeamType } from './boundaryConditions';
+import { BeamElement, FiniteElementModel, meshNodes } from './finiteElement';
+import type { Attachment } from './attachments';
+
+// A length of beam with its own section and material. Positions are in meters from x = 0; the
+// segments of a beam must follow each other without gaps and cover it from 0 to L.
+export interface BeamSegment {
+  start: number;
+  end: number;
+  section: CrossSection; // Section at the start of the segment
+  endSection?: CrossSection; // Section at the end for a linear taper (same type); uniform if omitted
+  youngsModulus: number; // Pa
+  density: number; // kg/m³
+  poissonsRatio?: number; // ν, defaults to 0.3
+  shearModulus?: number; // G in Pa, defaults to E/(2(1+ν))
+  yieldStrength?: number; // σy in Pa (for the strength check)
+  ultimateStrength?: number; // σu in Pa (for the strength check)
+}
+
+export interface SegmentProperties {
+  start: number;
+  end: number;
+  startProperties: SectionProperties;
+  endProperties: SectionProperties;
+  youngsModulus: number;
+  density: number;
+}
+
+// Positions must agree to within this fraction of the beam length
+const POSITION_TOLERANCE = 1e-9;
+
+/**
+ * Checks that the segments cover 0 to L in order without gaps or overlaps, and that every
+ * section and material is valid (a taper must keep the section type)
+ */
+export function isValidSegments(segments: BeamSegment[], length: number): boolean {
+  if (segments.length === 0 || !(length > 0)) return false;
+  const tolerance = POSITION_TOLERANCE * length;
+
+  return segments.every((segment, index) => {
+    const expectedStart = index === 0 ? 0 : segments[index - 1].end;
+    const { endSection } = segment;
+    return (
+      Math.abs(segment.start - expectedStart) <= tolerance &&
+      segment.end > segment.start &&
+      (index < segments.length - 1 || Math.abs(segment.end - length) <= tolerance) &&
+      isValidSection(segment.section) &&
+      (!endSection || (endSection.type === segment.section.type && isValidSection(endSection))) &&
+      segment.youngsModulus > 0 &&
+      segment.density > 0 &&
+      isValidShearProperties(segment.poissonsRatio, segment.shearModulus)
+    );
+  });
+}
+
+/**
+ * Creates a single uniform segment spanning the whole beam
+ */
+export function createSegment(
+  start: number,
+  end: number,
+  section: CrossSection,
+  youngsModulus: number,
+  density: number
+): BeamSegment {
+  return { start, end, section, youngsModulus, density };
+}
+
+/**
+ * Section of a segment at a position, interpolating every dimension linearly along a taper
+ */
+export function sectionAt(segment: BeamSegment, position: number): CrossSection {
+  const { section, endSection } = segment;
+  if (!endSection) return section;
+
+  const t = Math.min(Math.max((position - segment.start) / (segment.end - segment.start), 0), 1);
+  return sectionFields[section.type].reduce(
+    (result, field) => {
+      const startValue = getSectionValue(section, field.key);
+      const endValue = getSectionValue(endSection, field.key);
+      return setSectionValue(result, field.key, startValue + t * (endValue - startValue));
+    },
+    section
+  );
+}
+
+/**
+ * Section properties at both ends of each segment
+ */
+export function calculateSegmentProperties(segments: BeamSegment[]): SegmentProperties[] {
+  return segments.map((segment) => ({
+    start: segment.start,
+    end: segment.end,
+    startProperties: calculateSectionProperties(segment.section),
+    endProperties: calculateSectionProperties(sectionAt(segment, segment.end)),
+    youngsModulus: segment.youngsModulus,
+    density: segment.density,
+  }));
+}
+
+/**
+ * Segment containing a position (on a boundary, the segment that finishes there)
+ */
+export function segmentAt(segments: BeamSegment[], position: number): BeamSegment {
+  return segments.find((s) => position <= s.end) ?? segments[segments.length - 1];
+}
+
+/**
+ * Section properties of a segmented beam at a position
+ */
+export function sectionPropertiesAt(segments: BeamSegment[], position: number): SectionProperties {
+  return calculateSectionProperties(sectionAt(segmentAt(segments, position), position));
+}
+
+/**
+ * Element properties at a position within a segment
+ */
+function elementProperties(
+  segment: BeamSegment,
+  position: number,
+  timoshenko: boolean
+): Omit<BeamElement, 'length'> {
+  const section = sectionAt(segment, position);
+  const { area, momentOfInertia } = calculateSectionProperties(section);
+  const poissonsRatio = segment.poissonsRatio ?? 0.3;
+  const shearModulus = segment.shearModulus ?? segment.youngsModulus / (2 * (1 + poissonsRatio));
+
+  return {
+    flexuralRigidity: segment.youngsModulus * momentOfInertia,
+    massPerUnitLength: segment.density * area,
+    rotaryInertia: timoshenko ? segment.density * momentOfInertia : 0,
+    shearRigidity: timoshenko
+      ? calculateShearCorrectionFactor(section, poissonsRatio) * shearModulus * area
+      : Infinity,
+  };
+}
+
+/**
+ * Builds a finite-element model of a segmented beam. Every segment boundary and attachment is a
+ * node, and each segment gets a share of the elements in proportion to its length (at least two).
+ * Tapered segments are represented by elements with the properties at their midpoints.
+ */
+export function createSegmentedModel(
+  beamType: BeamType,
+  segments: BeamSegment[],
+  numElements: number,
+  timoshenko: boolean,
+  attachments: Attachment[] = []
+): FiniteElementModel {
+  const length = segments[segments.length - 1].end;
+  const breakpoints = attachments.map((attachment) => attachment.position);
+  const nodes = [segments[0].start];
+  const elements: BeamElement[] = [];
+
+  segments.forEach((segment) => {
+    const count = Math.max(2, Math.round((numElements * (segment.end - segment.start)) / length));
+    const segmentNodes = meshNodes(segment.start, segment.end, count, breakpoints);
+    segmentNodes.slice(1).forEach((end, i) => {
+      const start = segmentNodes[i];
+      nodes.push(end);
+      elements.push({ ...elementProperties(segment, (start + end) / 2, timoshenko), length: end - start });
+    });
+  });
+
+  return { beamType, nodes, elements, attachments };
+}
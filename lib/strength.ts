@@ -0,0 +1,85 @@
+import type { StaticDeflection } from './beamAnalysis';
+
+// Strength of the material at a point of the beam
+export interface MaterialStrength {
+  yieldStrength?: number; // σy in Pa
+  ultimateStrength?: number; // σu in Pa (optional)
+}
+
+export interface StrengthCheck {
+  maxBendingStress: number; // Largest |σ| at the extreme fibre in Pa
+  maxBendingStressLocation: number; // m
+  maxShearStress: number; // Largest |τ| at the neutral axis in Pa
+  maxShearStressLocation: number; // m
+  bendingSafetyFactor: number; // σy/|σ| at the most critical section
+  shearSafetyFactor: number; // τy/|τ| at the most critical section, with τy = σy/√3 (von Mises)
+  ultimateSafetyFactor: number | null; // σu/|σ| at the most critical section (null if σu is not given)
+  safetyFactor: number; // Governing (smaller) of the bending and shear safety factors
+  criticalLocation: number; // Position of the governing section in meters
+  criticalStress: 'bending' | 'shear'; // Which stress governs
+  requiredSafetyFactor: number;
+  passed: boolean; // True if the safety factor reaches the required one
+}
+
+// Least safety factor a strength check may require: below it, a beam would pass while yielding
+export const MIN_SAFETY_FACTOR = 1;
+
+/**
+ * Checks that a required safety factor is a number of at least MIN_SAFETY_FACTOR
+ */
+export function isValidSafetyFactor(requiredSafetyFactor: number): boolean {
+  return requiredSafetyFactor >= MIN_SAFETY_FACTOR;
+}
+
+/**
+ * Smallest ratio of strength to stress along the beam and where it occurs (Infinity if unstressed)
+ */
+function minimumRatio(x: number[], stress: number[], strength: number[]): { value: number; location: number } {
+  return x.reduce(
+    (best, pos, i) => {
+      const ratio = strength[i] / Math.abs(stress[i]);
+      return ratio < best.value ? { value: ratio, location: pos } : best;
+    },
+    { value: Infinity, location: 0 }
+  );
+}
+
+/**
+ * Checks the extreme-fibre bending stress and neutral-axis shear stress of a load case against the
+ * strength of the material at each section. Bending and shear are checked separately, since their
+ * peaks lie at different fibres. Returns null unless a yield strength is known all along the beam and
+ * the required safety factor is valid.
+ */
+export function calculateStrengthCheck(
+  staticDeflection: StaticDeflection,
+  materialAt: (pos: number) => MaterialStrength,
+  requiredSafetyFactor: number = 1
+): StrengthCheck | null {
+  const { x, stress, shearStress, peakStress, peakShearStress } = staticDeflection;
+  const materials = x.map(materialAt);
+  const yieldStrength = materials.map((material) => material.yieldStrength ?? 0);
+  const ultimateStrength = materials.map((material) => material.ultimateStrength ?? 0);
+  if (yieldStrength.some((value) => !(value > 0)) || !isValidSafetyFactor(requiredSafetyFactor)) return null;
+
+  const bending = minimumRatio(x, stress, yieldStrength);
+  const shear = minimumRatio(x, shearStress, yieldStrength.map((value) => value / Math.sqrt(3)));
+  const ultimate = ultimateStrength.every((value) => value > 0)
+    ? minimumRatio(x, stress, ultimateStrength).value
+    : null;
+  const critical = shear.value < bending.value ? shear : bending;
+
+  return {
+    maxBendingStress: Math.abs(peakStress.value),
+    maxBendingStressLocation: peakStress.location,
+    maxShearStress: Math.abs(peakShearStress.value),
+    maxShearStressLocation: peakShearStress.location,
+    bendingSafetyFactor: bending.value,
+    shearSafetyFactor: shear.value,
+    ultimateSafetyFactor: ultimate,
+    safetyFactor: critical.value,
+    criticalLocation: critical.location,
+    criticalStress: critical === shear ? 'shear' : 'bending',
+    requiredSafetyFactor,
+    passed: critical.value >= requiredSafetyFactor,
+  };
+}
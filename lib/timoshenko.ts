@@ -0,0 +1,234 @@
+import { BeamType, EndCondition, endConditions } from './boundaryConditions';
+import { determinant4, nullVector4, trapezoid } from './linearAlgebra';
+import type { BoundaryResidual } from './beamAnalysis';
+
+export interface TimoshenkoParameters {
+  length: number; // L in meters
+  flexuralRigidity: number; // EI in N·m²
+  shearRigidity: number; // κGA in N
+  massPerUnitLength: number; // ρA in kg/m
+  rotaryInertia: number; // ρI in kg·m
+}
+
+export interface TimoshenkoMode {
+  frequency: number; // Hz
+  bL: number; // Euler-Bernoulli equivalent: ω = (bL)²·√(EI/(ρAL⁴))
+  w: number[]; // Normalised to a peak of +1
+  modalMass: number; // Generalised mass ∫(ρA·w² + ρI·ψ²) dx of the normalised shape in kg
+  boundaryResiduals: BoundaryResidual[];
+}
+
+// Field quantities at a point: deflection w, bending rotation ψ, ψ' (= M/EI) and w' - ψ (= V/κGA)
+type FieldValues = [number, number, number, number];
+
+// Quantities (indices into FieldValues) that must vanish at each kind of end
+const endConditionFields: Record<EndCondition, [number, number]> = {
+  'fixed': [0, 1], // Zero deflection and rotation
+  'pinned': [0, 2], // Zero deflection and moment
+  'free': [2, 3], // Zero moment and shear
+  'guided': [1, 3], // Zero rotation and shear
+};
+
+const fieldLabels = ['w = 0', 'ψ = 0', "M = EIψ' = 0", "V = κGA(w' - ψ) = 0"];
+
+/**
+ * Builds the four independent solutions of the Timoshenko equations at circular frequency ω
+ *   κGA(w'' - ψ') + ρAω²w = 0
+ *   EIψ'' + κGA(w' - ψ) + ρIω²ψ = 0
+ * Trying w ∝ e^(sx) gives κGA·EI·s⁴ + ω²(κGA·ρI + ρA·EI)s² + ρAω²(ρIω² - κGA) = 0.
+ * One root s² is always negative (oscillatory); the other is positive below the cut-off frequency
+ * ω_c = √(κGA/ρI) (decaying exponentials, written from each end so they stay bounded) and negative
+ * above it (a second oscillatory wave).
+ */
+function buildBasis(p: TimoshenkoParameters, omega: number): ((x: number) => FieldValues)[] {
+  const { length: L, flexuralRigidity: EI, shearRigidity: kGA, massPerUnitLength: rhoA, rotaryInertia: rhoI } = p;
+  const w2 = omega * omega;
+  const a = kGA * EI;
+  const b = w2 * (kGA * rhoI + rhoA * EI);
+  const c = rhoA * w2 * (rhoI * w2 - kGA);
+  const sqrtDisc = Math.sqrt(b * b - 4 * a * c);
+  const rootA = (-b - sqrtDisc) / (2 * a); // Always negative
+  const rootB = (2 * c) / (-b - sqrtDisc); // Stable form of (-b + √disc)/(2a)
+
+  const oscillatory = (beta: number) => {
+    const h = (rhoA * w2 - kGA * beta * beta) / (kGA * beta);
+    return [
+      (x: number): FieldValues => {
+        const C = Math.cos(beta * x);
+        const S = Math.sin(beta * x);
+        return [C, h * S, h * beta * C, -beta * S - h * S];
+      },
+      (x: number): FieldValues => {
+        const C = Math.cos(beta * x);
+        const S = Math.sin(beta * x);
+        return [S, -h * C, h * beta * S, beta * C + h * C];
+      },
+    ];
+  };
+
+  const evanescent = (alpha: number) => {
+    const g = (kGA * alpha * alpha + rhoA * w2) / (kGA * alpha);
+    return [
+      (x: number): FieldValues => {
+        const e = Math.exp(-alpha * x);
+        return [e, -g * e, g * alpha * e, (g - alpha) * e];
+      },
+      (x: number): FieldValues => {
+        const e = Math.exp(alpha * (x - L));
+        return [e, g * e, g * alpha * e, (alpha - g) * e];
+      },
+    ];
+  };
+
+  return [
+    ...oscillatory(Math.sqrt(-rootA)),
+    ...(rootB > 0 ? evanescent(Math.sqrt(rootB)) : oscillatory(Math.sqrt(-rootB))),
+  ];
+}
+
+/**
+ * Boundary condition matrix at frequency ω, each row scaled to unit maximum so the determinant
+ * stays well conditioned (positive scaling does not change its sign)
+ */
+function boundaryMatrix(beamType: BeamType, p: TimoshenkoParameters, omega: number): number[][] {
+  const basis = buildBasis(p, omega);
+  const [startEnd, endEnd] = endConditions[beamType];
+  const ends: [number, EndCondition][] = [[0, startEnd], [p.length, endEnd]];
+
+  return ends.flatMap(([position, end]) => {
+    const values = basis.map((f) => f(position));
+    return endConditionFields[end].map((field) => {
+      const row = values.map((v) => v[field]);
+      const scale = Math.max(...row.map(Math.abs)) || 1;
+      return row.map((v) => v / scale);
+    });
+  });
+}
+
+/**
+ * Bisection on a bracketed sign change
+ */
+function bisect(f: (x: number) => number, lower: number, upper: number, iterations: number = 80): number {
+  let fLower = f(lower);
+  for (let i = 0; i < iterations; i++) {
+    const mid = (lower + upper) / 2;
+    const fMid = f(mid);
+    if (fLower * fMid <= 0) {
+      upper = mid;
+    } else {
+      lower = mid;
+      fLower = fMid;
+    }
+  }
+  return (lower + upper) / 2;
+}
+
+/**
+ * Calculates the elastic natural frequencies and mode shapes of a uniform Timoshenko beam.
+ * The frequency determinant is scanned in the Euler-Bernoulli frequency parameter bL, whose roots
+ * are spaced by roughly π; the scan step is π/200 so that the closely spaced pairs formed where the
+ * second spectrum (above cut-off) interleaves with the first are not skipped. Intervals straddling the cut-off are skipped
+ * because the basis (and with it the sign of the determinant) changes there; the only mode that can
+ * sit exactly at the cut-off is the thickness-shear mode of a simply-supported beam, added directly.
+ */
+export function calculateTimoshenkoModes(
+  beamType: BeamType,
+  p: TimoshenkoParameters,
+  numModes: number,
+  x: number[]
+): TimoshenkoMode[] {
+  const { length: L, flexuralRigidity: EI, massPerUnitLength: rhoA } = p;
+  const frequencyScale = Math.sqrt(EI / (rhoA * Math.pow(L, 4))); // ω = (bL)²·frequencyScale
+  const toOmega = (bL: number) => bL * bL * frequencyScale;
+  const cutoffBL = Math.sqrt(Math.sqrt(p.shearRigidity / p.rotaryInertia) / frequencyScale);
+  const characteristic = (bL: number) => determinant4(boundaryMatrix(beamType, p, toOmega(bL)));
+
+  // At the cut-off itself, w = 0 with a uniform rotation ψ is a pure thickness-shear mode. It
+  // satisfies the boundary conditions only when no end restrains ψ or V (both ends pinned).
+  const [startEnd, endEnd] = endConditions[beamType];
+  const ends: [number, EndCondition][] = [[0, startEnd], [L, endEnd]];
+  const hasCutoffMode = [startEnd, endEnd].every((end) =>
+    endConditionFields[end].every((field) => field === 0 || field === 2)
+  );
+
+  const roots: number[] = [];
+  const step = Math.PI / 200;
+  const maxBL = (numModes + 2) * Math.PI;
+  let previousBL = step / 2;
+  let previousValue = characteristic(previousBL);
+
+  for (let bL = previousBL + step; bL <= maxBL && roots.length < numModes; bL += step) {
+    const value = characteristic(bL);
+    const straddlesCutoff = previousBL < cutoffBL && bL >= cutoffBL;
+    if (straddlesCutoff && hasCutoffMode) {
+      roots.push(cutoffBL);
+    } else if (!straddlesCutoff && previousValue * value < 0) {
+      roots.push(bisect(characteristic, previousBL, bL));
+    }
+    previousBL = bL;
+    previousValue = value;
+  }
+
+  return roots.map((bL) => {
+    const omega = toOmega(bL);
+    if (bL === cutoffBL) {
+      return {
+        frequency: omega / (2 * Math.PI),
+        bL,
+        w: x.map(() => 0),
+        modalMass: p.rotaryInertia * L, // For ψ = 1, as there is no deflection to normalise
+        boundaryResiduals: ends.flatMap(([position, end]) =>
+          endConditionFields[end].map((field) => ({
+            position,
+            condition: fieldLabels[field],
+            residual: 0,
+          }))
+        ),
+      };
+    }
+
+    const basis = buildBasis(p, omega);
+    const coefficients = nullVector4(boundaryMatrix(beamType, p, omega));
+    // Row scaling leaves the null space unchanged, so the coefficients apply to the raw basis
+    const evaluate = (pos: number): FieldValues => {
+      const total: FieldValues = [0, 0, 0, 0];
+      basis.forEach((f, i) => {
+        f(pos).forEach((value, field) => {
+          total[field] += coefficients[i] * value;
+        });
+      });
+      return total;
+    };
+
+    const fields = x.map(evaluate);
+    const w = fields.map((values) => values[0]);
+    const peak = w.reduce((best, value) => (Math.abs(value) > Math.abs(best) ? value : best), 0);
+    const scale = peak !== 0 ? 1 / peak : 1;
+
+    // Dimensionless residuals: derivatives are divided by b = bL/L
+    const b = bL / L;
+    const fieldScales = [1, 1 / b, 1 / (b * b), 1 / b];
+    const boundaryResiduals = ends.flatMap(([position, end]) => {
+      const values = evaluate(position);
+      return endConditionFields[end].map((field) => ({
+        position,
+        condition: fieldLabels[field],
+        residual: values[field] * fieldScales[field] * scale,
+      }));
+    });
+
+    return {
+      frequency: omega / (2 * Math.PI),
+      bL,
+      w: w.map((value) => value * scale),
+      modalMass:
+        scale *
+        scale *
+        trapezoid(
+          x,
+          fields.map(([deflection, rotation]) => rhoA * deflection * deflection + p.rotaryInertia * rotation * rotation)
+        ),
+      boundaryResiduals,
+    };
+  });
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import type { ModeShape } from './beamAnalysis';
+import { ForceHistory, calculateTransientResponse } from './transientResponse';
+
+// A single mode of unit shape along the beam, so the response is that of a mass-spring-damper
+// oscillator of mass m and stiffness ω²·m driven by the applied force
+function uniformShape(modalMass: number): ModeShape {
+  return { mode: 1, x: [0, 1], w: [1, 1], modalMass } as ModeShape;
+}
+
+const mass = 2; // kg
+const frequency = 3; // Hz
+const omega = 2 * Math.PI * frequency;
+const stiffness = omega * omega * mass;
+const F = 50; // N
+
+function oscillatorResponse(zeta: number, history: ForceHistory, duration: number, numPoints: number, f = frequency) {
+  return calculateTransientResponse([uniformShape(mass)], [f], [zeta], history, 0.5, [0.5], duration, numPoints)!;
+}
+
+describe('transient response', () => {
+  it('matches the exact step response of a damped oscillator at any time step', () => {
+    const zeta = 0.05;
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    // Ten steps per period, far too coarse for an approximate integrator
+    const { time, points } = oscillatorResponse(zeta, { type: 'step', amplitude: F, duration: 0 }, 2, 60);
+    time.forEach((t, i) => {
+      const decay = Math.exp(-zeta * omega * t);
+      const oscillation = Math.cos(omegaD * t) + (zeta / Math.sqrt(1 - zeta * zeta)) * Math.sin(omegaD * t);
+      const exact = (F / stiffness) * (1 - decay * oscillation);
+      expect(points[0].displacement[i]).toBeCloseTo(exact, 12);
+    });
+  });
+
+  it('overshoots to twice the static deflection under an undamped step', () => {
+    const { points } = oscillatorResponse(0, { type: 'step', amplitude: F, duration: 0 }, 1 / frequency, 400);
+    expect(Math.max(...points[0].displacement) / (F / stiffness)).toBeCloseTo(2, 9);
+  });
+
+  it('follows x = F/(kT)·(t − sin ωt/ω) during an undamped ramp', () => {
+    const riseTime = 0.5;
+    const { time, points } = oscillatorResponse(0, { type: 'ramp', amplitude: F, duration: riseTime }, riseTime, 25);
+    time.forEach((t, i) => {
+      const exact = (F / (stiffness * riseTime)) * (t - Math.sin(omega * t) / omega);
+      expect(points[0].displacement[i]).toBeCloseTo(exact, 12);
+    });
+  });
+
+  it('gives x = I/(m·ωd)·e^(−ζωt)·sin ωd·t after an impulse', () => {
+    const zeta = 0.1;
+    const impulse = 4; // N·s
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    const history: ForceHistory = { type: 'impulse', amplitude: impulse, duration: 0 };
+    const { time, points, force } = oscillatorResponse(zeta, history, 1, 80);
+    expect(force.every((value) => value === 0)).toBe(true);
+    time.forEach((t, i) => {
+      const exact = (impulse / (mass * omegaD)) * Math.exp(-zeta * omega * t) * Math.sin(omegaD * t);
+      expect(points[0].displacement[i]).toBeCloseTo(exact, 12);
+    });
+  });
+
+  it('creeps up to the static deflection without overshoot when overdamped', () => {
+    const { points } = oscillatorResponse(2, { type: 'step', amplitude: F, duration: 0 }, 5, 500);
+    const { displacement, velocity } = points[0];
+    expect(velocity.every((value) => value >= 0)).toBe(true);
+    expect(Math.max(...displacement)).toBeLessThanOrEqual(F / stiffness);
+    expect(displacement[displacement.length - 1]).toBeCloseTo(F / stiffness, 6);
+  });
+
+  it('accelerates a rigid-body mode as x = F·t²/(2m)', () => {
+    const { time, points } = oscillatorResponse(0, { type: 'step', amplitude: F, duration: 0 }, 1, 10, 0);
+    time.forEach((t, i) => expect(points[0].displacement[i]).toBeCloseTo((F * t * t) / (2 * mass), 12));
+  });
+
+  it('leaves out modes above the Nyquist frequency of the time step', () => {
+    const shapes = [uniformShape(mass), uniformShape(mass)];
+    const history: ForceHistory = { type: 'step', amplitude: F, duration: 0 };
+    const response = calculateTransientResponse(shapes, [3, 300], [0.02, 0.02], history, 0.5, [0.5], 1, 100);
+    expect(response!.modesUsed).toBe(1);
+  });
+
+  it('rejects a negative damping ratio or duration', () => {
+    const history: ForceHistory = { type: 'step', amplitude: F, duration: 0 };
+    expect(calculateTransientResponse([uniformShape(mass)], [3], [-0.01], history, 0.5, [0.5], 1)).toBeNull();
+    expect(calculateTransientResponse([uniformShape(mass)], [3], [0.01], history, 0.5, [0.5], 0)).toBeNull();
+  });
+});
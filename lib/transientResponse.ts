@@ -0,0 +1,223 @@
+import type { ModeShape } from './beamAnalysis';
+import { impulseResponse } from './damping';
+import { modeValueAt } from './frequencyResponse';
+import { Quantity } from './units';
+
+export type ForceHistoryType = 'impulse' | 'step' | 'half-sine' | 'ramp' | 'csv';
+
+export const forceHistoryTypes: { value: ForceHistoryType; label: string; description: string }[] = [
+  { value: 'impulse', label: 'Impulse', description: 'An ideal hammer blow delivering the impulse at t = 0' },
+  { value: 'step', label: 'Step', description: 'The force applied suddenly at t = 0 and held' },
+  { value: 'half-sine', label: 'Half-Sine Shock', description: 'One half-sine pulse of the given length' },
+  { value: 'ramp', label: 'Ramp', description: 'The force rising linearly over the rise time, then held' },
+  { value: 'csv', label: 'CSV File', description: 'A measured force-time history, linear between samples' },
+];
+
+export type TransientQuantity = 'displacement' | 'velocity' | 'acceleration';
+
+export const transientQuantities: { value: TransientQuantity; label: string; quantity: Quantity }[] = [
+  { value: 'displacement', label: 'Displacement', quantity: 'deflection' },
+  { value: 'velocity', label: 'Velocity', quantity: 'velocity' },
+  { value: 'acceleration', label: 'Acceleration', quantity: 'acceleration' },
+];
+
+export interface ForceSample {
+  time: number; // s
+  force: number; // N
+}
+
+export interface ForceHistory {
+  type: ForceHistoryType;
+  amplitude: number; // Peak force in N, or the impulse in N·s for an impulse
+  duration: number; // Length of a half-sine pulse or rise time of a ramp in s
+  samples?: ForceSample[]; // Force-time history of a CSV input
+}
+
+export interface TransientPointResponse {
+  position: number; // meters
+  displacement: number[]; // m
+  velocity: number[]; // m/s
+  acceleration: number[]; // m/s²
+}
+
+export interface TransientResponse {
+  time: number[]; // s
+  force: number[]; // Applied force in N (zero throughout for an impulse)
+  points: TransientPointResponse[];
+  modesUsed: number; // Modes below the Nyquist frequency of the time step
+}
+
+// Coefficients of the exact step of one mode under a force varying linearly over the step:
+// q(t+dt) = a·q + b·q̇ + c·p(t) + d·p(t+dt), q̇(t+dt) = a'·q + b'·q̇ + c'·p(t) + d'·p(t+dt)
+interface StepCoefficients {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  a1: number;
+  b1: number;
+  c1: number;
+  d1: number;
+}
+
+/**
+ * Reads a force-time history from CSV text with the time in seconds in the first column and the
+ * force in newtons in the second. Lines that do not start with two numbers, such as a header, are
+ * skipped. Returns null if fewer than two samples remain or the times do not increase.
+ */
+export function parseForceHistoryCsv(text: string): ForceSample[] | null {
+  const samples = text
+    .split(/\r?\n/)
+    .map((line) => line.split(/[,;\t]/).map((cell) => Number(cell.trim())))
+    .filter((cells) => cells.length >= 2 && cells.slice(0, 2).every((cell) => Number.isFinite(cell)))
+    .map(([time, force]) => ({ time, force }));
+
+  if (samples.length < 2) return null;
+  if (samples.some((sample, i) => i > 0 && sample.time <= samples[i - 1].time)) return null;
+  return samples;
+}
+
+/**
+ * Force of a history at a time in N; zero before t = 0 and after a pulse or the last CSV sample.
+ * An impulse has no finite force: it enters the response as an initial velocity instead.
+ */
+export function forceAt(history: ForceHistory, time: number): number {
+  const { type, amplitude, duration, samples } = history;
+  if (time < 0) return 0;
+  switch (type) {
+    case 'impulse':
+      return 0;
+    case 'step':
+      return amplitude;
+    case 'half-sine':
+      return time <= duration && duration > 0 ? amplitude * Math.sin((Math.PI * time) / duration) : 0;
+    case 'ramp':
+      return duration > 0 ? amplitude * Math.min(time / duration, 1) : amplitude;
+    case 'csv': {
+      if (!samples || samples.length < 2) return 0;
+      const i = samples.findIndex((sample) => sample.time >= time);
+      if (i < 0) return 0;
+      if (i === 0) return time === samples[0].time ? samples[0].force : 0;
+      const t = (time - samples[i - 1].time) / (samples[i].time - samples[i - 1].time);
+      return samples[i - 1].force + t * (samples[i].force - samples[i - 1].force);
+    }
+  }
+}
+
+/**
+ * Time at which the force of a history has done its work: the end of a pulse, ramp or CSV record
+ */
+function forceEndTime(history: ForceHistory): number {
+  switch (history.type) {
+    case 'half-sine':
+    case 'ramp':
+      return history.duration;
+    case 'csv':
+      return history.samples ? history.samples[history.samples.length - 1].time : 0;
+    default:
+      return 0;
+  }
+}
+
+/**
+ * Default length of a transient simulation: the force history followed by ten periods of the
+ * fundamental elastic mode
+ */
+export function defaultTransientDuration(naturalFrequencies: number[], history: ForceHistory): number {
+  const fundamental = naturalFrequencies.find((frequency) => frequency > 0);
+  return forceEndTime(history) + (fundamental ? 10 / fundamental : 1);
+}
+
+/**
+ * Exact step coefficients for a mode of natural frequency ω (rad/s), any damping ratio ζ ≥ 0 and
+ * unit modal mass (Nigam and Jennings). They follow from the impulse response h over one step:
+ * the free motion is q·(h' + 2ζωh) + q̇·h, and the force terms come from ∫h and ∫s·h over the step,
+ * which the equation of motion gives in closed form. A rigid-body mode (ω = 0) integrates the force
+ * twice.
+ */
+function stepCoefficients(omega: number, zeta: number, dt: number): StepCoefficients {
+  const { displacement: h, velocity: hDot } = impulseResponse(omega, zeta, dt);
+  const k = omega * omega;
+  const a = hDot + 2 * zeta * omega * h;
+  const integral = omega === 0 ? (dt * dt) / 2 : (1 - a) / k;
+  const moment = omega === 0 ? (dt * dt * dt) / 3 : (h - dt * hDot - 2 * zeta * omega * (dt * h - integral)) / k;
+
+  return {
+    a,
+    b: h,
+    c: moment / dt,
+    d: integral - moment / dt,
+    a1: -k * h,
+    b1: hDot,
+    c1: h - integral / dt,
+    d1: integral / dt,
+  };
+}
+
+/**
+ * Response at a set of points to a force history applied at the drive point, by modal
+ * superposition over the given modes. Each modal coordinate obeys q̈ + 2ζωq̇ + ω²q = φ(drive)·F(t)/m
+ * and is stepped exactly for a force varying linearly over each time step, so the integration is
+ * stable for any step; modes above the Nyquist frequency of the step are left out because their
+ * response cannot be resolved. Positions are in meters and the damping ratios, one per mode, may
+ * be critical or above for heavily damped modes. Returns null for a negative damping ratio or an
+ * invalid duration or CSV history.
+ */
+export function calculateTransientResponse(
+  modeShapes: ModeShape[],
+  naturalFrequencies: number[],
+  dampingRatios: number[],
+  history: ForceHistory,
+  drivePoint: number,
+  responsePoints: number[],
+  duration: number,
+  numPoints: number = 2000
+): TransientResponse | null {
+  if (!(duration > 0)) return null;
+  if (history.type === 'csv' && !history.samples) return null;
+
+  const dt = duration / numPoints;
+  const nyquist = 1 / (2 * dt);
+  const modes = modeShapes
+    .map((shape, i) => ({
+      omega: 2 * Math.PI * naturalFrequencies[i],
+      zeta: dampingRatios[i] ?? 0,
+      participation: modeValueAt(shape, drivePoint) / shape.modalMass,
+      shapes: responsePoints.map((position) => modeValueAt(shape, position)),
+    }))
+    .filter((mode, i) => naturalFrequencies[i] < nyquist && Number.isFinite(mode.participation));
+  if (modes.some((mode) => mode.zeta < 0)) return null;
+
+  const time = Array.from({ length: numPoints + 1 }, (_, i) => i * dt);
+  const force = time.map((t) => forceAt(history, t));
+  const points = responsePoints.map((position) => ({
+    position,
+    displacement: new Array<number>(time.length).fill(0),
+    velocity: new Array<number>(time.length).fill(0),
+    acceleration: new Array<number>(time.length).fill(0),
+  }));
+
+  modes.forEach((mode) => {
+    const step = stepCoefficients(mode.omega, mode.zeta, dt);
+    // An impulse I at t = 0 sets the modal velocity to φ(drive)·I/m
+    let q = 0;
+    let qDot = history.type === 'impulse' ? mode.participation * history.amplitude : 0;
+    time.forEach((_, i) => {
+      if (i > 0) {
+        const p0 = mode.participation * force[i - 1];
+        const p1 = mode.participation * force[i];
+        const next = step.a * q + step.b * qDot + step.c * p0 + step.d * p1;
+        qDot = step.a1 * q + step.b1 * qDot + step.c1 * p0 + step.d1 * p1;
+        q = next;
+      }
+      const qDdot = mode.participation * force[i] - 2 * mode.zeta * mode.omega * qDot - mode.omega * mode.omega * q;
+      points.forEach((point, j) => {
+        point.displacement[i] += mode.shapes[j] * q;
+        point.velocity[i] += mode.shapes[j] * qDot;
+        point.acceleration[i] += mode.shapes[j] * qDdot;
+      });
+    });
+  });
+
+  return { time, force, points, modesUsed: modes.length };
+}
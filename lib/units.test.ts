@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest';
+import { Quantity, UnitSystem, formatQuantity, fromDisplay, toDisplay, units } from './units';
+
+const systems = Object.keys(units) as UnitSystem[];
+const quantities = Object.keys(units.si) as Quantity[];
+
+describe('unit conversion', () => {
+  it('defines every quantity in every unit system', () => {
+    systems.forEach((system) => expect(Object.keys(units[system]).sort()).toEqual([...quantities].sort()));
+  });
+
+  it.each(systems)('reads typed values back exactly in %s units', (system) => {
+    quantities.forEach((quantity) => {
+      [1, 0.1, 12.5, 2.1e-7, 3.3e8].forEach((typed) => {
+        expect(toDisplay(fromDisplay(typed, quantity, system), quantity, system)).toBe(typed);
+      });
+    });
+  });
+
+  it.each(systems)('converts SI values to %s units and back within round-off', (system) => {
+    quantities.forEach((quantity) => {
+      [7850, 2.1e11, 0.0123, 4.5e-9].forEach((si) => {
+        const roundTrip = fromDisplay(toDisplay(si, quantity, system), quantity, system);
+        expect(Math.abs(roundTrip / si - 1)).toBeLessThan(1e-11);
+      });
+    });
+  });
+
+  it('uses the exact definitions of the US customary units', () => {
+    expect(fromDisplay(1, 'length', 'us')).toBe(0.0254);
+    expect(fromDisplay(1, 'force', 'us')).toBeCloseTo(4.4482216152605, 12);
+    expect(fromDisplay(1, 'mass', 'us')).toBe(0.45359237);
+    expect(toDisplay(6.894757293168e6, 'stress', 'us')).toBeCloseTo(1, 10);
+    expect(toDisplay(2.76799047e4, 'density', 'us')).toBeCloseTo(1, 8);
+  });
+
+  it('scales the engineering units by powers of ten', () => {
+    expect(toDisplay(2.1e11, 'modulus', 'engineering')).toBe(210);
+    expect(toDisplay(0.001, 'deflection', 'engineering')).toBe(1);
+    expect(toDisplay(1500, 'force', 'engineering')).toBe(1.5);
+  });
+
+  it('formats a value with the symbol of its unit', () => {
+    expect(formatQuantity(0.0254, 'length', 'us')).toBe('1.000 in');
+    expect(formatQuantity(2.1e11, 'modulus', 'si')).toBe('2.100e+11 Pa');
+  });
+});
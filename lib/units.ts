@@ -0,0 +1,178 @@
+// The analysis works in SI throughout; units only change what is entered and displayed.
+export type UnitSystem = 'si' | 'engineering' | 'us';
+
+export type Quantity =
+  | 'length' // Positions along the beam and its length
+  | 'dimension' // Cross-section dimensions
+  | 'area'
+  | 'momentOfInertia'
+  | 'sectionModulus'
+  | 'modulus' // E and G
+  | 'stress'
+  | 'density'
+  | 'force'
+  | 'moment'
+  | 'distributedLoad'
+  | 'deflection'
+  | 'flexuralRigidity'
+  | 'massPerLength'
+  | 'shearRigidity'
+  | 'dampingCoefficient'
+  | 'mass'
+  | 'massMomentOfInertia' // Rotary inertia of an attached mass
+  | 'stiffness' // Translational springs
+  | 'rotationalStiffness'
+  | 'foundationModulus' // Winkler foundation stiffness per unit length of beam
+  | 'receptance' // Frequency response functions: displacement, velocity or acceleration per unit force
+  | 'mobility'
+  | 'accelerance'
+  | 'velocity' // Transient response time histories
+  | 'acceleration'
+  | 'impulse';
+
+export interface Unit {
+  symbol: string;
+  factor: number; // Size of one unit in SI, so SI value = displayed value × factor
+}
+
+export const unitSystems: { value: UnitSystem; label: string; description: string }[] = [
+  { value: 'si', label: 'SI', description: 'm, Pa, N, kg' },
+  { value: 'engineering', label: 'Engineering SI', description: 'mm, GPa, MPa, kN' },
+  { value: 'us', label: 'US Customary', description: 'in, ksi, lbf, lb' },
+];
+
+// Exact definitions of the US customary units
+const INCH = 0.0254; // m
+const POUND_FORCE = 4.4482216152605; // N
+const POUND = 0.45359237; // kg
+const KSI = (1000 * POUND_FORCE) / (INCH * INCH); // Pa
+
+export const units: Record<UnitSystem, Record<Quantity, Unit>> = {
+  si: {
+    length: { symbol: 'm', factor: 1 },
+    dimension: { symbol: 'm', factor: 1 },
+    area: { symbol: 'm²', factor: 1 },
+    momentOfInertia: { symbol: 'm⁴', factor: 1 },
+    sectionModulus: { symbol: 'm³', factor: 1 },
+    modulus: { symbol: 'Pa', factor: 1 },
+    stress: { symbol: 'Pa', factor: 1 },
+    density: { symbol: 'kg/m³', factor: 1 },
+    force: { symbol: 'N', factor: 1 },
+    moment: { symbol: 'N·m', factor: 1 },
+    distributedLoad: { symbol: 'N/m', factor: 1 },
+    deflection: { symbol: 'm', factor: 1 },
+    flexuralRigidity: { symbol: 'N·m²', factor: 1 },
+    massPerLength: { symbol: 'kg/m', factor: 1 },
+    shearRigidity: { symbol: 'N', factor: 1 },
+    dampingCoefficient: { symbol: 'N·s/m', factor: 1 },
+    mass: { symbol: 'kg', factor: 1 },
+    massMomentOfInertia: { symbol: 'kg·m²', factor: 1 },
+    stiffness: { symbol: 'N/m', factor: 1 },
+    rotationalStiffness: { symbol: 'N·m/rad', factor: 1 },
+    foundationModulus: { symbol: 'N/m²', factor: 1 },
+    receptance: { symbol: 'm/N', factor: 1 },
+    mobility: { symbol: 'm/(N·s)', factor: 1 },
+    accelerance: { symbol: 'm/(N·s²)', factor: 1 },
+    velocity: { symbol: 'm/s', factor: 1 },
+    acceleration: { symbol: 'm/s²', factor: 1 },
+    impulse: { symbol: 'N·s', factor: 1 },
+  },
+  engineering: {
+    length: { symbol: 'm', factor: 1 },
+    dimension: { symbol: 'mm', factor: 1e-3 },
+    area: { symbol: 'mm²', factor: 1e-6 },
+    momentOfInertia: { symbol: 'mm⁴', factor: 1e-12 },
+    sectionModulus: { symbol: 'mm³', factor: 1e-9 },
+    modulus: { symbol: 'GPa', factor: 1e9 },
+    stress: { symbol: 'MPa', factor: 1e6 },
+    density: { symbol: 'kg/m³', factor: 1 },
+    force: { symbol: 'kN', factor: 1e3 },
+    moment: { symbol: 'kN·m', factor: 1e3 },
+    distributedLoad: { symbol: 'kN/m', factor: 1e3 },
+    deflection: { symbol: 'mm', factor: 1e-3 },
+    flexuralRigidity: { symbol: 'kN·m²', factor: 1e3 },
+    massPerLength: { symbol: 'kg/m', factor: 1 },
+    shearRigidity: { symbol: 'kN', factor: 1e3 },
+    dampingCoefficient: { symbol: 'N·s/m', factor: 1 },
+    mass: { symbol: 'kg', factor: 1 },
+    massMomentOfInertia: { symbol: 'kg·m²', factor: 1 },
+    stiffness: { symbol: 'kN/m', factor: 1e3 },
+    rotationalStiffness: { symbol: 'kN·m/rad', factor: 1e3 },
+    foundationModulus: { symbol: 'kN/m²', factor: 1e3 },
+    receptance: { symbol: 'mm/N', factor: 1e-3 },
+    mobility: { symbol: 'mm/(N·s)', factor: 1e-3 },
+    accelerance: { symbol: 'm/(N·s²)', factor: 1 },
+    velocity: { symbol: 'mm/s', factor: 1e-3 },
+    acceleration: { symbol: 'm/s²', factor: 1 },
+    impulse: { symbol: 'N·s', factor: 1 },
+  },
+  us: {
+    length: { symbol: 'in', factor: INCH },
+    dimension: { symbol: 'in', factor: INCH },
+    area: { symbol: 'in²', factor: INCH ** 2 },
+    momentOfInertia: { symbol: 'in⁴', factor: INCH ** 4 },
+    sectionModulus: { symbol: 'in³', factor: INCH ** 3 },
+    modulus: { symbol: 'ksi', factor: KSI },
+    stress: { symbol: 'ksi', factor: KSI },
+    density: { symbol: 'lb/in³', factor: POUND / INCH ** 3 },
+    force: { symbol: 'lbf', factor: POUND_FORCE },
+    moment: { symbol: 'lbf·in', factor: POUND_FORCE * INCH },
+    distributedLoad: { symbol: 'lbf/in', factor: POUND_FORCE / INCH },
+    deflection: { symbol: 'in', factor: INCH },
+    flexuralRigidity: { symbol: 'lbf·in²', factor: POUND_FORCE * INCH ** 2 },
+    massPerLength: { symbol: 'lb/in', factor: POUND / INCH },
+    shearRigidity: { symbol: 'lbf', factor: POUND_FORCE },
+    dampingCoefficient: { symbol: 'lbf·s/in', factor: POUND_FORCE / INCH },
+    mass: { symbol: 'lb', factor: POUND },
+    massMomentOfInertia: { symbol: 'lb·in²', factor: POUND * INCH ** 2 },
+    stiffness: { symbol: 'lbf/in', factor: POUND_FORCE / INCH },
+    rotationalStiffness: { symbol: 'lbf·in/rad', factor: POUND_FORCE * INCH },
+    foundationModulus: { symbol: 'lbf/in²', factor: POUND_FORCE / INCH ** 2 },
+    receptance: { symbol: 'in/lbf', factor: INCH / POUND_FORCE },
+    mobility: { symbol: 'in/(lbf·s)', factor: INCH / POUND_FORCE },
+    accelerance: { symbol: 'in/(lbf·s²)', factor: INCH / POUND_FORCE },
+    velocity: { symbol: 'in/s', factor: INCH },
+    acceleration: { symbol: 'in/s²', factor: INCH },
+    impulse: { symbol: 'lbf·s', factor: POUND_FORCE },
+  },
+};
+
+/**
+ * Symbol of the unit a quantity is shown in, e.g. "mm"
+ */
+export function unitSymbol(quantity: Quantity, system: UnitSystem): string {
+  return units[system][quantity].symbol;
+}
+
+/**
+ * Converts an SI value to the unit it is shown in. Round-off from the conversion is trimmed so
+ * that values entered in a unit read back exactly as typed.
+ */
+export function toDisplay(value: number, quantity: Quantity, system: UnitSystem): number {
+  return Number((value / units[system][quantity].factor).toPrecision(12));
+}
+
+/**
+ * Converts a value entered in the unit of a quantity to SI
+ */
+export function fromDisplay(value: number, quantity: Quantity, system: UnitSystem): number {
+  return value * units[system][quantity].factor;
+}
+
+/**
+ * Formats a number to a number of significant digits, switching to exponent notation for very
+ * large or small values
+ */
+export function formatNumber(value: number, digits: number = 4): string {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0) return '0';
+  if (magnitude >= 1e5 || magnitude < 1e-3) return value.toExponential(digits - 1);
+  return value.toPrecision(digits);
+}
+
+/**
+ * Formats an SI value in the unit of a quantity, e.g. "12.50 mm"
+ */
+export function formatQuantity(value: number, quantity: Quantity, system: UnitSystem, digits: number = 4): string {
+  return `${formatNumber(toDisplay(value, quantity, system), digits)} ${unitSymbol(quantity, system)}`;
+}